@@ -14,6 +14,7 @@ import type { Exchange } from '../src/core/exchange.js';
 import {
   createExchange,
   Kalshi,
+  KalshiWebSocket,
   Limitless,
   LimitlessWebSocket,
   listExchanges,
@@ -22,9 +23,12 @@ import {
   type Orderbook,
   OrderbookUtils,
   OrderSide,
+  PollingOrderBookStream,
   Polymarket,
   PolymarketWebSocket,
   PredictFun,
+  parseMarketRef,
+  resolveMarket,
   Strategy,
   type StrategyConfig,
 } from '../src/index.js';
@@ -83,8 +87,9 @@ class PolymarketOrderbookProvider implements OrderbookProvider {
 
   private async fetchInitialOrderbook(): Promise<void> {
     try {
-      const restOrderbook = await this.exchange.getOrderbook(this.tokenId);
-      this.orderbook = OrderbookUtils.fromRestResponse(restOrderbook, this.tokenId);
+      this.orderbook = await this.exchange.fetchOrderbook(this.marketId, {
+        tokenId: this.tokenId,
+      });
       if (this.verbose) {
         console.log(
           `[Polymarket REST] Initial orderbook: ${this.orderbook.bids.length} bids, ${this.orderbook.asks.length} asks`
@@ -168,55 +173,97 @@ class LimitlessOrderbookProvider implements OrderbookProvider {
   }
 }
 
-type OrderbookFetcher = () => Promise<Orderbook>;
+class KalshiOrderbookProvider implements OrderbookProvider {
+  private ws: KalshiWebSocket;
+  private orderbook: Orderbook | null = null;
+  private ticker: string;
+  private verbose: boolean;
+
+  constructor(ticker: string, verbose = false) {
+    this.ticker = ticker;
+    this.verbose = verbose;
+    this.ws = new KalshiWebSocket({
+      apiKeyId: process.env.KALSHI_API_KEY_ID,
+      privateKeyPath: process.env.KALSHI_PRIVATE_KEY_PATH,
+      privateKeyPem: process.env.KALSHI_PRIVATE_KEY_PEM,
+      demo: process.env.KALSHI_DEMO === 'true',
+      verbose,
+    });
+  }
+
+  async start(): Promise<void> {
+    this.ws.on('error', (err) => {
+      if (this.verbose) console.error('[Kalshi WS] Error:', err.message);
+    });
+
+    await this.ws.watchOrderbook(this.ticker, () => {
+      this.orderbook = this.ws.getOrderbook(this.ticker);
+    });
+
+    if (this.verbose) console.log('[Kalshi WS] Connected and subscribed');
+  }
+
+  async stop(): Promise<void> {
+    await this.ws.disconnect();
+  }
+
+  getOrderbook(): Orderbook | null {
+    return this.orderbook;
+  }
+}
 
-class RestOrderbookProvider implements OrderbookProvider {
+class PollingOrderbookProvider implements OrderbookProvider {
+  private stream: PollingOrderBookStream;
   private orderbook: Orderbook | null = null;
-  private fetcher: OrderbookFetcher;
+  private marketId: string;
+  private tokenId: string;
   private pollInterval: number;
-  private timer: ReturnType<typeof setInterval> | null = null;
   private verbose: boolean;
   private exchangeName: string;
 
   constructor(
-    exchangeName: string,
-    fetcher: OrderbookFetcher,
+    exchange: Exchange,
+    marketId: string,
+    tokenId: string,
     pollInterval = 2000,
     verbose = false
   ) {
-    this.exchangeName = exchangeName;
-    this.fetcher = fetcher;
+    this.exchangeName = exchange.name;
+    this.marketId = marketId;
+    this.tokenId = tokenId;
     this.pollInterval = pollInterval;
     this.verbose = verbose;
+    this.stream = new PollingOrderBookStream(exchange, { pollInterval });
   }
 
   async start(): Promise<void> {
-    await this.fetchOrderbook();
+    this.stream.on('error', (err) => {
+      if (this.verbose) console.error(`[${this.exchangeName} REST] Fetch error:`, err.message);
+    });
 
-    this.timer = setInterval(async () => {
-      await this.fetchOrderbook();
-    }, this.pollInterval);
+    await this.stream.watchOrderbook(
+      this.marketId,
+      (_marketId, update) => {
+        this.orderbook = {
+          bids: update.bids,
+          asks: update.asks,
+          timestamp: update.timestamp,
+          assetId: this.tokenId,
+          marketId: this.marketId,
+        };
+      },
+      { tokenId: this.tokenId }
+    );
 
     if (this.verbose) {
-      console.log(`[${this.exchangeName} REST] Started polling every ${this.pollInterval}ms`);
-    }
-  }
-
-  private async fetchOrderbook(): Promise<void> {
-    try {
-      this.orderbook = await this.fetcher();
-    } catch (error) {
-      if (this.verbose) {
-        console.error(`[${this.exchangeName} REST] Fetch error:`, error);
-      }
+      console.log(
+        `[${this.exchangeName} REST] Started polling every ${this.pollInterval}ms while the book moves`
+      );
     }
   }
 
   async stop(): Promise<void> {
-    if (this.timer) {
-      clearInterval(this.timer);
-      this.timer = null;
-    }
+    await this.stream.disconnect();
   }
 
   getOrderbook(): Orderbook | null {
@@ -345,94 +392,25 @@ class SpikeStrategy extends Strategy {
     const pollInterval = this.spikeConfig.restPollingInterval;
     const verbose = this.config.verbose ?? false;
 
-    switch (this.exchange.id) {
-      case 'polymarket': {
-        const polymarket = this.exchange as Polymarket;
-        if (useWs) {
-          this.orderbookProvider = new PolymarketOrderbookProvider(
-            firstTokenId,
-            this.marketId,
-            polymarket,
-            verbose
-          );
-        } else {
-          this.orderbookProvider = new RestOrderbookProvider(
-            'Polymarket',
-            async () => {
-              const data = await polymarket.getOrderbook(firstTokenId);
-              return OrderbookUtils.fromRestResponse(data, firstTokenId);
-            },
-            pollInterval,
-            verbose
-          );
-        }
-        break;
-      }
-
-      case 'limitless': {
-        if (useWs) {
-          this.orderbookProvider = new LimitlessOrderbookProvider(this.marketId, tokenIds, verbose);
-        } else {
-          const limitless = this.exchange as Limitless;
-          this.orderbookProvider = new RestOrderbookProvider(
-            'Limitless',
-            async () => {
-              const data = await limitless.getOrderbook(this.marketId);
-              return OrderbookUtils.fromRestResponse(data, firstTokenId);
-            },
-            pollInterval,
-            verbose
-          );
-        }
-        break;
-      }
-
-      case 'kalshi': {
-        const kalshi = this.exchange as Kalshi;
-        this.orderbookProvider = new RestOrderbookProvider(
-          'Kalshi',
-          async () => kalshi.fetchOrderbook(this.marketId),
-          pollInterval,
-          verbose
-        );
-        break;
-      }
-
-      case 'opinion': {
-        const opinion = this.exchange as unknown as {
-          getOrderbook: (tokenId: string) => Promise<{
-            bids: Array<{ price: string; size: string }>;
-            asks: Array<{ price: string; size: string }>;
-          }>;
-        };
-        this.orderbookProvider = new RestOrderbookProvider(
-          'Opinion',
-          async () => {
-            const data = await opinion.getOrderbook(firstTokenId);
-            return OrderbookUtils.fromRestResponse(data, firstTokenId);
-          },
-          pollInterval,
-          verbose
-        );
-        break;
-      }
-
-      case 'predictfun': {
-        const predictfun = this.exchange as PredictFun;
-        this.orderbookProvider = new RestOrderbookProvider(
-          'PredictFun',
-          async () => {
-            const data = await predictfun.getOrderbook(this.marketId);
-            return OrderbookUtils.fromRestResponse(data, firstTokenId);
-          },
-          pollInterval,
-          verbose
-        );
-        break;
-      }
-
-      default:
-        throw new Error(`Unsupported exchange: ${this.exchange.id}`);
+    if (useWs && this.exchange.id === 'polymarket') {
+      this.orderbookProvider = new PolymarketOrderbookProvider(
+        firstTokenId,
+        this.marketId,
+        this.exchange as Polymarket,
+        verbose
+      );
+    } else if (useWs && this.exchange.id === 'limitless') {
+      this.orderbookProvider = new LimitlessOrderbookProvider(this.marketId, tokenIds, verbose);
+    } else if (useWs && this.exchange.id === 'kalshi' && process.env.KALSHI_API_KEY_ID) {
+      this.orderbookProvider = new KalshiOrderbookProvider(this.marketId, verbose);
+    } else {
+      this.orderbookProvider = new PollingOrderbookProvider(
+        this.exchange,
+        this.marketId,
+        firstTokenId,
+        pollInterval,
+        verbose
+      );
     }
 
     await this.orderbookProvider.start();
@@ -749,16 +727,6 @@ function createExchangeWithConfig(exchangeId: string): ExchangeCreationResult {
   }
 }
 
-function extractSlugFromUrl(url: string): string {
-  const cleaned = url.split('?')[0]?.replace(/\/$/, '') ?? '';
-  const parts = cleaned.split('/');
-  const eventIndex = parts.indexOf('event');
-  if (eventIndex !== -1 && eventIndex + 1 < parts.length) {
-    return parts[eventIndex + 1] ?? '';
-  }
-  return parts[parts.length - 1] ?? '';
-}
-
 function parseArgs(): SpikeStrategyConfig & { exchangeId: string; marketUrl?: string } {
   const args = process.argv.slice(2);
   const config: SpikeStrategyConfig & { exchangeId: string; marketUrl?: string } = {
@@ -825,7 +793,7 @@ Usage:
 
 Options:
   -e, --exchange <name>      Exchange name (default: polymarket)
-  -m, --market-url <url>     Polymarket URL (auto-selects if not provided)
+  -m, --market-url <url>     Market URL, slug or ticker (auto-selects if not provided)
   --spike-threshold <n>      Spike detection threshold (default: 0.015 = 1.5%)
   --profit-target <n>        Take profit target (default: 0.03 = 3%)
   --stop-loss <n>            Stop loss limit (default: 0.02 = 2%)
@@ -885,17 +853,18 @@ async function main() {
   let market: Market | null = null;
 
   if (config.marketUrl) {
-    const slug = extractSlugFromUrl(config.marketUrl);
+    const ref = parseMarketRef(config.marketUrl);
+    if (ref.exchange && ref.exchange !== exchange.id) {
+      throw new Error(`--market-url points to ${ref.exchange}, but the exchange is ${exchange.id}`);
+    }
     console.log(`Fetching market from URL: ${config.marketUrl}`);
-    console.log(`  Slug: ${slug}`);
+    console.log(`  Reference: ${ref.id}`);
 
-    if (exchange.id === 'polymarket') {
-      const polymarket = exchange as Polymarket;
-      const markets = await polymarket.fetchMarketsBySlug(slug);
-      market = markets[0] ?? null;
-    } else {
-      throw new Error('--market-url is only supported for Polymarket');
-    }
+    const { markets } = await resolveMarket(config.marketUrl, {
+      defaultExchange: exchange.id,
+      exchanges: { [exchange.id]: exchange },
+    });
+    market = markets[0] ?? null;
   } else {
     console.log('Finding a suitable market with liquidity...');
     const liquidityThresholds = [10000, 5000, 1000, 500, 100];
@@ -2,7 +2,7 @@
  * Spread Strategy Example
  *
  * A market making strategy that works across all supported exchanges.
- * Uses WebSocket for Polymarket/Limitless, REST polling for others.
+ * Uses WebSocket for Polymarket/Limitless/Kalshi, REST polling for others.
  *
  * Usage:
  *   EXCHANGE=polymarket PRIVATE_KEY=0x... npx tsx examples/spread-strategy.ts
@@ -16,6 +16,7 @@ import type { Exchange } from '../src/core/exchange.js';
 import {
   createExchange,
   Kalshi,
+  KalshiWebSocket,
   Limitless,
   LimitlessWebSocket,
   listExchanges,
@@ -24,6 +25,7 @@ import {
   type Orderbook,
   OrderbookUtils,
   OrderSide,
+  PollingOrderBookStream,
   Polymarket,
   PolymarketWebSocket,
   PredictFun,
@@ -128,55 +130,97 @@ class LimitlessOrderbookProvider implements OrderbookProvider {
   }
 }
 
-type OrderbookFetcher = () => Promise<Orderbook>;
+class KalshiOrderbookProvider implements OrderbookProvider {
+  private ws: KalshiWebSocket;
+  private orderbook: Orderbook | null = null;
+  private ticker: string;
+  private verbose: boolean;
+
+  constructor(ticker: string, verbose = false) {
+    this.ticker = ticker;
+    this.verbose = verbose;
+    this.ws = new KalshiWebSocket({
+      apiKeyId: process.env.KALSHI_API_KEY_ID,
+      privateKeyPath: process.env.KALSHI_PRIVATE_KEY_PATH,
+      privateKeyPem: process.env.KALSHI_PRIVATE_KEY_PEM,
+      demo: process.env.KALSHI_DEMO === 'true',
+      verbose,
+    });
+  }
+
+  async start(): Promise<void> {
+    this.ws.on('error', (err) => {
+      if (this.verbose) console.error('[Kalshi WS] Error:', err.message);
+    });
 
-class RestOrderbookProvider implements OrderbookProvider {
+    await this.ws.watchOrderbook(this.ticker, () => {
+      this.orderbook = this.ws.getOrderbook(this.ticker);
+    });
+
+    if (this.verbose) console.log('[Kalshi WS] Connected and subscribed');
+  }
+
+  async stop(): Promise<void> {
+    await this.ws.disconnect();
+  }
+
+  getOrderbook(): Orderbook | null {
+    return this.orderbook;
+  }
+}
+
+class PollingOrderbookProvider implements OrderbookProvider {
+  private stream: PollingOrderBookStream;
   private orderbook: Orderbook | null = null;
-  private fetcher: OrderbookFetcher;
+  private marketId: string;
+  private tokenId: string;
   private pollInterval: number;
-  private timer: ReturnType<typeof setInterval> | null = null;
   private verbose: boolean;
   private exchangeName: string;
 
   constructor(
-    exchangeName: string,
-    fetcher: OrderbookFetcher,
+    exchange: Exchange,
+    marketId: string,
+    tokenId: string,
     pollInterval = 2000,
     verbose = false
   ) {
-    this.exchangeName = exchangeName;
-    this.fetcher = fetcher;
+    this.exchangeName = exchange.name;
+    this.marketId = marketId;
+    this.tokenId = tokenId;
     this.pollInterval = pollInterval;
     this.verbose = verbose;
+    this.stream = new PollingOrderBookStream(exchange, { pollInterval });
   }
 
   async start(): Promise<void> {
-    await this.fetchOrderbook();
+    this.stream.on('error', (err) => {
+      if (this.verbose) console.error(`[${this.exchangeName} REST] Fetch error:`, err.message);
+    });
 
-    this.timer = setInterval(async () => {
-      await this.fetchOrderbook();
-    }, this.pollInterval);
+    await this.stream.watchOrderbook(
+      this.marketId,
+      (_marketId, update) => {
+        this.orderbook = {
+          bids: update.bids,
+          asks: update.asks,
+          timestamp: update.timestamp,
+          assetId: this.tokenId,
+          marketId: this.marketId,
+        };
+      },
+      { tokenId: this.tokenId }
+    );
 
     if (this.verbose) {
-      console.log(`[${this.exchangeName} REST] Started polling every ${this.pollInterval}ms`);
-    }
-  }
-
-  private async fetchOrderbook(): Promise<void> {
-    try {
-      this.orderbook = await this.fetcher();
-    } catch (error) {
-      if (this.verbose) {
-        console.error(`[${this.exchangeName} REST] Fetch error:`, error);
-      }
+      console.log(
+        `[${this.exchangeName} REST] Started polling every ${this.pollInterval}ms while the book moves`
+      );
     }
   }
 
   async stop(): Promise<void> {
-    if (this.timer) {
-      clearInterval(this.timer);
-      this.timer = null;
-    }
+    await this.stream.disconnect();
   }
 
   getOrderbook(): Orderbook | null {
@@ -240,100 +284,23 @@ class ComprehensiveSpreadStrategy extends Strategy {
     const pollInterval = this.spreadConfig.restPollingInterval ?? 2000;
     const verbose = this.spreadConfig.verbose ?? false;
 
-    switch (this.exchange.id) {
-      case 'polymarket': {
-        if (useWs) {
-          this.orderbookProvider = new PolymarketOrderbookProvider(
-            this.tokenId,
-            this.marketId,
-            verbose
-          );
-        } else {
-          const polymarket = this.exchange as Polymarket;
-          const tokenId = this.tokenId;
-          this.orderbookProvider = new RestOrderbookProvider(
-            'Polymarket',
-            async () => {
-              const data = await polymarket.getOrderbook(tokenId);
-              return OrderbookUtils.fromRestResponse(data, tokenId);
-            },
-            pollInterval,
-            verbose
-          );
-        }
-        break;
-      }
-
-      case 'limitless': {
-        if (useWs) {
-          this.orderbookProvider = new LimitlessOrderbookProvider(this.marketId, tokenIds, verbose);
-        } else {
-          const limitless = this.exchange as Limitless;
-          const marketId = this.marketId;
-          const tokenId = this.tokenId;
-          this.orderbookProvider = new RestOrderbookProvider(
-            'Limitless',
-            async () => {
-              const data = await limitless.getOrderbook(marketId);
-              return OrderbookUtils.fromRestResponse(data, tokenId);
-            },
-            pollInterval,
-            verbose
-          );
-        }
-        break;
-      }
-
-      case 'kalshi': {
-        const kalshi = this.exchange as Kalshi;
-        const marketId = this.marketId;
-        this.orderbookProvider = new RestOrderbookProvider(
-          'Kalshi',
-          async () => kalshi.fetchOrderbook(marketId),
-          pollInterval,
-          verbose
-        );
-        break;
-      }
-
-      case 'opinion': {
-        const opinion = this.exchange as unknown as {
-          getOrderbook: (tokenId: string) => Promise<{
-            bids: Array<{ price: string; size: string }>;
-            asks: Array<{ price: string; size: string }>;
-          }>;
-        };
-        const tokenId = this.tokenId;
-        this.orderbookProvider = new RestOrderbookProvider(
-          'Opinion',
-          async () => {
-            const data = await opinion.getOrderbook(tokenId);
-            return OrderbookUtils.fromRestResponse(data, tokenId);
-          },
-          pollInterval,
-          verbose
-        );
-        break;
-      }
-
-      case 'predictfun': {
-        const predictfun = this.exchange as PredictFun;
-        const marketId = this.marketId;
-        const tokenId = this.tokenId;
-        this.orderbookProvider = new RestOrderbookProvider(
-          'PredictFun',
-          async () => {
-            const data = await predictfun.getOrderbook(marketId);
-            return OrderbookUtils.fromRestResponse(data, tokenId);
-          },
-          pollInterval,
-          verbose
-        );
-        break;
-      }
-
-      default:
-        throw new Error(`Unsupported exchange: ${this.exchange.id}`);
+    const marketId = this.marketId;
+    const tokenId = this.tokenId;
+
+    if (useWs && this.exchange.id === 'polymarket') {
+      this.orderbookProvider = new PolymarketOrderbookProvider(tokenId, marketId, verbose);
+    } else if (useWs && this.exchange.id === 'limitless') {
+      this.orderbookProvider = new LimitlessOrderbookProvider(marketId, tokenIds, verbose);
+    } else if (useWs && this.exchange.id === 'kalshi' && process.env.KALSHI_API_KEY_ID) {
+      this.orderbookProvider = new KalshiOrderbookProvider(marketId, verbose);
+    } else {
+      this.orderbookProvider = new PollingOrderbookProvider(
+        this.exchange,
+        marketId,
+        tokenId,
+        pollInterval,
+        verbose
+      );
     }
 
     await this.orderbookProvider.start();
@@ -1,12 +1,53 @@
-import { NetworkError, RateLimitError } from '../errors/index.js';
 import {
+  ExchangeError,
+  InvalidOrder,
+  MarketNotFound,
+  NetworkError,
+  NotSupported,
+  RateLimitError,
+} from '../errors/index.js';
+import {
+  type Balance,
   type CreateOrderParams,
+  type Event,
+  type FetchAllMarketsParams,
+  type FetchEventsParams,
   type FetchMarketsParams,
+  type FetchMyTradesParams,
+  type FetchOrderbookParams,
+  type FetchOrdersParams,
+  type FetchPriceHistoryParams,
+  type FetchPublicTradesParams,
   type Market,
+  type MarketResolution,
   MarketUtils,
+  type OHLCV,
+  type OHLCVTimeframe,
+  OHLCVUtils,
   type Order,
+  type Orderbook,
+  type OrderResult,
+  OrderSide,
+  OrderStatus,
+  OrderType,
+  OrderUtils,
+  type OutcomeToken,
   type Position,
+  type PriceHistoryInterval,
+  type PricePoint,
+  type PublicTrade,
+  TimeInForce,
+  type Trade,
 } from '../types/index.js';
+import {
+  parseRetryAfter,
+  RateLimiter,
+  type RateLimitScope,
+  type RateLimits,
+} from './rate-limiter.js';
+
+/** fetch-compatible function used for every HTTP request an exchange makes */
+export type Transport = (input: string | URL, init?: RequestInit) => Promise<Response>;
 
 export interface ExchangeConfig {
   apiKey?: string;
@@ -15,28 +56,154 @@ export interface ExchangeConfig {
   funder?: string;
   timeout?: number;
   verbose?: boolean;
+  /** Requests per second; overrides the exchange's default budgets */
   rateLimit?: number;
   maxRetries?: number;
   retryDelay?: number;
   retryBackoff?: number;
+  /** HTTP transport for proxies, recording or local stand-in servers (default: global fetch) */
+  transport?: Transport;
 }
 
+/** `true` when backed by a venue endpoint, `'emulated'` when built from other calls */
+export type Capability = boolean | 'emulated';
+
 export interface ExchangeCapabilities {
-  fetchMarkets: boolean;
-  fetchMarket: boolean;
-  createOrder: boolean;
-  cancelOrder: boolean;
-  fetchOrder: boolean;
-  fetchOpenOrders: boolean;
-  fetchPositions: boolean;
-  fetchBalance: boolean;
-  websocket: boolean;
+  fetchMarkets: Capability;
+  fetchMarket: Capability;
+  paginateMarkets: Capability;
+  searchMarkets: Capability;
+  fetchEvents: Capability;
+  fetchEvent: Capability;
+  fetchResolution: Capability;
+  fetchOrderbook: Capability;
+  fetchPriceHistory: Capability;
+  fetchOHLCV: Capability;
+  fetchPublicTrades: Capability;
+  createOrder: Capability;
+  createOrders: Capability;
+  cancelOrder: Capability;
+  cancelOrders: Capability;
+  cancelAllOrders: Capability;
+  fetchOrder: Capability;
+  fetchOpenOrders: Capability;
+  fetchOrders: Capability;
+  fetchClosedOrders: Capability;
+  fetchMyTrades: Capability;
+  fetchPositions: Capability;
+  fetchBalance: Capability;
+  websocket: Capability;
 }
 
+/** Real-time feeds an exchange's WebSocket client can stream */
+export const WebSocketChannel = {
+  ORDERBOOK: 'orderbook',
+  PRICES: 'prices',
+  TRADES: 'trades',
+  ORDERS: 'orders',
+  FILLS: 'fills',
+  POSITIONS: 'positions',
+} as const;
+export type WebSocketChannel = (typeof WebSocketChannel)[keyof typeof WebSocketChannel];
+
+export interface ExchangeDescription {
+  id: string;
+  name: string;
+  has: ExchangeCapabilities;
+  orderTypes: OrderType[];
+  timeInForce: TimeInForce[];
+  orderFlags: OrderFlag[];
+  websocketChannels: WebSocketChannel[];
+}
+
+/** Optional order behaviours a venue may honour */
+export type OrderFlag = 'postOnly' | 'reduceOnly';
+
+/** Order options after defaults are applied and checked against the venue */
+export interface ResolvedOrderOptions {
+  type: OrderType;
+  /** Undefined for market orders left to the venue's default immediate fill */
+  timeInForce?: TimeInForce;
+  expiresAt?: Date;
+  postOnly: boolean;
+  reduceOnly: boolean;
+}
+
+type CapabilityMethod = Exclude<keyof ExchangeCapabilities, 'websocket'>;
+
+const CAPABILITY_METHODS: CapabilityMethod[] = [
+  'fetchMarkets',
+  'fetchMarket',
+  'paginateMarkets',
+  'searchMarkets',
+  'fetchEvents',
+  'fetchEvent',
+  'fetchResolution',
+  'fetchOrderbook',
+  'fetchPriceHistory',
+  'fetchOHLCV',
+  'fetchPublicTrades',
+  'createOrder',
+  'createOrders',
+  'cancelOrder',
+  'cancelOrders',
+  'cancelAllOrders',
+  'fetchOrder',
+  'fetchOpenOrders',
+  'fetchOrders',
+  'fetchClosedOrders',
+  'fetchMyTrades',
+  'fetchPositions',
+  'fetchBalance',
+];
+
+const DEFAULT_PAGE_SIZE = 100;
+const DEFAULT_MAX_ITEMS = 10000;
+/** Statuses of orders that are no longer on the book */
+const CLOSED_ORDER_STATUSES: OrderStatus[] = [
+  OrderStatus.FILLED,
+  OrderStatus.CANCELLED,
+  OrderStatus.EXPIRED,
+  OrderStatus.REJECTED,
+];
+/** Orders in flight at once when a venue has no batch endpoint */
+const ORDER_CONCURRENCY = 5;
+/** Candles `fetchOHLCV` returns when no start is given */
+const DEFAULT_OHLCV_CANDLES = 100;
+/** Price points requested per candle when candles are built from price history */
+const SAMPLES_PER_CANDLE = 6;
+
+const HOUR_MS = 60 * 60 * 1000;
+/** Length of each price history window; `max` has no start */
+const HISTORY_INTERVAL_MS: Record<PriceHistoryInterval, number | undefined> = {
+  '1m': 30 * 24 * HOUR_MS,
+  '1h': HOUR_MS,
+  '6h': 6 * HOUR_MS,
+  '1d': 24 * HOUR_MS,
+  '1w': 7 * 24 * HOUR_MS,
+  max: undefined,
+};
+
+const DEFAULT_RATE_LIMITS: RateLimits = {
+  public: { rate: 10 },
+  private: { rate: 10 },
+};
+
 export abstract class Exchange {
   protected config: ExchangeConfig;
-  protected requestTimes: number[] = [];
-  protected lastRequestTime = 0;
+  /** Request budgets; exchanges override these with their venue's documented limits */
+  protected readonly rateLimits: RateLimits = DEFAULT_RATE_LIMITS;
+  private limiters: Partial<Record<RateLimitScope, RateLimiter>> = {};
+  /** Order types `createOrder` accepts */
+  protected readonly orderTypes: readonly OrderType[] = [OrderType.LIMIT];
+  /** Time-in-force values `createOrder` accepts */
+  protected readonly timeInForces: readonly TimeInForce[] = [TimeInForce.GTC];
+  /** Order flags `createOrder` honours */
+  protected readonly orderFlags: readonly OrderFlag[] = [];
+  /** Channels served by the exchange's WebSocket client */
+  protected readonly websocketChannels: readonly WebSocketChannel[] = [];
+  /** Corrections for methods that exist but cannot deliver what their signature promises */
+  protected readonly capabilityOverrides: Partial<ExchangeCapabilities> = {};
 
   abstract readonly id: string;
   abstract readonly name: string;
@@ -45,7 +212,6 @@ export abstract class Exchange {
     this.config = {
       timeout: 30000,
       verbose: false,
-      rateLimit: 10,
       maxRetries: 3,
       retryDelay: 1000,
       retryBackoff: 2,
@@ -63,48 +229,354 @@ export abstract class Exchange {
 
   abstract fetchMarkets(params?: FetchMarketsParams): Promise<Market[]>;
   abstract fetchMarket(marketId: string): Promise<Market>;
+  abstract fetchOrderbook(marketId: string, params?: FetchOrderbookParams): Promise<Orderbook>;
   abstract createOrder(params: CreateOrderParams): Promise<Order>;
   abstract cancelOrder(orderId: string, marketId?: string): Promise<Order>;
   abstract fetchOrder(orderId: string, marketId?: string): Promise<Order>;
   abstract fetchOpenOrders(marketId?: string): Promise<Order[]>;
+  /** Order history, including filled, cancelled and expired orders, newest first */
+  abstract fetchOrders(params?: FetchOrdersParams): Promise<Order[]>;
+  /** The account's own fills, newest first */
+  abstract fetchMyTrades(params?: FetchMyTradesParams): Promise<Trade[]>;
   abstract fetchPositions(marketId?: string): Promise<Position[]>;
-  abstract fetchBalance(): Promise<Record<string, number>>;
+  /** Collateral by currency, split into what is free and what resting orders hold */
+  abstract fetchBalance(): Promise<Balance>;
+
+  /**
+   * Iterate over every market matching `params`, following the venue's native pagination.
+   * `params.limit` caps the total number of markets yielded.
+   */
+  paginateMarkets(params: FetchMarketsParams = {}): AsyncGenerator<Market> {
+    const { limit, offset = 0, ...filters } = params;
+
+    return this.paginate<Market, number>(async (cursor = offset) => {
+      const markets = await this.fetchMarkets({
+        ...filters,
+        offset: cursor,
+        limit: DEFAULT_PAGE_SIZE,
+      });
+      const next = markets.length < DEFAULT_PAGE_SIZE ? undefined : cursor + markets.length;
+      return { items: markets, next };
+    }, limit);
+  }
+
+  /** Load every market matching `params`, failing once more than `maxItems` are found */
+  async fetchAllMarkets(params: FetchAllMarketsParams = {}): Promise<Market[]> {
+    const { maxItems = DEFAULT_MAX_ITEMS, ...filters } = params;
+    const markets: Market[] = [];
+
+    for await (const market of this.paginateMarkets(filters)) {
+      if (markets.length >= maxItems) {
+        throw new ExchangeError(
+          `${this.name} has more than ${maxItems} markets matching the filters; raise maxItems`
+        );
+      }
+      markets.push(market);
+    }
+
+    return markets;
+  }
+
+  /**
+   * Events assembled from one page of markets that share an `eventId`. Titles fall back to the
+   * event ID; venues with an events endpoint override this with the real event data.
+   */
+  async fetchEvents(params: FetchEventsParams = {}): Promise<Event[]> {
+    const { limit, ...filters } = params;
+    return this.groupEvents(await this.fetchMarkets(filters)).slice(0, limit);
+  }
+
+  /**
+   * A single event with its child markets. The default walks every page of markets, since an
+   * event's markets need not be listed together.
+   */
+  async fetchEvent(eventId: string): Promise<Event> {
+    const markets: Market[] = [];
+    for await (const market of this.paginateMarkets()) {
+      if (market.eventId === eventId) markets.push(market);
+    }
+
+    const [event] = this.groupEvents(markets);
+    if (!event) {
+      throw new MarketNotFound(`Event ${eventId} not found`);
+    }
+    return event;
+  }
+
+  /** Events built from markets that share an `eventId`, in order of first appearance */
+  private groupEvents(markets: Market[]): Event[] {
+    const events = new Map<string, Event>();
+
+    for (const market of markets) {
+      if (!market.eventId) continue;
+      let event = events.get(market.eventId);
+      if (!event) {
+        event = {
+          id: market.eventId,
+          title: market.eventId,
+          description: '',
+          category: market.category,
+          mutuallyExclusive: false,
+          negRisk: false,
+          markets: [],
+          metadata: {},
+        };
+        events.set(market.eventId, event);
+      }
+      event.markets.push(market);
+    }
+
+    return [...events.values()];
+  }
+
+  /** Taker fee per share bought at `price`, from the market's flat `feeRateBps` */
+  takerFee(market: Market, price: number): number {
+    return (price * (market.feeRateBps ?? 0)) / 10_000;
+  }
+
+  /** How a market settled, or null while it is still trading or awaiting an outcome */
+  async fetchResolution(marketId: string): Promise<MarketResolution | null> {
+    const market = await this.fetchMarket(marketId);
+    return market.resolution ?? null;
+  }
+
+  /** Price points of one outcome, oldest first; venues with a price feed override this */
+  async fetchPriceHistory(
+    _market: Market | string,
+    _params?: FetchPriceHistoryParams
+  ): Promise<PricePoint[]> {
+    throw new NotSupported(`${this.name} does not serve price history`);
+  }
+
+  /**
+   * Candles of one outcome, oldest first, covering the last 100 candles unless `since` is given.
+   * Built by bucketing price history sampled several times per candle, so volume is 0 and
+   * candles without a single point are skipped; venues with native candles override this.
+   */
+  async fetchOHLCV(
+    market: Market | string,
+    outcome: number | string = 0,
+    timeframe: OHLCVTimeframe = '1h',
+    since?: Date,
+    until?: Date
+  ): Promise<OHLCV[]> {
+    const length = OHLCVUtils.timeframeMs(timeframe);
+    const end = until ?? new Date();
+    const points = await this.fetchPriceHistory(market, {
+      outcome,
+      since: since ?? new Date(end.getTime() - DEFAULT_OHLCV_CANDLES * length),
+      until: end,
+      fidelity: Math.max(1, Math.floor(length / 60_000 / SAMPLES_PER_CANDLE)),
+    });
+    return OHLCVUtils.fromPricePoints(points, timeframe);
+  }
+
+  /** Public executions, newest first, up to `limit` (default: 100) or back to `since` */
+  async fetchPublicTrades(params: FetchPublicTradesParams = {}): Promise<PublicTrade[]> {
+    const trades: PublicTrade[] = [];
+    for await (const trade of this.paginatePublicTrades({ limit: DEFAULT_PAGE_SIZE, ...params })) {
+      trades.push(trade);
+    }
+    return trades;
+  }
+
+  /** Iterate over public executions, newest first, following the venue's cursor */
+  async *paginatePublicTrades(params: FetchPublicTradesParams = {}): AsyncGenerator<PublicTrade> {
+    const pages = this.paginate<PublicTrade, string>(
+      (cursor) => this.fetchPublicTradesPage(params, cursor),
+      params.limit
+    );
+
+    for await (const trade of pages) {
+      if (params.since && trade.timestamp < params.since) return;
+      yield trade;
+    }
+  }
+
+  /** Place several orders; results line up with `orders` and failures do not stop the batch */
+  async createOrders(orders: CreateOrderParams[]): Promise<OrderResult[]> {
+    return this.mapConcurrent(orders, (params) => this.settle(this.createOrder(params)));
+  }
+
+  /** Cancel several orders; results line up with `orderIds` */
+  async cancelOrders(orderIds: string[], marketId?: string): Promise<OrderResult[]> {
+    return this.mapConcurrent(orderIds, (orderId) =>
+      this.settle(this.cancelOrder(orderId, marketId), orderId)
+    );
+  }
+
+  /** Cancel every open order, optionally only those in one market */
+  async cancelAllOrders(marketId?: string): Promise<OrderResult[]> {
+    const orders = await this.fetchOpenOrders(marketId);
+    return this.cancelOrders(
+      orders.map((order) => order.id),
+      marketId
+    );
+  }
+
+  /** Orders that are no longer on the book: filled, cancelled, expired or rejected */
+  async fetchClosedOrders(params: Omit<FetchOrdersParams, 'status'> = {}): Promise<Order[]> {
+    return this.fetchOrders({ ...params, status: CLOSED_ORDER_STATUSES });
+  }
+
+  /** Capabilities derived from the methods this exchange actually implements */
+  describe(): ExchangeDescription {
+    const has = { websocket: this.websocketChannels.length > 0 } as ExchangeCapabilities;
+    for (const method of CAPABILITY_METHODS) {
+      has[method] = this.implementation(method);
+    }
 
-  describe(): { id: string; name: string; has: ExchangeCapabilities } {
     return {
       id: this.id,
       name: this.name,
-      has: {
-        fetchMarkets: true,
-        fetchMarket: true,
-        createOrder: true,
-        cancelOrder: true,
-        fetchOrder: true,
-        fetchOpenOrders: true,
-        fetchPositions: true,
-        fetchBalance: true,
-        websocket: false,
-      },
+      has: { ...has, ...this.capabilityOverrides },
+      orderTypes: [...this.orderTypes],
+      timeInForce: [...this.timeInForces],
+      orderFlags: [...this.orderFlags],
+      websocketChannels: [...this.websocketChannels],
     };
   }
 
-  protected checkRateLimit(): void {
-    const currentTime = Date.now();
-    const rateLimit = this.config.rateLimit ?? 10;
+  private implementation(method: CapabilityMethod | 'fetchPublicTradesPage'): Capability {
+    // The public tape is generic paging over a per-venue page fetch
+    if (method === 'fetchPublicTrades') {
+      const page = this.implementation('fetchPublicTradesPage');
+      return page === 'emulated' ? false : page;
+    }
 
-    this.requestTimes = this.requestTimes.filter((t) => currentTime - t < 1000);
+    const own = (this as unknown as Record<string, unknown>)[method];
+    if (typeof own !== 'function') return false;
 
-    if (this.requestTimes.length >= rateLimit) {
-      const oldestRequest = this.requestTimes[0];
-      if (oldestRequest) {
-        const sleepTime = 1000 - (currentTime - oldestRequest);
-        if (sleepTime > 0) {
-          throw new RateLimitError(`Rate limit reached, wait ${sleepTime}ms`, sleepTime);
-        }
+    // Methods inherited unchanged from this class are generic fallbacks
+    const fallback = (Exchange.prototype as unknown as Record<string, unknown>)[method];
+    if (own !== fallback) return true;
+
+    // The inherited price history only throws, and inherited candles are built from it
+    if (method === 'fetchPriceHistory') return false;
+    if (method === 'fetchOHLCV') {
+      return this.implementation('fetchPriceHistory') ? 'emulated' : false;
+    }
+    return 'emulated';
+  }
+
+  /** One page of the public tape, newest first; venues with a trade feed override this */
+  protected async fetchPublicTradesPage(
+    _params: FetchPublicTradesParams,
+    _cursor?: string
+  ): Promise<{ items: PublicTrade[]; next?: string }> {
+    throw new NotSupported(`${this.name} does not serve public trades`);
+  }
+
+  /** Start and end of a price history request; `since` is undefined for the `max` window */
+  protected historyWindow(params: FetchPriceHistoryParams = {}): { since?: Date; until: Date } {
+    const until = params.until ?? new Date();
+    if (params.since) return { since: params.since, until };
+
+    const length = HISTORY_INTERVAL_MS[params.interval ?? '1m'];
+    return { since: length === undefined ? undefined : new Date(until.getTime() - length), until };
+  }
+
+  /** Token of an outcome given by name (case-insensitive) or index; defaults to the first */
+  protected selectOutcome(
+    market: Market,
+    outcome: number | string = 0
+  ): OutcomeToken & { index: number } {
+    const tokens = MarketUtils.getOutcomeTokens(market);
+    const index =
+      typeof outcome === 'number'
+        ? outcome
+        : tokens.findIndex((t) => t.outcome.toLowerCase() === outcome.toLowerCase());
+
+    const token = tokens[index];
+    if (!token) {
+      throw new ExchangeError(`Outcome '${outcome}' not found in market ${market.id}`);
+    }
+    return { ...token, index };
+  }
+
+  /** Resolution paying out 1 per share of `winner`; no winner means the market was voided */
+  protected settledResolution(
+    outcomes: string[],
+    winner: string | undefined,
+    resolvedAt?: Date
+  ): MarketResolution {
+    const payouts: Record<string, number> = {};
+    if (winner) {
+      for (const outcome of outcomes) {
+        payouts[outcome] = outcome === winner ? 1 : 0;
       }
     }
+    return { outcome: winner, resolvedAt, payouts, disputed: false };
+  }
 
-    this.requestTimes.push(currentTime);
+  /**
+   * Collateral committed to resting buy orders. Venues that do not escrow it still count it in
+   * the wallet balance, so it must be subtracted to find what new orders can use.
+   */
+  protected async openOrderCollateral(): Promise<number> {
+    const orders = await this.fetchOpenOrders();
+    return orders
+      .filter((order) => order.side === OrderSide.BUY)
+      .reduce((sum, order) => sum + order.price * OrderUtils.remaining(order), 0);
+  }
+
+  /** Send an HTTP request through the configured transport */
+  protected httpFetch(input: string | URL, init?: RequestInit): Promise<Response> {
+    const transport = this.config.transport ?? globalThis.fetch;
+    return transport(input, init);
+  }
+
+  /** Token bucket for a scope, created on first use */
+  protected limiter(scope: RateLimitScope = 'public'): RateLimiter {
+    let limiter = this.limiters[scope];
+    if (!limiter) {
+      const rule = this.rateLimits[scope];
+      const rate = this.config.rateLimit;
+      limiter = new RateLimiter(rate ? { rate, capacity: rate } : rule);
+      this.limiters[scope] = limiter;
+    }
+    return limiter;
+  }
+
+  /** Wait for budget before sending a request */
+  protected async throttle(scope: RateLimitScope = 'public', cost = 1): Promise<void> {
+    await this.limiter(scope).acquire(cost);
+  }
+
+  /**
+   * Token cost of a request, using the longest matching key in `rateLimits.weights`. Keys are path
+   * prefixes, optionally led by a host (`gamma-api.polymarket.com/markets`) and a method
+   * (`POST /orders`), so the same path on another host or verb keeps its own cost.
+   */
+  protected endpointWeight(url: string, method = 'GET'): number {
+    const absolute = /^https?:\/\//.test(url) ? new URL(url) : undefined;
+    const pathname = absolute?.pathname ?? url.split('?')[0] ?? url;
+    const hostPath = absolute ? `${absolute.host}${pathname}` : undefined;
+    let weight = 1;
+    let matched = -1;
+
+    for (const [key, cost] of Object.entries(this.rateLimits.weights ?? {})) {
+      const [verb, prefix] = key.includes(' ') ? key.split(' ', 2) : [undefined, key];
+      if (!prefix || (verb && verb.toUpperCase() !== method.toUpperCase())) continue;
+
+      const subject = prefix.startsWith('/') ? pathname : hostPath;
+      if (subject?.startsWith(prefix) && key.length > matched) {
+        weight = cost;
+        matched = key.length;
+      }
+    }
+
+    return weight;
+  }
+
+  /** Build the error for an HTTP 429, holding the bucket for the venue's Retry-After */
+  protected rateLimitError(response: Response, scope: RateLimitScope = 'public'): RateLimitError {
+    const retryAfter = parseRetryAfter(response.headers?.get('retry-after'));
+    if (retryAfter !== undefined) {
+      this.limiter(scope).pause(retryAfter);
+    }
+    const suffix = retryAfter !== undefined ? `, retry after ${retryAfter}ms` : '';
+    return new RateLimitError(`Rate limited${suffix}`, retryAfter);
   }
 
   protected async withRetry<T>(fn: () => Promise<T>): Promise<T> {
@@ -116,14 +588,16 @@ export abstract class Exchange {
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
       try {
-        this.checkRateLimit();
         return await fn();
       } catch (error) {
         lastError = error as Error;
 
         if (error instanceof NetworkError || error instanceof RateLimitError) {
           if (attempt < maxRetries) {
-            const delay = retryDelay * retryBackoff ** attempt + Math.random() * 1000;
+            const delay =
+              error instanceof RateLimitError && error.retryAfter !== undefined
+                ? error.retryAfter
+                : retryDelay * retryBackoff ** attempt + Math.random() * 1000;
             if (this.verbose) {
               console.log(
                 `Attempt ${attempt + 1} failed, retrying in ${delay.toFixed(0)}ms: ${error.message}`
@@ -145,6 +619,239 @@ export abstract class Exchange {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
 
+  /**
+   * Resolve which outcome token an orderbook request refers to.
+   * Matches `tokenId` first, then `outcome` (case-insensitive), else the first outcome.
+   */
+  protected async resolveOutcomeToken(
+    marketId: string,
+    params: FetchOrderbookParams = {}
+  ): Promise<OutcomeToken & { index: number }> {
+    const market = await this.fetchMarket(marketId);
+    const tokens = MarketUtils.getOutcomeTokens(market);
+
+    let index = 0;
+    if (params.tokenId) {
+      index = tokens.findIndex((t) => t.tokenId === params.tokenId);
+    } else if (params.outcome) {
+      const outcome = params.outcome.toLowerCase();
+      index = tokens.findIndex((t) => t.outcome.toLowerCase() === outcome);
+    }
+
+    const token = tokens[index];
+    if (!token) {
+      throw new ExchangeError(
+        `Outcome '${params.tokenId ?? params.outcome}' not found in market ${marketId}`
+      );
+    }
+
+    return { ...token, index };
+  }
+
+  /**
+   * Apply order defaults and reject options this venue cannot honour.
+   * Exchanges call this before mapping the options onto their own order payload.
+   */
+  protected resolveOrderOptions(params: CreateOrderParams): ResolvedOrderOptions {
+    const type = params.type ?? OrderType.LIMIT;
+    const timeInForce =
+      params.timeInForce ??
+      (params.expiresAt ? TimeInForce.GTD : type === OrderType.LIMIT ? TimeInForce.GTC : undefined);
+    const postOnly = params.postOnly ?? false;
+    const reduceOnly = params.reduceOnly ?? false;
+
+    if (!this.orderTypes.includes(type)) {
+      throw new InvalidOrder(`${this.name} does not support ${type} orders`);
+    }
+
+    if (timeInForce !== undefined && !this.timeInForces.includes(timeInForce)) {
+      throw new InvalidOrder(`${this.name} does not support ${timeInForce} orders`);
+    }
+
+    const resting = timeInForce === TimeInForce.GTC || timeInForce === TimeInForce.GTD;
+    if (type === OrderType.MARKET && resting) {
+      throw new InvalidOrder(`Market orders cannot be ${timeInForce}`);
+    }
+
+    if (timeInForce === TimeInForce.GTD) {
+      if (!params.expiresAt) {
+        throw new InvalidOrder('GTD orders require expiresAt');
+      }
+      if (params.expiresAt.getTime() <= Date.now()) {
+        throw new InvalidOrder('expiresAt must be in the future');
+      }
+    } else if (params.expiresAt) {
+      throw new InvalidOrder(`expiresAt only applies to GTD orders, not ${timeInForce}`);
+    }
+
+    if (postOnly) {
+      if (!this.orderFlags.includes('postOnly')) {
+        throw new InvalidOrder(`${this.name} does not support post-only orders`);
+      }
+      if (type === OrderType.MARKET || !resting) {
+        throw new InvalidOrder('Post-only orders must rest on the book (limit GTC or GTD)');
+      }
+    }
+
+    if (reduceOnly && !this.orderFlags.includes('reduceOnly')) {
+      throw new InvalidOrder(`${this.name} does not support reduce-only orders`);
+    }
+
+    return { type, timeInForce, expiresAt: params.expiresAt, postOnly, reduceOnly };
+  }
+
+  /** Turn an order call into a result that records the failure instead of throwing */
+  protected async settle(call: Promise<Order>, orderId?: string): Promise<OrderResult> {
+    try {
+      return { success: true, order: await call };
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      return { success: false, error: err, orderId };
+    }
+  }
+
+  /** Run `fn` over `items` with at most `concurrency` calls in flight, preserving order */
+  protected async mapConcurrent<T, R>(
+    items: T[],
+    fn: (item: T, index: number) => Promise<R>,
+    concurrency = ORDER_CONCURRENCY
+  ): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+
+    const worker = async (): Promise<void> => {
+      while (next < items.length) {
+        const index = next++;
+        results[index] = await fn(items[index] as T, index);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+    return results;
+  }
+
+  /**
+   * Send `items` through a batch endpoint `size` at a time, concatenating the results. A batch
+   * that throws fails only its own items, keeping the results of the batches already sent.
+   */
+  protected async inBatches<T>(
+    items: T[],
+    size: number,
+    send: (batch: T[]) => Promise<OrderResult[]>,
+    orderId?: (item: T) => string
+  ): Promise<OrderResult[]> {
+    const results: OrderResult[] = [];
+    for (let i = 0; i < items.length; i += size) {
+      const batch = items.slice(i, i + size);
+      try {
+        results.push(...(await send(batch)));
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        results.push(
+          ...batch.map(
+            (item): OrderResult => ({ success: false, error: err, orderId: orderId?.(item) })
+          )
+        );
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Drive a page-by-page listing. `fetchPage` receives the previous page's `next` cursor
+   * (undefined for the first page) and returns `next: undefined` on the last page.
+   */
+  protected async *paginate<T, C>(
+    fetchPage: (cursor: C | undefined) => Promise<{ items: T[]; next?: C }>,
+    limit?: number
+  ): AsyncGenerator<T> {
+    let cursor: C | undefined;
+    let yielded = 0;
+
+    while (limit === undefined || yielded < limit) {
+      const page = await fetchPage(cursor);
+
+      for (const item of page.items) {
+        if (limit !== undefined && yielded >= limit) return;
+        yield item;
+        yielded++;
+      }
+
+      // A venue echoing the same cursor back would otherwise loop forever
+      if (page.next === undefined || page.next === cursor) return;
+      cursor = page.next;
+    }
+  }
+
+  /** Items `offset` to `offset + limit` of a paged listing, whatever its page boundaries */
+  protected async collectWindow<T, C>(
+    fetchPage: (cursor: C | undefined) => Promise<{ items: T[]; next?: C }>,
+    offset: number,
+    limit: number
+  ): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of this.paginate(fetchPage, offset + limit)) {
+      items.push(item);
+    }
+    return items.slice(offset);
+  }
+
+  /**
+   * Collect fills from a newest-first feed, stopping at `params.since` and `params.limit`.
+   * Fills older than `since` end the walk, so venues need not filter by time themselves.
+   */
+  protected async collectTrades<C>(
+    fetchPage: (cursor: C | undefined) => Promise<{ items: Trade[]; next?: C }>,
+    params: FetchMyTradesParams = {}
+  ): Promise<Trade[]> {
+    const { since, limit } = params;
+    const trades: Trade[] = [];
+
+    const pages = this.paginate<Trade, C>(async (cursor) => {
+      const page = await fetchPage(cursor);
+      if (!since) return page;
+
+      const items = page.items.filter((trade) => trade.timestamp >= since);
+      return { items, next: items.length < page.items.length ? undefined : page.next };
+    }, limit);
+
+    for await (const trade of pages) {
+      trades.push(trade);
+    }
+
+    return trades;
+  }
+
+  /** Collect orders from a paged feed, keeping those that match `params` up to `params.limit` */
+  protected async collectOrders<C>(
+    fetchPage: (cursor: C | undefined) => Promise<{ items: Order[]; next?: C }>,
+    params: FetchOrdersParams = {}
+  ): Promise<Order[]> {
+    const orders: Order[] = [];
+
+    const pages = this.paginate<Order, C>(async (cursor) => {
+      const page = await fetchPage(cursor);
+      const items = page.items.filter((order) => this.matchesOrderFilters(order, params));
+      return { items, next: page.next };
+    }, params.limit);
+
+    for await (const order of pages) {
+      orders.push(order);
+    }
+
+    return orders;
+  }
+
+  /** Whether an order passes the market, status and time filters of an order-history query */
+  protected matchesOrderFilters(order: Order, params: FetchOrdersParams): boolean {
+    const { marketId, status, since, until } = params;
+    if (marketId && order.marketId !== marketId) return false;
+    if (status !== undefined && ![status].flat().includes(order.status)) return false;
+    if (since && order.createdAt < since) return false;
+    if (until && order.createdAt >= until) return false;
+    return true;
+  }
+
   protected parseDateTime(timestamp: unknown): Date | undefined {
     if (!timestamp) return undefined;
     if (timestamp instanceof Date) return timestamp;
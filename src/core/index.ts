@@ -1,9 +1,30 @@
-export { Exchange, type ExchangeCapabilities, type ExchangeConfig } from './exchange.js';
+export {
+  type Capability,
+  Exchange,
+  type ExchangeCapabilities,
+  type ExchangeConfig,
+  type ExchangeDescription,
+  type OrderFlag,
+  type ResolvedOrderOptions,
+  type Transport,
+  WebSocketChannel,
+} from './exchange.js';
+export { PollingOrderBookStream, type PollingStreamConfig } from './polling-stream.js';
+export {
+  parseRetryAfter,
+  RateLimiter,
+  type RateLimitRule,
+  type RateLimitScope,
+  type RateLimits,
+} from './rate-limiter.js';
 export { Strategy, type StrategyConfig, StrategyState } from './strategy.js';
 export {
   OrderBookWebSocket,
   type OrderbookCallback,
+  type OrderbookStream,
   type OrderbookUpdate,
+  SubscriptionStatus,
+  type SubscriptionStatusChange,
   type WebSocketConfig,
   WebSocketState,
 } from './websocket.js';
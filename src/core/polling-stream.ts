@@ -0,0 +1,185 @@
+import { EventEmitter } from 'node:events';
+import { RateLimitError } from '../errors/index.js';
+import type { FetchOrderbookParams, Orderbook } from '../types/index.js';
+import type { Exchange } from './exchange.js';
+import {
+  type OrderbookCallback,
+  type OrderbookStream,
+  type OrderbookUpdate,
+  WebSocketState,
+} from './websocket.js';
+
+const MAX_ERROR_DELAY = 60000;
+
+export interface PollingStreamConfig {
+  verbose?: boolean;
+  /** Interval while the book keeps changing, per market (ms, default: 1000) */
+  pollInterval?: number;
+  /** Longest interval a quiet book backs off to (ms, default: 10 x `pollInterval`) */
+  maxPollInterval?: number;
+  /** Interval multiplier after each poll that finds the book unchanged (default: 1.5) */
+  idleBackoff?: number;
+}
+
+interface PolledBook {
+  callback: OrderbookCallback;
+  params: FetchOrderbookParams;
+  timer: ReturnType<typeof setTimeout> | null;
+  interval: number;
+  failures: number;
+  /** A request is running; its loop re-arms itself, so no second loop may start */
+  inFlight: boolean;
+  /** Levels of the last book handed to the callback */
+  last: string | null;
+}
+
+/**
+ * Orderbook stream over `Exchange.fetchOrderbook`, for venues without a socket. Each watched
+ * market is polled in its own loop that speeds up while the book moves, slows down while it is
+ * quiet, only calls back when the levels change and backs off on errors, honouring the
+ * `retryAfter` of rate-limit errors. Requests also pass through the exchange's rate limiter.
+ */
+export class PollingOrderBookStream extends EventEmitter implements OrderbookStream {
+  protected readonly exchange: Exchange;
+  protected readonly config: Required<PollingStreamConfig>;
+  protected state: WebSocketState = WebSocketState.DISCONNECTED;
+  protected readonly subscriptions = new Map<string, PolledBook>();
+
+  constructor(exchange: Exchange, config: PollingStreamConfig = {}) {
+    super();
+    this.exchange = exchange;
+    const pollInterval = config.pollInterval ?? 1000;
+    this.config = {
+      verbose: config.verbose ?? false,
+      pollInterval,
+      maxPollInterval: config.maxPollInterval ?? pollInterval * 10,
+      idleBackoff: config.idleBackoff ?? 1.5,
+    };
+  }
+
+  get isConnected(): boolean {
+    return this.state === WebSocketState.CONNECTED;
+  }
+
+  async connect(): Promise<void> {
+    if (this.state === WebSocketState.CONNECTED) return;
+
+    this.state = WebSocketState.CONNECTED;
+    for (const marketId of this.subscriptions.keys()) {
+      this.poll(marketId);
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    this.state = WebSocketState.CLOSED;
+    for (const entry of this.subscriptions.values()) {
+      if (entry.timer) clearTimeout(entry.timer);
+      entry.timer = null;
+    }
+  }
+
+  /** Poll `marketId`; `params` selects the outcome as in `fetchOrderbook` */
+  async watchOrderbook(
+    marketId: string,
+    callback: OrderbookCallback,
+    params: FetchOrderbookParams = {}
+  ): Promise<void> {
+    const existing = this.subscriptions.get(marketId);
+    // Keep the entry of a running poll loop so it picks up the new callback
+    if (existing) {
+      existing.callback = callback;
+      existing.params = params;
+    } else {
+      this.subscriptions.set(marketId, {
+        callback,
+        params,
+        timer: null,
+        interval: this.config.pollInterval,
+        failures: 0,
+        inFlight: false,
+        last: null,
+      });
+    }
+
+    if (!this.isConnected) {
+      await this.connect();
+    } else if (!existing) {
+      this.poll(marketId);
+    }
+  }
+
+  async unwatchOrderbook(marketId: string): Promise<void> {
+    const entry = this.subscriptions.get(marketId);
+    if (!entry) return;
+
+    if (entry.timer) clearTimeout(entry.timer);
+    this.subscriptions.delete(marketId);
+  }
+
+  protected async poll(marketId: string): Promise<void> {
+    const entry = this.subscriptions.get(marketId);
+    if (!entry || !this.isConnected || entry.inFlight) return;
+    entry.timer = null;
+    entry.inFlight = true;
+
+    let delay: number;
+    try {
+      const book = await this.exchange.fetchOrderbook(marketId, entry.params);
+      entry.failures = 0;
+      delay = await this.deliver(marketId, entry, book);
+    } catch (error) {
+      entry.failures++;
+      delay = this.errorDelay(error, entry.failures);
+      if (this.config.verbose) {
+        console.error(`Orderbook poll failed for ${marketId}, retrying in ${delay}ms:`, error);
+      }
+      if (this.listenerCount('error') > 0) this.emit('error', error);
+    } finally {
+      entry.inFlight = false;
+    }
+
+    if (this.subscriptions.get(marketId) === entry && this.isConnected) {
+      entry.timer = setTimeout(() => this.poll(marketId), delay);
+    }
+  }
+
+  /** Call back if the levels changed and return the delay before the next poll */
+  private async deliver(marketId: string, entry: PolledBook, book: Orderbook): Promise<number> {
+    const levels = JSON.stringify([book.bids, book.asks]);
+    if (levels === entry.last) {
+      entry.interval = Math.min(
+        this.config.maxPollInterval,
+        entry.interval * this.config.idleBackoff
+      );
+      return entry.interval;
+    }
+
+    entry.last = levels;
+    entry.interval = this.config.pollInterval;
+
+    // The market may have been unwatched while the request was in flight
+    if (this.subscriptions.get(marketId) === entry) {
+      const update: OrderbookUpdate = {
+        marketId,
+        bids: book.bids,
+        asks: book.asks,
+        timestamp: book.timestamp,
+      };
+      try {
+        await entry.callback(marketId, update);
+      } catch (error) {
+        if (this.config.verbose) {
+          console.error('Orderbook callback error:', error);
+        }
+      }
+    }
+    return entry.interval;
+  }
+
+  private errorDelay(error: unknown, failures: number): number {
+    if (error instanceof RateLimitError && error.retryAfter !== undefined) {
+      return error.retryAfter;
+    }
+    return Math.min(MAX_ERROR_DELAY, this.config.pollInterval * 2 ** failures);
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Awaitable token-bucket rate limiting for exchange HTTP clients.
+ */
+
+/** Budget for one token bucket */
+export interface RateLimitRule {
+  /** Tokens refilled per second */
+  rate: number;
+  /** Bucket size, i.e. the largest burst allowed (default: rate) */
+  capacity?: number;
+}
+
+/** Which bucket a request draws from */
+export type RateLimitScope = 'public' | 'private';
+
+/** Request budgets of an exchange */
+export interface RateLimits {
+  /** Unauthenticated market data */
+  public: RateLimitRule;
+  /** Authenticated account and trading endpoints */
+  private: RateLimitRule;
+  /**
+   * Token cost per endpoint, matched by longest key (default cost: 1). A key is a path prefix,
+   * optionally led by a host and an HTTP method, e.g. `GET api.example.com/markets`.
+   */
+  weights?: Record<string, number>;
+}
+
+interface Waiter {
+  cost: number;
+  resolve: () => void;
+}
+
+/**
+ * Token bucket that queues callers instead of rejecting them.
+ * Waiters are served in FIFO order so a heavy request cannot be starved by lighter ones.
+ */
+export class RateLimiter {
+  private readonly rate: number;
+  private readonly capacity: number;
+  private tokens: number;
+  private lastRefill: number;
+  private pausedUntil = 0;
+  private queue: Waiter[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(rule: RateLimitRule) {
+    this.rate = Math.max(rule.rate, Number.EPSILON);
+    this.capacity = Math.max(rule.capacity ?? rule.rate, 1);
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /** Tokens currently available */
+  get available(): number {
+    this.refill();
+    return this.tokens;
+  }
+
+  /** Number of callers waiting for tokens */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /** Wait until `cost` tokens are available, then consume them */
+  acquire(cost = 1): Promise<void> {
+    // A cost above capacity could never be satisfied; cap it at a full bucket
+    const weight = Math.min(Math.max(cost, 0), this.capacity);
+
+    return new Promise((resolve) => {
+      this.queue.push({ cost: weight, resolve });
+      this.drain();
+    });
+  }
+
+  /** Hold all waiters for `ms`, e.g. when the venue answered with Retry-After */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.drain();
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.rate);
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    this.refill();
+    const now = Date.now();
+
+    while (now >= this.pausedUntil) {
+      const next = this.queue[0];
+      if (!next || this.tokens < next.cost) break;
+      this.tokens -= next.cost;
+      this.queue.shift();
+      next.resolve();
+    }
+
+    const next = this.queue[0];
+    if (!next) return;
+
+    const refillWait = ((next.cost - this.tokens) / this.rate) * 1000;
+    const wait = Math.max(this.pausedUntil - now, refillWait, 1);
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, Math.ceil(wait));
+  }
+}
+
+/** Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - Date.now());
+}
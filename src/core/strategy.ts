@@ -1,5 +1,5 @@
 import { EventEmitter } from 'node:events';
-import type { Market, Order, OrderSide, Position } from '../types/index.js';
+import type { Market, Order, OrderResult, OrderSide, Position } from '../types/index.js';
 import type { Exchange } from './exchange.js';
 
 export const StrategyState = {
@@ -102,14 +102,34 @@ export abstract class Strategy extends EventEmitter {
   }
 
   protected async cancelAllOrders(): Promise<void> {
-    for (const order of this.openOrders) {
-      try {
-        await this.exchange.cancelOrder(order.id, this.marketId);
-      } catch {
-        void 0;
+    let results: OrderResult[];
+    try {
+      results = await this.exchange.cancelOrders(
+        this.openOrders.map((order) => order.id),
+        this.marketId
+      );
+    } catch (error) {
+      this.reportError(error);
+      return;
+    }
+
+    // Keep orders that failed to cancel so the next refresh or stop can retry them
+    this.openOrders = this.openOrders.filter((_, i) => {
+      const result = results[i];
+      if (result && !result.success) {
+        this.reportError(result.error);
+        return true;
       }
+      return false;
+    });
+  }
+
+  /** Emit a cancel failure without throwing when nobody listens for errors */
+  private reportError(error: unknown): void {
+    if (this.config.verbose) {
+      console.error('Strategy cancel error:', error);
     }
-    this.openOrders = [];
+    if (this.listenerCount('error') > 0) this.emit('error', error);
   }
 
   protected getPosition(outcome: string): Position | undefined {
@@ -1,5 +1,6 @@
 import { EventEmitter } from 'node:events';
 import WebSocket from 'ws';
+import type { Orderbook } from '../types/index.js';
 
 export const WebSocketState = {
   DISCONNECTED: 'disconnected',
@@ -10,6 +11,24 @@ export const WebSocketState = {
 } as const;
 export type WebSocketState = (typeof WebSocketState)[keyof typeof WebSocketState];
 
+/** Whether a subscription's local book can be trusted */
+export const SubscriptionStatus = {
+  /** Built from a snapshot and every update since */
+  LIVE: 'live',
+  /** The connection dropped, so the last book may have missed updates */
+  STALE: 'stale',
+  /** Waiting for a snapshot after subscribing, reconnecting, a gap or a checksum mismatch */
+  RESYNCING: 'resyncing',
+} as const;
+export type SubscriptionStatus = (typeof SubscriptionStatus)[keyof typeof SubscriptionStatus];
+
+/** Emitted as `status` when a subscription changes state */
+export interface SubscriptionStatusChange {
+  marketId: string;
+  status: SubscriptionStatus;
+  reason: string;
+}
+
 export interface WebSocketConfig {
   verbose?: boolean;
   autoReconnect?: boolean;
@@ -17,6 +36,12 @@ export interface WebSocketConfig {
   reconnectDelay?: number;
   pingInterval?: number;
   pingTimeout?: number;
+  /**
+   * REST orderbook of a watched market. `assetId` is the outcome token the stream's book belongs
+   * to, or `marketId` again on venues that key books by market. Venues that can replay their
+   * deltas onto it resync from this snapshot instead of resubscribing.
+   */
+  fetchSnapshot?: (marketId: string, assetId: string) => Promise<Orderbook>;
 }
 
 export interface OrderbookUpdate {
@@ -31,12 +56,25 @@ export type OrderbookCallback = (
   orderbook: OrderbookUpdate
 ) => void | Promise<void>;
 
-export abstract class OrderBookWebSocket extends EventEmitter {
+/** Live orderbook source, whether a socket or a polling loop */
+export interface OrderbookStream {
+  readonly isConnected: boolean;
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  watchOrderbook(marketId: string, callback: OrderbookCallback): Promise<void>;
+  unwatchOrderbook(marketId: string): Promise<void>;
+  on(event: 'error', listener: (error: Error) => void): this;
+}
+
+export abstract class OrderBookWebSocket extends EventEmitter implements OrderbookStream {
   protected config: WebSocketConfig;
   protected ws: WebSocket | null = null;
   protected state: WebSocketState = WebSocketState.DISCONNECTED;
   protected reconnectAttempts = 0;
   protected subscriptions = new Map<string, OrderbookCallback>();
+  protected statuses = new Map<string, SubscriptionStatus>();
+  /** Updates held back per market while a REST snapshot is being fetched */
+  protected resyncBuffers = new Map<string, Record<string, unknown>[]>();
   protected pingTimer: ReturnType<typeof setInterval> | null = null;
   protected lastMessageTime = 0;
 
@@ -59,6 +97,11 @@ export abstract class OrderBookWebSocket extends EventEmitter {
     return this.state === WebSocketState.CONNECTED;
   }
 
+  /** Extra HTTP headers sent with the upgrade request, e.g. signed credentials */
+  protected handshakeHeaders(): Record<string, string> | undefined {
+    return undefined;
+  }
+
   protected abstract authenticate(): Promise<void>;
   protected abstract subscribeOrderbook(marketId: string): Promise<void>;
   protected abstract unsubscribeOrderbook(marketId: string): Promise<void>;
@@ -66,13 +109,24 @@ export abstract class OrderBookWebSocket extends EventEmitter {
     message: Record<string, unknown>
   ): OrderbookUpdate | null;
 
+  /**
+   * Load a REST snapshot into the local book and replay the updates buffered while it was
+   * fetched. Venues whose updates cannot be replayed onto a REST book leave this out and resync by
+   * resubscribing.
+   */
+  protected restoreSnapshot?(
+    marketId: string,
+    snapshot: Orderbook,
+    buffered: Record<string, unknown>[]
+  ): OrderbookUpdate | null;
+
   async connect(): Promise<void> {
     if (this.state === WebSocketState.CONNECTED) return;
 
     this.state = WebSocketState.CONNECTING;
 
     return new Promise((resolve, reject) => {
-      this.ws = new WebSocket(this.wsUrl);
+      this.ws = new WebSocket(this.wsUrl, { headers: this.handshakeHeaders() });
 
       this.ws.on('open', async () => {
         this.state = WebSocketState.CONNECTED;
@@ -86,6 +140,7 @@ export abstract class OrderBookWebSocket extends EventEmitter {
         try {
           await this.authenticate();
           for (const marketId of this.subscriptions.keys()) {
+            this.setStatus(marketId, SubscriptionStatus.RESYNCING, 'connected');
             await this.subscribeOrderbook(marketId);
           }
           this.startPingTimer();
@@ -114,6 +169,7 @@ export abstract class OrderBookWebSocket extends EventEmitter {
 
   async watchOrderbook(marketId: string, callback: OrderbookCallback): Promise<void> {
     this.subscriptions.set(marketId, callback);
+    this.setStatus(marketId, SubscriptionStatus.RESYNCING, 'subscribed');
 
     if (this.state !== WebSocketState.CONNECTED) {
       await this.connect();
@@ -126,6 +182,8 @@ export abstract class OrderBookWebSocket extends EventEmitter {
     if (!this.subscriptions.has(marketId)) return;
 
     this.subscriptions.delete(marketId);
+    this.statuses.delete(marketId);
+    this.resyncBuffers.delete(marketId);
 
     if (this.state === WebSocketState.CONNECTED) {
       await this.unsubscribeOrderbook(marketId);
@@ -143,14 +201,7 @@ export abstract class OrderBookWebSocket extends EventEmitter {
       const orderbook = this.parseOrderbookMessage(parsed);
 
       if (orderbook) {
-        const callback = this.subscriptions.get(orderbook.marketId);
-        if (callback) {
-          Promise.resolve(callback(orderbook.marketId, orderbook)).catch((error) => {
-            if (this.config.verbose) {
-              console.error('Orderbook callback error:', error);
-            }
-          });
-        }
+        this.emitOrderbook(orderbook);
       }
     } catch (error) {
       if (this.config.verbose) {
@@ -159,6 +210,102 @@ export abstract class OrderBookWebSocket extends EventEmitter {
     }
   }
 
+  /** State of a watched market's book; undefined when it is not watched */
+  getSubscriptionStatus(marketId: string): SubscriptionStatus | undefined {
+    return this.statuses.get(marketId);
+  }
+
+  protected setStatus(marketId: string, status: SubscriptionStatus, reason: string): void {
+    if (!this.subscriptions.has(marketId) || this.statuses.get(marketId) === status) return;
+
+    this.statuses.set(marketId, status);
+    const change: SubscriptionStatusChange = { marketId, status, reason };
+    this.emit('status', change);
+  }
+
+  /**
+   * Rebuild a book that can no longer be trusted. With `fetchSnapshot` and a venue that implements
+   * `restoreSnapshot`, updates are buffered while the REST book is fetched and replayed onto it;
+   * otherwise, or if the fetch fails, the market is resubscribed for a fresh venue snapshot.
+   */
+  protected async resync(marketId: string, reason: string): Promise<void> {
+    if (!this.subscriptions.has(marketId) || this.resyncBuffers.has(marketId)) return;
+
+    if (this.config.verbose) {
+      console.log(`Resyncing orderbook for ${marketId}: ${reason}`);
+    }
+    this.setStatus(marketId, SubscriptionStatus.RESYNCING, reason);
+
+    const { fetchSnapshot } = this.config;
+    if (fetchSnapshot && this.restoreSnapshot) {
+      const buffered: Record<string, unknown>[] = [];
+      this.resyncBuffers.set(marketId, buffered);
+      try {
+        const snapshot = await fetchSnapshot(marketId, this.snapshotAssetId(marketId));
+        // A venue snapshot, unwatch or disconnect while fetching supersedes this resync
+        if (this.resyncBuffers.get(marketId) !== buffered) return;
+        this.resyncBuffers.delete(marketId);
+
+        const orderbook = this.restoreSnapshot(marketId, snapshot, buffered);
+        if (orderbook) {
+          this.emitOrderbook(orderbook);
+          return;
+        }
+      } catch (error) {
+        if (this.resyncBuffers.get(marketId) !== buffered) return;
+        this.resyncBuffers.delete(marketId);
+        if (this.config.verbose) {
+          console.error(`Snapshot fetch failed for ${marketId}, resubscribing:`, error);
+        }
+      }
+    }
+
+    if (this.state === WebSocketState.CONNECTED) {
+      await this.requestSnapshot(marketId);
+    }
+  }
+
+  /** Outcome token whose book a subscription streams, passed to `fetchSnapshot` */
+  protected snapshotAssetId(marketId: string): string {
+    return marketId;
+  }
+
+  /** Hold back an update while a REST resync is in flight; false when none is */
+  protected bufferDuringResync(marketId: string, update: Record<string, unknown>): boolean {
+    const buffered = this.resyncBuffers.get(marketId);
+    if (!buffered) return false;
+
+    buffered.push(update);
+    return true;
+  }
+
+  /** Make the venue send a new snapshot by resubscribing */
+  protected async requestSnapshot(marketId: string): Promise<void> {
+    await this.unsubscribeOrderbook(marketId);
+    await this.subscribeOrderbook(marketId);
+  }
+
+  /** Hand an update to the callback watching its market, whose book is now live */
+  protected emitOrderbook(orderbook: OrderbookUpdate): void {
+    const callback = this.subscriptions.get(orderbook.marketId);
+    if (!callback) return;
+
+    // A full book from the venue makes any pending REST snapshot redundant
+    this.resyncBuffers.delete(orderbook.marketId);
+    this.setStatus(orderbook.marketId, SubscriptionStatus.LIVE, 'updated');
+
+    const report = (error: unknown) => {
+      if (this.config.verbose) {
+        console.error('Orderbook callback error:', error);
+      }
+    };
+    try {
+      Promise.resolve(callback(orderbook.marketId, orderbook)).catch(report);
+    } catch (error) {
+      report(error);
+    }
+  }
+
   protected handleError(error: Error): void {
     if (this.config.verbose) {
       console.error('WebSocket error:', error);
@@ -169,6 +316,11 @@ export abstract class OrderBookWebSocket extends EventEmitter {
   protected handleClose(): void {
     this.stopPingTimer();
 
+    this.resyncBuffers.clear();
+    for (const marketId of this.subscriptions.keys()) {
+      this.setStatus(marketId, SubscriptionStatus.STALE, 'disconnected');
+    }
+
     if (this.config.verbose) {
       console.log('WebSocket connection closed');
     }
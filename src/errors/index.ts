@@ -57,3 +57,10 @@ export class MarketNotFound extends DrManhattanError {
     this.name = 'MarketNotFound';
   }
 }
+
+export class NotSupported extends DrManhattanError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotSupported';
+  }
+}
@@ -1,15 +1,33 @@
 import type { Exchange, ExchangeConfig } from '../core/exchange.js';
+import { MarketNotFound } from '../errors/index.js';
+import type { Event } from '../types/event.js';
+import type { Market } from '../types/market.js';
 import { Kalshi } from './kalshi/index.js';
 import { Limitless } from './limitless/index.js';
+import { parseMarketRef } from './market-ref.js';
 import { Opinion } from './opinion/index.js';
 import { Polymarket } from './polymarket/index.js';
 import { PredictFun } from './predictfun/index.js';
 
-export { Kalshi } from './kalshi/index.js';
+export {
+  Kalshi,
+  type KalshiFillCallback,
+  type KalshiTickerCallback,
+  type KalshiTickerUpdate,
+  type KalshiTradeCallback,
+  KalshiWebSocket,
+  type KalshiWsConfig,
+} from './kalshi/index.js';
 export { Limitless, LimitlessWebSocket } from './limitless/index.js';
-export { Opinion } from './opinion/index.js';
-export { Polymarket, PolymarketWebSocket } from './polymarket/index.js';
-export { PredictFun } from './predictfun/index.js';
+export { type MarketRef, type MarketRefKind, parseMarketRef } from './market-ref.js';
+export { Opinion, OpinionOrderbookStream, type OpinionStreamConfig } from './opinion/index.js';
+export {
+  Polymarket,
+  type PolymarketLastTrade,
+  type PolymarketTickSizeChange,
+  PolymarketWebSocket,
+} from './polymarket/index.js';
+export { PredictFun, PredictFunWebSocket, type PredictFunWsConfig } from './predictfun/index.js';
 
 type ExchangeClass = new (config?: ExchangeConfig) => Exchange;
 
@@ -32,3 +50,51 @@ export function createExchange(exchangeId: string, config?: ExchangeConfig): Exc
   }
   return new ExchangeClass(config);
 }
+
+export interface ResolveMarketOptions {
+  /** Exchange to use when the reference does not name one, e.g. a bare slug */
+  defaultExchange?: string;
+  /** Existing clients keyed by exchange ID; other exchanges are created with `config` */
+  exchanges?: Record<string, Exchange>;
+  config?: ExchangeConfig;
+}
+
+export interface ResolvedMarket {
+  exchange: Exchange;
+  /** The referenced market, or every market of the referenced event */
+  markets: Market[];
+  /** Set when the reference named an event */
+  event?: Event;
+}
+
+/**
+ * Look up whatever a URL, slug, ticker, condition ID or `exchange:id` string points to.
+ * References that could name either a market or an event are tried as a market first.
+ */
+export async function resolveMarket(
+  ref: string,
+  options: ResolveMarketOptions = {}
+): Promise<ResolvedMarket> {
+  const { exchange: exchangeId = options.defaultExchange, id, kind } = parseMarketRef(ref);
+  if (!exchangeId) {
+    throw new MarketNotFound(
+      `Cannot tell which exchange '${ref}' belongs to; prefix it, e.g. 'polymarket:${ref}'`
+    );
+  }
+  if (!id) {
+    throw new MarketNotFound(`No market or event in '${ref}'`);
+  }
+
+  const exchange = options.exchanges?.[exchangeId] ?? createExchange(exchangeId, options.config);
+
+  if (kind !== 'event') {
+    try {
+      return { exchange, markets: [await exchange.fetchMarket(id)] };
+    } catch (error) {
+      if (kind === 'market' || !(error instanceof MarketNotFound)) throw error;
+    }
+  }
+
+  const event = await exchange.fetchEvent(id);
+  return { exchange, markets: event.markets, event };
+}
@@ -0,0 +1,62 @@
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+
+/** Key material accepted by the REST and WebSocket clients */
+export interface KalshiKeyConfig {
+  /** Path to RSA private key PEM file */
+  privateKeyPath?: string;
+  /** RSA private key PEM content (alternative to path) */
+  privateKeyPem?: string;
+}
+
+export interface KalshiAuth {
+  sign(timestampMs: number, method: string, path: string): string;
+}
+
+export function createAuth(privateKeyPem: string): KalshiAuth {
+  const privateKey = crypto.createPrivateKey(privateKeyPem);
+
+  return {
+    sign(timestampMs: number, method: string, path: string): string {
+      // Strip query parameters before signing (per Kalshi docs)
+      const pathWithoutQuery = path.split('?')[0];
+      const message = `${timestampMs}${method.toUpperCase()}${pathWithoutQuery}`;
+
+      // Sign with RSA-PSS + SHA256 (salt length = digest length = 32 for SHA256)
+      const signature = crypto.sign('sha256', Buffer.from(message), {
+        key: privateKey,
+        padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+        saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST,
+      });
+
+      return signature.toString('base64');
+    },
+  };
+}
+
+/** Signer for the configured key, or null when no key is given */
+export function loadAuth(config: KalshiKeyConfig): KalshiAuth | null {
+  if (config.privateKeyPath) {
+    return createAuth(fs.readFileSync(config.privateKeyPath, 'utf-8'));
+  }
+  if (config.privateKeyPem) {
+    return createAuth(config.privateKeyPem);
+  }
+  return null;
+}
+
+/** The KALSHI-ACCESS-* headers for one request or WebSocket handshake */
+export function signedHeaders(
+  auth: KalshiAuth,
+  apiKeyId: string,
+  method: string,
+  path: string
+): Record<string, string> {
+  const timestampMs = Date.now();
+
+  return {
+    'KALSHI-ACCESS-KEY': apiKeyId,
+    'KALSHI-ACCESS-SIGNATURE': auth.sign(timestampMs, method, path),
+    'KALSHI-ACCESS-TIMESTAMP': timestampMs.toString(),
+  };
+}
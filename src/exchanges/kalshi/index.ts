@@ -1 +1,9 @@
 export { Kalshi, type KalshiConfig } from './kalshi.js';
+export {
+  type KalshiFillCallback,
+  type KalshiTickerCallback,
+  type KalshiTickerUpdate,
+  type KalshiTradeCallback,
+  KalshiWebSocket,
+  type KalshiWsConfig,
+} from './kalshi-ws.js';
@@ -0,0 +1,402 @@
+import type WebSocket from 'ws';
+import {
+  OrderBookWebSocket,
+  type OrderbookUpdate,
+  type WebSocketConfig,
+} from '../../core/websocket.js';
+import { AuthenticationError, ExchangeError } from '../../errors/index.js';
+import {
+  LiquidityRole,
+  type Orderbook,
+  OrderSide,
+  type PriceLevel,
+  type PublicTrade,
+  type Trade,
+} from '../../types/index.js';
+import { type KalshiAuth, type KalshiKeyConfig, loadAuth, signedHeaders } from './auth.js';
+
+const WS_URL = 'wss://api.elections.kalshi.com/trade-api/ws/v2';
+const DEMO_WS_URL = 'wss://demo-api.kalshi.co/trade-api/ws/v2';
+/** Path signed for the handshake, whichever host is used */
+const WS_PATH = '/trade-api/ws/v2';
+
+export interface KalshiWsConfig extends WebSocketConfig, KalshiKeyConfig {
+  /** API key ID (the public key identifier) */
+  apiKeyId?: string;
+  /** Use demo environment */
+  demo?: boolean;
+  /** Custom WebSocket URL */
+  wsUrl?: string;
+}
+
+/** Top of book and activity for one market, in dollars */
+export interface KalshiTickerUpdate {
+  marketId: string;
+  /** Last traded Yes price */
+  price: number;
+  bid: number;
+  ask: number;
+  /** Contracts traded */
+  volume: number;
+  openInterest: number;
+  timestamp: Date;
+}
+
+export type KalshiTickerCallback = (update: KalshiTickerUpdate) => void | Promise<void>;
+export type KalshiTradeCallback = (trade: PublicTrade) => void | Promise<void>;
+export type KalshiFillCallback = (fill: Trade) => void | Promise<void>;
+
+type KalshiChannel = 'orderbook_delta' | 'ticker' | 'trade' | 'fill';
+
+interface KalshiMessage {
+  id?: number;
+  type?: string;
+  sid?: number;
+  seq?: number;
+  msg?: Record<string, unknown>;
+}
+
+/** Resting bids in cents, keyed by price */
+interface KalshiBook {
+  yes: Map<number, number>;
+  no: Map<number, number>;
+}
+
+const cents = (value: unknown) => Number(value ?? 0) / 100;
+
+const channelKey = (channel: KalshiChannel, ticker?: string) =>
+  ticker ? `${channel}:${ticker}` : channel;
+
+/**
+ * Kalshi's authenticated stream. Orderbooks are rebuilt from a snapshot plus sequenced deltas and
+ * resubscribed from a fresh snapshot when a sequence number is skipped.
+ */
+export class KalshiWebSocket extends OrderBookWebSocket {
+  readonly wsUrl: string;
+  private readonly apiKeyId: string | null;
+  private readonly auth: KalshiAuth | null;
+
+  private commandId = 0;
+  /** Subscription ID by channel key; null until the server confirms */
+  private readonly active = new Map<string, number | null>();
+  /** Channel key by command ID, for subscribe confirmations and errors */
+  private readonly pending = new Map<number, string>();
+  /** Last sequence number seen per subscription */
+  private readonly seqs = new Map<number, number>();
+  private readonly books = new Map<string, KalshiBook>();
+
+  private readonly tickerCallbacks = new Map<string, KalshiTickerCallback>();
+  private readonly tradeCallbacks = new Map<string, KalshiTradeCallback>();
+  private fillCallback: KalshiFillCallback | null = null;
+
+  constructor(config: KalshiWsConfig = {}) {
+    super(config);
+    this.wsUrl = config.wsUrl ?? (config.demo ? DEMO_WS_URL : WS_URL);
+    this.apiKeyId = config.apiKeyId ?? null;
+    this.auth = config.apiKeyId ? loadAuth(config) : null;
+  }
+
+  override async connect(): Promise<void> {
+    if (!this.apiKeyId || !this.auth) {
+      throw new AuthenticationError('Kalshi WebSocket requires apiKeyId and privateKey');
+    }
+    return super.connect();
+  }
+
+  protected override handshakeHeaders(): Record<string, string> | undefined {
+    if (!this.apiKeyId || !this.auth) return undefined;
+    return signedHeaders(this.auth, this.apiKeyId, 'GET', WS_PATH);
+  }
+
+  /** Subscriptions do not survive a reconnect; orderbooks are restored by the base class */
+  protected async authenticate(): Promise<void> {
+    this.active.clear();
+    this.pending.clear();
+    this.seqs.clear();
+    this.books.clear();
+
+    for (const ticker of this.tickerCallbacks.keys()) this.subscribeChannel('ticker', ticker);
+    for (const ticker of this.tradeCallbacks.keys()) this.subscribeChannel('trade', ticker);
+    if (this.fillCallback) this.subscribeChannel('fill');
+  }
+
+  protected async subscribeOrderbook(marketId: string): Promise<void> {
+    this.subscribeChannel('orderbook_delta', marketId);
+  }
+
+  protected async unsubscribeOrderbook(marketId: string): Promise<void> {
+    this.unsubscribeChannel('orderbook_delta', marketId);
+    this.books.delete(marketId);
+  }
+
+  /** Current book for a watched market, quoted for `outcome` */
+  getOrderbook(marketId: string, outcome: 'Yes' | 'No' = 'Yes'): Orderbook | null {
+    const book = this.books.get(marketId);
+    if (!book) return null;
+
+    // An ask on one side is a bid on the other
+    const own = outcome === 'Yes' ? book.yes : book.no;
+    const other = outcome === 'Yes' ? book.no : book.yes;
+    const bids: PriceLevel[] = [...own].map(([price, size]) => [price / 100, size]);
+    const asks: PriceLevel[] = [...other].map(([price, size]) => [(100 - price) / 100, size]);
+    bids.sort((a, b) => b[0] - a[0]);
+    asks.sort((a, b) => a[0] - b[0]);
+
+    return {
+      bids,
+      asks,
+      timestamp: Date.now(),
+      assetId: outcome === 'Yes' ? marketId : `${marketId}:no`,
+      marketId,
+    };
+  }
+
+  async watchTicker(marketId: string, callback: KalshiTickerCallback): Promise<void> {
+    this.tickerCallbacks.set(marketId, callback);
+    await this.ensureSubscribed('ticker', marketId);
+  }
+
+  async unwatchTicker(marketId: string): Promise<void> {
+    if (this.tickerCallbacks.delete(marketId)) this.unsubscribeChannel('ticker', marketId);
+  }
+
+  async watchTrades(marketId: string, callback: KalshiTradeCallback): Promise<void> {
+    this.tradeCallbacks.set(marketId, callback);
+    await this.ensureSubscribed('trade', marketId);
+  }
+
+  async unwatchTrades(marketId: string): Promise<void> {
+    if (this.tradeCallbacks.delete(marketId)) this.unsubscribeChannel('trade', marketId);
+  }
+
+  /** Fills of the account's own orders, across all markets */
+  async watchFills(callback: KalshiFillCallback): Promise<void> {
+    this.fillCallback = callback;
+    await this.ensureSubscribed('fill');
+  }
+
+  async unwatchFills(): Promise<void> {
+    if (!this.fillCallback) return;
+    this.fillCallback = null;
+    this.unsubscribeChannel('fill');
+  }
+
+  private async ensureSubscribed(channel: KalshiChannel, marketId?: string): Promise<void> {
+    // Connecting resubscribes every registered callback
+    if (!this.isConnected) {
+      await this.connect();
+      return;
+    }
+    this.subscribeChannel(channel, marketId);
+  }
+
+  private subscribeChannel(channel: KalshiChannel, marketId?: string): void {
+    const key = channelKey(channel, marketId);
+    if (this.active.has(key)) return;
+
+    const id = ++this.commandId;
+    this.active.set(key, null);
+    this.pending.set(id, key);
+    this.send({
+      id,
+      cmd: 'subscribe',
+      params: { channels: [channel], ...(marketId ? { market_tickers: [marketId] } : {}) },
+    });
+  }
+
+  private unsubscribeChannel(channel: KalshiChannel, marketId?: string): void {
+    const key = channelKey(channel, marketId);
+    const sid = this.active.get(key);
+    this.active.delete(key);
+    // A pending subscription is cancelled when its confirmation arrives
+    if (sid !== undefined && sid !== null) this.unsubscribeSid(sid);
+  }
+
+  private unsubscribeSid(sid: number): void {
+    this.seqs.delete(sid);
+    this.send({ id: ++this.commandId, cmd: 'unsubscribe', params: { sids: [sid] } });
+  }
+
+  protected override handleMessage(data: WebSocket.RawData): void {
+    this.lastMessageTime = Date.now();
+
+    let message: KalshiMessage;
+    try {
+      message = JSON.parse(data.toString()) as KalshiMessage;
+    } catch {
+      return;
+    }
+    const msg = message.msg ?? {};
+    const marketId = String(msg.market_ticker ?? '');
+
+    switch (message.type) {
+      case 'subscribed':
+        this.confirmSubscription(message.id, Number(msg.sid));
+        break;
+      case 'error':
+        this.rejectCommand(message.id, msg);
+        break;
+      case 'orderbook_snapshot':
+      case 'orderbook_delta': {
+        const orderbook = this.parseOrderbookMessage(message as Record<string, unknown>);
+        if (orderbook) this.emitOrderbook(orderbook);
+        break;
+      }
+      case 'ticker': {
+        const callback = this.tickerCallbacks.get(marketId);
+        if (callback) this.dispatch('Ticker', () => callback(this.parseTicker(msg)));
+        break;
+      }
+      case 'trade': {
+        const callback = this.tradeCallbacks.get(marketId);
+        if (callback) this.dispatch('Trade', () => callback(this.parseTrade(msg)));
+        break;
+      }
+      case 'fill': {
+        const callback = this.fillCallback;
+        if (callback) this.dispatch('Fill', () => callback(this.parseFill(msg)));
+        break;
+      }
+    }
+  }
+
+  private confirmSubscription(id: number | undefined, sid: number): void {
+    const key = id === undefined ? undefined : this.pending.get(id);
+    if (key === undefined) return;
+    this.pending.delete(id as number);
+
+    if (this.active.has(key)) {
+      this.active.set(key, sid);
+    } else {
+      this.unsubscribeSid(sid);
+    }
+  }
+
+  private rejectCommand(id: number | undefined, msg: Record<string, unknown>): void {
+    const key = id === undefined ? undefined : this.pending.get(id);
+    if (key !== undefined) {
+      this.pending.delete(id as number);
+      this.active.delete(key);
+    }
+    const error = new ExchangeError(
+      `Kalshi WebSocket error ${msg.code ?? ''}: ${msg.msg ?? 'unknown'}`.trim()
+    );
+    // A rejected command is routine; without a listener, emitting 'error' would throw
+    if (this.listenerCount('error') > 0) {
+      this.handleError(error);
+    } else if (this.config.verbose) {
+      console.error('WebSocket error:', error);
+    }
+  }
+
+  private dispatch(label: string, invoke: () => void | Promise<void>): void {
+    const report = (error: unknown) => {
+      if (this.config.verbose) {
+        console.error(`${label} callback error:`, error);
+      }
+    };
+    try {
+      Promise.resolve(invoke()).catch(report);
+    } catch (error) {
+      report(error);
+    }
+  }
+
+  /** Apply a snapshot or delta and return the Yes book; null for stale or out-of-order data */
+  protected parseOrderbookMessage(message: Record<string, unknown>): OrderbookUpdate | null {
+    const { type, sid, seq } = message as KalshiMessage;
+    const msg = (message.msg ?? {}) as Record<string, unknown>;
+    const marketId = String(msg.market_ticker ?? '');
+
+    // Messages from a subscription we have since replaced
+    if (sid === undefined || this.active.get(channelKey('orderbook_delta', marketId)) !== sid) {
+      return null;
+    }
+
+    if (type === 'orderbook_snapshot') {
+      const levels = (raw: unknown) =>
+        new Map(
+          ((raw as Array<[number, number]> | undefined) ?? []).filter(([, size]) => size > 0)
+        );
+      this.books.set(marketId, { yes: levels(msg.yes), no: levels(msg.no) });
+    } else {
+      const book = this.books.get(marketId);
+      const last = this.seqs.get(sid);
+      if (!book || seq === undefined || last === undefined || seq !== last + 1) {
+        // Deltas are increments without a REST counterpart, so resubscribe for a new snapshot
+        this.resync(marketId, 'sequence gap');
+        return null;
+      }
+
+      const side = msg.side === 'no' ? book.no : book.yes;
+      const price = Number(msg.price);
+      const size = (side.get(price) ?? 0) + Number(msg.delta ?? 0);
+      if (size > 0) {
+        side.set(price, size);
+      } else {
+        side.delete(price);
+      }
+    }
+
+    if (seq !== undefined) this.seqs.set(sid, seq);
+
+    const orderbook = this.getOrderbook(marketId);
+    if (!orderbook) return null;
+    return {
+      marketId,
+      bids: orderbook.bids,
+      asks: orderbook.asks,
+      timestamp: orderbook.timestamp,
+    };
+  }
+
+  private parseTicker(msg: Record<string, unknown>): KalshiTickerUpdate {
+    return {
+      marketId: String(msg.market_ticker ?? ''),
+      price: cents(msg.price),
+      bid: cents(msg.yes_bid),
+      ask: cents(msg.yes_ask),
+      volume: Number(msg.volume ?? 0),
+      openInterest: Number(msg.open_interest ?? 0),
+      timestamp: msg.ts ? new Date(Number(msg.ts) * 1000) : new Date(),
+    };
+  }
+
+  private parseTrade(msg: Record<string, unknown>): PublicTrade {
+    const yes = msg.taker_side !== 'no';
+
+    return {
+      id: msg.trade_id === undefined ? undefined : String(msg.trade_id),
+      marketId: String(msg.market_ticker ?? ''),
+      outcome: yes ? 'Yes' : 'No',
+      side: OrderSide.BUY,
+      price: cents(yes ? msg.yes_price : msg.no_price),
+      size: Number(msg.count ?? 0),
+      timestamp: msg.ts ? new Date(Number(msg.ts) * 1000) : new Date(),
+      metadata: msg,
+    };
+  }
+
+  /** Fill messages carry no fee; `fetchMyTrades` reports it */
+  private parseFill(msg: Record<string, unknown>): Trade {
+    const outcome = String(msg.side ?? 'yes').toLowerCase() === 'yes' ? 'Yes' : 'No';
+
+    return {
+      id: String(msg.trade_id ?? ''),
+      orderId: msg.order_id === undefined ? undefined : String(msg.order_id),
+      marketId: String(msg.market_ticker ?? ''),
+      outcome,
+      side: String(msg.action ?? 'buy').toLowerCase() === 'buy' ? OrderSide.BUY : OrderSide.SELL,
+      price: cents(outcome === 'Yes' ? msg.yes_price : msg.no_price),
+      size: Number(msg.count ?? 0),
+      fee: 0,
+      role:
+        msg.is_taker === undefined
+          ? undefined
+          : msg.is_taker
+            ? LiquidityRole.TAKER
+            : LiquidityRole.MAKER,
+      timestamp: msg.ts ? new Date(Number(msg.ts) * 1000) : new Date(),
+    };
+  }
+}
@@ -1,6 +1,10 @@
-import * as crypto from 'node:crypto';
-import * as fs from 'node:fs';
-import { Exchange, type ExchangeConfig } from '../../core/exchange.js';
+import {
+  Exchange,
+  type ExchangeConfig,
+  type OrderFlag,
+  WebSocketChannel,
+} from '../../core/exchange.js';
+import type { RateLimits } from '../../core/rate-limiter.js';
 import {
   AuthenticationError,
   ExchangeError,
@@ -9,58 +13,67 @@ import {
   NetworkError,
 } from '../../errors/index.js';
 import {
+  type Balance,
   type CreateOrderParams,
+  type Event,
+  type FetchEventsParams,
   type FetchMarketsParams,
+  type FetchMyTradesParams,
+  type FetchOrderbookParams,
+  type FetchOrdersParams,
+  type FetchPriceHistoryParams,
+  type FetchPublicTradesParams,
+  LiquidityRole,
   type Market,
+  type MarketResolution,
+  MarketStatus,
+  type OHLCV,
+  type OHLCVTimeframe,
+  OHLCVUtils,
   type Order,
   type Orderbook,
+  OrderbookUtils,
+  type OrderResult,
   OrderSide,
   OrderStatus,
+  OrderType,
   type Position,
   type PriceLevel,
+  type PricePoint,
+  type PublicTrade,
+  TimeInForce,
+  type Trade,
 } from '../../types/index.js';
+import { complementPrice, fromUnits, toUnits } from '../../utils/index.js';
+import { type KalshiAuth, type KalshiKeyConfig, loadAuth, signedHeaders } from './auth.js';
 
 const BASE_URL = 'https://api.elections.kalshi.com/trade-api/v2';
 const DEMO_URL = 'https://demo-api.kalshi.co/trade-api/v2';
-
-export interface KalshiConfig extends ExchangeConfig {
+const WEB_URL = 'https://kalshi.com';
+/** Most orders the batched endpoints accept per request */
+const BATCH_SIZE = 20;
+/** Taker fee coefficient of Kalshi's general fee schedule */
+const TAKER_FEE_RATE = 0.07;
+/** Largest page /portfolio/orders serves */
+const ORDERS_PAGE_SIZE = 1000;
+/** Largest page /portfolio/fills serves */
+const FILLS_PAGE_SIZE = 200;
+/** Largest page /events serves */
+const EVENTS_PAGE_SIZE = 200;
+/** Largest page /markets/trades serves */
+const TRADES_PAGE_SIZE = 1000;
+/** Candle lengths the candlesticks endpoint serves, in minutes */
+const CANDLE_PERIODS = [1, 60, 1440] as const;
+
+export interface KalshiConfig extends ExchangeConfig, KalshiKeyConfig {
   /** API key ID (the public key identifier) */
   apiKeyId?: string;
-  /** Path to RSA private key PEM file */
-  privateKeyPath?: string;
-  /** RSA private key PEM content (alternative to path) */
-  privateKeyPem?: string;
   /** Use demo environment */
   demo?: boolean;
   /** Custom API URL */
   apiUrl?: string;
 }
 
-interface KalshiAuth {
-  sign(timestampMs: number, method: string, path: string): string;
-}
-
-function createAuth(privateKeyPem: string): KalshiAuth {
-  const privateKey = crypto.createPrivateKey(privateKeyPem);
-
-  return {
-    sign(timestampMs: number, method: string, path: string): string {
-      // Strip query parameters before signing (per Kalshi docs)
-      const pathWithoutQuery = path.split('?')[0];
-      const message = `${timestampMs}${method.toUpperCase()}${pathWithoutQuery}`;
-
-      // Sign with RSA-PSS + SHA256 (salt length = digest length = 32 for SHA256)
-      const signature = crypto.sign('sha256', Buffer.from(message), {
-        key: privateKey,
-        padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
-        saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST,
-      });
-
-      return signature.toString('base64');
-    },
-  };
-}
-
 interface RawMarket {
   ticker?: string;
   title?: string;
@@ -77,24 +90,137 @@ interface RawMarket {
   expiration_time?: string;
   status?: string;
   result?: string;
+  settlement_ts?: string;
+  /** Cents paid per Yes contract */
+  settlement_value?: number;
   event_ticker?: string;
   category?: string;
   [key: string]: unknown;
 }
 
+interface MarketsResponse {
+  markets?: RawMarket[];
+  cursor?: string;
+}
+
+interface RawEvent {
+  event_ticker?: string;
+  series_ticker?: string;
+  title?: string;
+  sub_title?: string;
+  category?: string;
+  mutually_exclusive?: boolean;
+  markets?: RawMarket[];
+  [key: string]: unknown;
+}
+
+interface RawPublicTrade {
+  trade_id?: string;
+  ticker?: string;
+  count?: number;
+  yes_price?: number;
+  no_price?: number;
+  taker_side?: string;
+  created_time?: string;
+  [key: string]: unknown;
+}
+
+/** Open, high, low and close in cents; null for periods without a trade */
+interface RawCandleValues {
+  open?: number | null;
+  high?: number | null;
+  low?: number | null;
+  close?: number | null;
+}
+
+interface RawCandle {
+  end_period_ts?: number;
+  price?: RawCandleValues;
+  yes_bid?: RawCandleValues;
+  yes_ask?: RawCandleValues;
+  volume?: number;
+  [key: string]: unknown;
+}
+
+interface CreateOrderRequest {
+  ticker: string;
+  action: string;
+  side: string;
+  type: string;
+  count: number;
+  yes_price?: number;
+  no_price?: number;
+  time_in_force?: string;
+  expiration_ts?: number;
+  buy_max_cost?: number;
+  post_only?: boolean;
+  reduce_only?: boolean;
+}
+
+/** Kalshi order status holding orders in each unified status */
+const ORDER_STATUSES: Record<OrderStatus, string> = {
+  [OrderStatus.PENDING]: 'pending',
+  [OrderStatus.OPEN]: 'resting',
+  [OrderStatus.PARTIALLY_FILLED]: 'resting',
+  [OrderStatus.FILLED]: 'executed',
+  [OrderStatus.CANCELLED]: 'canceled',
+  [OrderStatus.EXPIRED]: 'canceled',
+  [OrderStatus.REJECTED]: 'canceled',
+};
+
+/** Outcome named by a settled market's `result`; any other result (e.g. void) has no winner */
+const MARKET_RESULTS: Record<string, string | undefined> = { yes: 'Yes', no: 'No' };
+
+const TIME_IN_FORCE: Record<TimeInForce, string | undefined> = {
+  GTC: undefined,
+  GTD: undefined,
+  IOC: 'immediate_or_cancel',
+  FOK: 'fill_or_kill',
+};
+
+interface BatchEntry {
+  order?: RawOrder;
+  error?: { code?: string; message?: string } | null;
+}
+
+interface BatchResponse {
+  orders?: BatchEntry[];
+}
+
 interface RawOrder {
   order_id?: string;
   ticker?: string;
   action?: string;
   side?: string;
+  type?: string;
   status?: string;
   yes_price?: number;
   no_price?: number;
   count?: number;
+  initial_count?: number;
   remaining_count?: number;
   filled_count?: number;
+  fill_count?: number;
   created_time?: string;
   updated_time?: string;
+  last_update_time?: string;
+  [key: string]: unknown;
+}
+
+interface RawFill {
+  fill_id?: string;
+  trade_id?: string;
+  order_id?: string;
+  ticker?: string;
+  action?: string;
+  side?: string;
+  count?: number;
+  yes_price?: number;
+  no_price?: number;
+  is_taker?: boolean;
+  /** Fee in dollars */
+  fee_cost?: string | number;
+  created_time?: string;
   [key: string]: unknown;
 }
 
@@ -111,9 +237,32 @@ export class Kalshi extends Exchange {
   readonly id = 'kalshi';
   readonly name = 'Kalshi';
 
+  // Basic tier: 20 reads/s, 10 writes/s; portfolio GETs count as reads
+  protected override readonly rateLimits: RateLimits = {
+    public: { rate: 20 },
+    private: { rate: 10 },
+  };
+
+  protected override readonly orderTypes = [OrderType.LIMIT, OrderType.MARKET];
+  protected override readonly timeInForces = [
+    TimeInForce.GTC,
+    TimeInForce.GTD,
+    TimeInForce.IOC,
+    TimeInForce.FOK,
+  ];
+  protected override readonly orderFlags: OrderFlag[] = ['postOnly', 'reduceOnly'];
+  protected override readonly websocketChannels = [
+    WebSocketChannel.ORDERBOOK,
+    WebSocketChannel.PRICES,
+    WebSocketChannel.TRADES,
+    WebSocketChannel.FILLS,
+  ];
+
   private readonly apiUrl: string;
   private readonly apiKeyId: string | null;
   private auth: KalshiAuth | null = null;
+  /** Series ticker by event ticker */
+  private readonly seriesTickers = new Map<string, string>();
 
   constructor(config: KalshiConfig = {}) {
     super(config);
@@ -122,12 +271,7 @@ export class Kalshi extends Exchange {
     this.apiKeyId = config.apiKeyId ?? null;
 
     if (config.apiKeyId) {
-      if (config.privateKeyPath) {
-        const pem = fs.readFileSync(config.privateKeyPath, 'utf-8');
-        this.auth = createAuth(pem);
-      } else if (config.privateKeyPem) {
-        this.auth = createAuth(config.privateKeyPem);
-      }
+      this.auth = loadAuth(config);
     }
   }
 
@@ -146,6 +290,9 @@ export class Kalshi extends Exchange {
     path: string,
     body?: Record<string, unknown>
   ): Promise<T> {
+    const scope = method === 'GET' ? 'public' : 'private';
+    await this.throttle(scope, this.endpointWeight(path, method));
+
     const url = `${this.apiUrl}${path}`;
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
@@ -153,12 +300,7 @@ export class Kalshi extends Exchange {
     };
 
     if (this.isAuthenticated() && this.auth && this.apiKeyId) {
-      const timestampMs = Date.now();
-      const signature = this.auth.sign(timestampMs, method, path);
-
-      headers['KALSHI-ACCESS-KEY'] = this.apiKeyId;
-      headers['KALSHI-ACCESS-SIGNATURE'] = signature;
-      headers['KALSHI-ACCESS-TIMESTAMP'] = timestampMs.toString();
+      Object.assign(headers, signedHeaders(this.auth, this.apiKeyId, method, path));
     }
 
     const fetchOptions: RequestInit = {
@@ -167,14 +309,14 @@ export class Kalshi extends Exchange {
       signal: AbortSignal.timeout(this.timeout),
     };
 
-    if (body && (method === 'POST' || method === 'PUT')) {
+    if (body && (method === 'POST' || method === 'PUT' || method === 'DELETE')) {
       fetchOptions.body = JSON.stringify(body);
     }
 
-    const response = await fetch(url, fetchOptions);
+    const response = await this.httpFetch(url, fetchOptions);
 
     if (response.status === 429) {
-      throw new NetworkError('Rate limited');
+      throw this.rateLimitError(response, scope);
     }
 
     if (response.status === 401 || response.status === 403) {
@@ -225,11 +367,7 @@ export class Kalshi extends Exchange {
     // Kalshi uses 0.01 tick size (1 cent)
     const tickSize = 0.01;
 
-    const status = data.status ?? '';
-    const closed =
-      status.toLowerCase() === 'closed' ||
-      status.toLowerCase() === 'settled' ||
-      data.result != null;
+    const status = this.parseMarketStatus(data);
 
     return {
       id: ticker,
@@ -241,15 +379,69 @@ export class Kalshi extends Exchange {
       prices,
       tickSize,
       description,
+      status,
+      // Kalshi contracts are traded by ticker and side, not by token
+      outcomeTokens: [],
+      eventId: data.event_ticker,
+      category: data.category || undefined,
+      minOrderSize: 1,
+      resolution: status === MarketStatus.RESOLVED ? this.parseResolution(data) : undefined,
       metadata: {
         ...data,
         ticker,
-        eventTicker: data.event_ticker,
-        closed,
       },
     };
   }
 
+  private parseEvent(data: RawEvent): Event {
+    const { markets = [], ...raw } = data;
+    const id = data.event_ticker ?? '';
+
+    return {
+      id,
+      title: data.title ?? '',
+      description: data.sub_title ?? '',
+      url: data.series_ticker
+        ? `${WEB_URL}/markets/${data.series_ticker.toLowerCase()}`
+        : undefined,
+      category: data.category || undefined,
+      mutuallyExclusive: data.mutually_exclusive ?? false,
+      // Kalshi settles each market on its own; there is no cross-market conversion
+      negRisk: false,
+      markets: markets
+        .map((market) => this.parseMarket({ event_ticker: id, category: data.category, ...market }))
+        .filter((m): m is Market => m !== null),
+      metadata: raw,
+    };
+  }
+
+  private parseResolution(data: RawMarket): MarketResolution {
+    const winner = MARKET_RESULTS[data.result ?? ''];
+    const resolvedAt = this.parseDateTime(data.settlement_ts);
+
+    // Scalar markets settle Yes at a cent value anywhere between 0 and 100
+    if (data.settlement_value != null) {
+      const yes = fromUnits(data.settlement_value, 2);
+      return {
+        outcome: winner,
+        resolvedAt,
+        payouts: { Yes: yes, No: complementPrice(yes) },
+        disputed: false,
+      };
+    }
+
+    return this.settledResolution(['Yes', 'No'], winner, resolvedAt);
+  }
+
+  private parseMarketStatus(data: RawMarket): MarketStatus {
+    const status = (data.status ?? '').toLowerCase();
+    if (data.result || status === 'settled' || status === 'finalized') {
+      return MarketStatus.RESOLVED;
+    }
+    if (status === 'active' || status === 'open' || status === '') return MarketStatus.OPEN;
+    return MarketStatus.CLOSED;
+  }
+
   private parseOrder(data: RawOrder): Order {
     const orderId = data.order_id ?? '';
     const marketId = data.ticker ?? '';
@@ -284,12 +476,15 @@ export class Kalshi extends Exchange {
         status = OrderStatus.OPEN;
     }
 
-    // Price in cents, convert to decimal
-    const priceCents = data.yes_price ?? data.no_price ?? 0;
+    // Price in cents, convert to decimal; both sides are quoted, so read the one traded
+    const priceCents = (outcome === 'Yes' ? data.yes_price : data.no_price) ?? 0;
     const price = priceCents / 100;
 
-    const size = data.count ?? data.remaining_count ?? 0;
-    const filled = data.filled_count ?? 0;
+    const filled = data.fill_count ?? data.filled_count ?? 0;
+    const size = data.initial_count ?? data.count ?? (data.remaining_count ?? 0) + filled;
+    if (status === OrderStatus.OPEN && filled > 0) {
+      status = OrderStatus.PARTIALLY_FILLED;
+    }
 
     let createdAt = new Date();
     if (data.created_time) {
@@ -297,10 +492,7 @@ export class Kalshi extends Exchange {
       if (parsed) createdAt = parsed;
     }
 
-    let updatedAt: Date | undefined;
-    if (data.updated_time) {
-      updatedAt = this.parseDateTime(data.updated_time);
-    }
+    const updatedAt = this.parseDateTime(data.last_update_time ?? data.updated_time);
 
     return {
       id: orderId,
@@ -316,6 +508,29 @@ export class Kalshi extends Exchange {
     };
   }
 
+  private parseFill(data: RawFill): Trade {
+    const outcome = (data.side ?? 'yes').toLowerCase() === 'yes' ? 'Yes' : 'No';
+    const priceCents = (outcome === 'Yes' ? data.yes_price : data.no_price) ?? 0;
+
+    return {
+      id: data.fill_id ?? data.trade_id ?? '',
+      orderId: data.order_id,
+      marketId: data.ticker ?? '',
+      outcome,
+      side: (data.action ?? 'buy').toLowerCase() === 'buy' ? OrderSide.BUY : OrderSide.SELL,
+      price: priceCents / 100,
+      size: data.count ?? 0,
+      fee: Number(data.fee_cost ?? 0),
+      role:
+        data.is_taker === undefined
+          ? undefined
+          : data.is_taker
+            ? LiquidityRole.TAKER
+            : LiquidityRole.MAKER,
+      timestamp: this.parseDateTime(data.created_time) ?? new Date(0),
+    };
+  }
+
   private parsePosition(data: RawPosition): Position {
     const marketId = data.ticker ?? '';
 
@@ -346,11 +561,6 @@ export class Kalshi extends Exchange {
         endpoint += '&status=open';
       }
 
-      interface MarketsResponse {
-        markets: RawMarket[];
-        cursor?: string;
-      }
-
       const response = await this.request<MarketsResponse>('GET', endpoint);
       const markets = response.markets ?? [];
 
@@ -358,6 +568,83 @@ export class Kalshi extends Exchange {
     });
   }
 
+  override paginateMarkets(params: FetchMarketsParams = {}): AsyncGenerator<Market> {
+    return this.paginate<Market, string>(
+      (cursor) =>
+        this.withRetry(async () => {
+          const query = new URLSearchParams({ limit: '1000' });
+          if (params.active !== false) query.set('status', 'open');
+          if (cursor) query.set('cursor', cursor);
+
+          const response = await this.request<MarketsResponse>('GET', `/markets?${query}`);
+          const markets = response.markets ?? [];
+
+          return {
+            items: markets.map((m) => this.parseMarket(m)).filter((m): m is Market => m !== null),
+            next: markets.length > 0 && response.cursor ? response.cursor : undefined,
+          };
+        }),
+      params.limit
+    );
+  }
+
+  /** Events from the cursor-paged event listing, skipping `offset` of them */
+  override async fetchEvents(params: FetchEventsParams = {}): Promise<Event[]> {
+    const { offset = 0, limit = 100 } = params;
+
+    return this.collectWindow<Event, string>(
+      (cursor) =>
+        this.withRetry(async () => {
+          const query = new URLSearchParams({
+            limit: String(Math.min(offset + limit, EVENTS_PAGE_SIZE)),
+            with_nested_markets: 'true',
+          });
+          if (params.active !== false) query.set('status', 'open');
+          if (cursor) query.set('cursor', cursor);
+
+          const response = await this.request<{ events?: RawEvent[]; cursor?: string }>(
+            'GET',
+            `/events?${query}`
+          );
+          const events = response.events ?? [];
+          return {
+            items: events.map((event) => this.parseEvent(event)),
+            next: events.length > 0 && response.cursor ? response.cursor : undefined,
+          };
+        }),
+      offset,
+      limit
+    );
+  }
+
+  override async fetchEvent(eventId: string): Promise<Event> {
+    return this.withRetry(async () => {
+      try {
+        const response = await this.request<{ event: RawEvent; markets?: RawMarket[] }>(
+          'GET',
+          `/events/${eventId}?with_nested_markets=true`
+        );
+        return this.parseEvent({
+          ...response.event,
+          markets: response.event.markets ?? response.markets,
+        });
+      } catch (error) {
+        if (error instanceof ExchangeError && error.message.includes('not found')) {
+          throw new MarketNotFound(`Event ${eventId} not found`);
+        }
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Kalshi charges takers 0.07 x price x (1 - price) per contract, rounded up to the cent on each
+   * order; this is the per-contract rate before rounding.
+   */
+  override takerFee(_market: Market, price: number): number {
+    return TAKER_FEE_RATE * price * (1 - price);
+  }
+
   async fetchMarket(marketId: string): Promise<Market> {
     return this.withRetry(async () => {
       interface MarketResponse {
@@ -382,9 +669,168 @@ export class Kalshi extends Exchange {
     });
   }
 
-  async fetchOrderbook(ticker: string): Promise<Orderbook> {
+  /** Exchange-wide or per-market tape; every trade is a taker buying Yes or No contracts */
+  protected override async fetchPublicTradesPage(
+    params: FetchPublicTradesParams,
+    cursor?: string
+  ): Promise<{ items: PublicTrade[]; next?: string }> {
+    const query = new URLSearchParams({
+      limit: String(Math.min(params.limit ?? TRADES_PAGE_SIZE, TRADES_PAGE_SIZE)),
+    });
+    if (params.market) {
+      query.set('ticker', typeof params.market === 'string' ? params.market : params.market.id);
+    }
+    if (params.since) query.set('min_ts', String(Math.floor(params.since.getTime() / 1000)));
+    if (cursor) query.set('cursor', cursor);
+
+    const response = await this.withRetry(() =>
+      this.request<{ trades?: RawPublicTrade[]; cursor?: string }>(
+        'GET',
+        `/markets/trades?${query}`
+      )
+    );
+
+    return {
+      items: (response.trades ?? []).map((trade) => this.parsePublicTrade(trade)),
+      next: response.cursor || undefined,
+    };
+  }
+
+  private parsePublicTrade(data: RawPublicTrade): PublicTrade {
+    const yes = data.taker_side !== 'no';
+    const cents = (yes ? data.yes_price : data.no_price) ?? 0;
+
+    return {
+      id: data.trade_id,
+      marketId: data.ticker ?? '',
+      outcome: yes ? 'Yes' : 'No',
+      side: OrderSide.BUY,
+      price: cents / 100,
+      size: data.count ?? 0,
+      timestamp: this.parseDateTime(data.created_time) ?? new Date(0),
+      metadata: data,
+    };
+  }
+
+  /** Candle closes at the native period nearest `fidelity`; hours and days beyond a minute */
+  async fetchPriceHistory(
+    marketOrId: Market | string,
+    params: FetchPriceHistoryParams = {}
+  ): Promise<PricePoint[]> {
+    const market = typeof marketOrId === 'string' ? await this.fetchMarket(marketOrId) : marketOrId;
+    const { index } = this.selectOutcome(market, params.outcome);
+    const fidelity = params.fidelity ?? 10;
+    const period = CANDLE_PERIODS.find((p) => p >= fidelity) ?? 1440;
+    const { since, until } = this.historyWindow(params);
+
+    const candles = await this.fetchCandles(market, period, since, until);
+    return candles.map(({ candle, raw }) => ({
+      timestamp: new Date(candle.timestamp.getTime() + period * 60_000),
+      price: index === 1 ? complementPrice(candle.close) : candle.close,
+      raw,
+    }));
+  }
+
+  /** Native candles, merged from the longest served period that divides `timeframe` */
+  override async fetchOHLCV(
+    market: Market | string,
+    outcome: number | string = 0,
+    timeframe: OHLCVTimeframe = '1h',
+    since?: Date,
+    until?: Date
+  ): Promise<OHLCV[]> {
+    const resolved = typeof market === 'string' ? await this.fetchMarket(market) : market;
+    const { index } = this.selectOutcome(resolved, outcome);
+    const minutes = OHLCVUtils.timeframeMs(timeframe) / 60_000;
+    const period = [...CANDLE_PERIODS].reverse().find((p) => minutes % p === 0) ?? 1;
+    const end = until ?? new Date();
+    const start = since ?? new Date(end.getTime() - 100 * minutes * 60_000);
+
+    const candles = await this.fetchCandles(resolved, period, start, end);
+    const merged = OHLCVUtils.resample(
+      candles.map(({ candle }) => candle),
+      timeframe
+    );
+    return index === 1 ? OHLCVUtils.invert(merged) : merged;
+  }
+
+  private async fetchCandles(
+    market: Market,
+    period: number,
+    since: Date | undefined,
+    until: Date
+  ): Promise<Array<{ candle: OHLCV; raw: RawCandle }>> {
+    const series = await this.seriesTicker(market);
+    const query = new URLSearchParams({
+      start_ts: String(Math.floor((since?.getTime() ?? 0) / 1000)),
+      end_ts: String(Math.floor(until.getTime() / 1000)),
+      period_interval: String(period),
+    });
+
+    const response = await this.withRetry(() =>
+      this.request<{ candlesticks?: RawCandle[] }>(
+        'GET',
+        `/series/${series}/markets/${market.id}/candlesticks?${query}`
+      )
+    );
+
+    return (response.candlesticks ?? []).flatMap((raw) => {
+      const candle = this.parseCandle(raw, period);
+      return candle ? [{ candle, raw }] : [];
+    });
+  }
+
+  /** Traded prices, or the bid/ask midpoint for periods without a trade */
+  private parseCandle(raw: RawCandle, period: number): OHLCV | null {
+    if (raw.end_period_ts === undefined) return null;
+
+    const field = (key: keyof RawCandleValues): number | null => {
+      const traded = raw.price?.[key];
+      if (traded != null) return traded / 100;
+      const bid = raw.yes_bid?.[key];
+      const ask = raw.yes_ask?.[key];
+      return bid != null && ask != null ? (bid + ask) / 200 : null;
+    };
+
+    const [open, high, low, close] = [field('open'), field('high'), field('low'), field('close')];
+    if (open === null || high === null || low === null || close === null) return null;
+
+    return {
+      timestamp: new Date((raw.end_period_ts - period * 60) * 1000),
+      open,
+      high,
+      low,
+      close,
+      volume: raw.volume ?? 0,
+    };
+  }
+
+  /** Series of a market's event; candlesticks are served per series */
+  private async seriesTicker(market: Market): Promise<string> {
+    const eventId = market.eventId ?? market.id;
+    let series = this.seriesTickers.get(eventId);
+    if (!series) {
+      const response = await this.withRetry(() =>
+        this.request<{ event: RawEvent }>('GET', `/events/${eventId}`)
+      );
+      series = response.event.series_ticker ?? eventId.split('-')[0] ?? eventId;
+      this.seriesTickers.set(eventId, series);
+    }
+    return series;
+  }
+
+  async fetchOrderbook(marketId: string, params: FetchOrderbookParams = {}): Promise<Orderbook> {
     this.ensureAuth();
 
+    // Kalshi books are keyed by ticker; the outcome picks which side is quoted.
+    // The No book is reported under the asset id `<ticker>:no`.
+    const outcome = (
+      params.outcome ?? (params.tokenId?.endsWith(':no') ? 'no' : 'yes')
+    ).toLowerCase();
+    if (outcome !== 'yes' && outcome !== 'no') {
+      throw new ExchangeError("Outcome must be 'Yes' or 'No'");
+    }
+
     return this.withRetry(async () => {
       interface OrderbookResponse {
         orderbook: {
@@ -393,84 +839,48 @@ export class Kalshi extends Exchange {
         };
       }
 
-      const response = await this.request<OrderbookResponse>('GET', `/markets/${ticker}/orderbook`);
+      const response = await this.request<OrderbookResponse>(
+        'GET',
+        `/markets/${marketId}/orderbook`
+      );
 
       const bids: PriceLevel[] = [];
       const asks: PriceLevel[] = [];
 
-      // Yes side becomes bids
-      if (response.orderbook.yes) {
-        for (const [priceCents, size] of response.orderbook.yes) {
-          const price = priceCents / 100;
-          bids.push([price, size]);
-        }
+      // Kalshi only returns resting bids per side; an ask on one side is a bid on the other
+      const ownSide = outcome === 'yes' ? response.orderbook.yes : response.orderbook.no;
+      const otherSide = outcome === 'yes' ? response.orderbook.no : response.orderbook.yes;
+
+      for (const [priceCents, size] of ownSide ?? []) {
+        bids.push([priceCents / 100, size]);
       }
 
-      // No side becomes asks (inverted)
-      if (response.orderbook.no) {
-        for (const [priceCents, size] of response.orderbook.no) {
-          const price = 1 - priceCents / 100;
-          asks.push([price, size]);
-        }
+      for (const [priceCents, size] of otherSide ?? []) {
+        asks.push([(100 - priceCents) / 100, size]);
       }
 
       // Sort: bids descending, asks ascending
       bids.sort((a, b) => b[0] - a[0]);
       asks.sort((a, b) => a[0] - b[0]);
 
-      return {
-        bids,
-        asks,
-        timestamp: Date.now(),
-        assetId: ticker,
-        marketId: ticker,
-      };
+      return OrderbookUtils.truncate(
+        {
+          bids,
+          asks,
+          timestamp: Date.now(),
+          assetId: outcome === 'yes' ? marketId : `${marketId}:no`,
+          marketId,
+        },
+        params.depth
+      );
     });
   }
 
   async createOrder(params: CreateOrderParams): Promise<Order> {
     this.ensureAuth();
-
-    if (params.price <= 0 || params.price >= 1) {
-      throw new InvalidOrder('Price must be between 0 and 1');
-    }
-
-    const outcome = params.outcome.toLowerCase();
-    if (outcome !== 'yes' && outcome !== 'no') {
-      throw new InvalidOrder("Outcome must be 'Yes' or 'No'");
-    }
+    const body = this.buildOrderRequest(params);
 
     return this.withRetry(async () => {
-      const action = params.side === OrderSide.BUY ? 'buy' : 'sell';
-      const side = outcome;
-
-      // Price in cents
-      const priceCents = Math.round(params.price * 100);
-
-      interface CreateOrderRequest {
-        ticker: string;
-        action: string;
-        side: string;
-        type: string;
-        count: number;
-        yes_price?: number;
-        no_price?: number;
-      }
-
-      const body: CreateOrderRequest = {
-        ticker: params.marketId,
-        action,
-        side,
-        type: 'limit',
-        count: Math.floor(params.size),
-      };
-
-      if (outcome === 'yes') {
-        body.yes_price = priceCents;
-      } else {
-        body.no_price = priceCents;
-      }
-
       interface CreateOrderResponse {
         order: RawOrder;
       }
@@ -485,6 +895,35 @@ export class Kalshi extends Exchange {
     });
   }
 
+  /** Places up to 20 orders per request through the batched orders endpoint */
+  override async createOrders(orders: CreateOrderParams[]): Promise<OrderResult[]> {
+    this.ensureAuth();
+
+    const requests = orders.map((params) => {
+      try {
+        return this.buildOrderRequest(params);
+      } catch (error) {
+        return error as Error;
+      }
+    });
+    const valid = requests.filter((r): r is CreateOrderRequest => !(r instanceof Error));
+
+    // Not retried: a batch the venue accepted before a network error would be placed twice
+    const placed = await this.inBatches(valid, BATCH_SIZE, async (batch) => {
+      const response = await this.request<BatchResponse>('POST', '/portfolio/orders/batched', {
+        orders: batch,
+      });
+      return batch.map((_, i) => this.batchResult(response.orders?.[i]));
+    });
+
+    let next = 0;
+    return requests.map((request) =>
+      request instanceof Error
+        ? { success: false, error: request }
+        : (placed[next++] as OrderResult)
+    );
+  }
+
   async cancelOrder(orderId: string, _marketId?: string): Promise<Order> {
     this.ensureAuth();
 
@@ -502,6 +941,78 @@ export class Kalshi extends Exchange {
     });
   }
 
+  /** Cancels up to 20 orders per request through the batched orders endpoint */
+  override async cancelOrders(orderIds: string[], _marketId?: string): Promise<OrderResult[]> {
+    this.ensureAuth();
+
+    return this.inBatches(
+      orderIds,
+      BATCH_SIZE,
+      (batch) =>
+        this.withRetry(async () => {
+          const response = await this.request<BatchResponse>(
+            'DELETE',
+            '/portfolio/orders/batched',
+            { ids: batch }
+          );
+          return batch.map((orderId, i) => this.batchResult(response.orders?.[i], orderId));
+        }),
+      (orderId) => orderId
+    );
+  }
+
+  private buildOrderRequest(params: CreateOrderParams): CreateOrderRequest {
+    if (params.price <= 0 || params.price >= 1) {
+      throw new InvalidOrder('Price must be between 0 and 1');
+    }
+
+    const outcome = params.outcome.toLowerCase();
+    if (outcome !== 'yes' && outcome !== 'no') {
+      throw new InvalidOrder("Outcome must be 'Yes' or 'No'");
+    }
+
+    const { type, timeInForce, expiresAt, postOnly, reduceOnly } = this.resolveOrderOptions(params);
+
+    // Price in cents
+    const priceCents = Number(toUnits(params.price, 2));
+    const count = Math.floor(params.size);
+
+    const body: CreateOrderRequest = {
+      ticker: params.marketId,
+      action: params.side === OrderSide.BUY ? 'buy' : 'sell',
+      side: outcome,
+      type,
+      count,
+    };
+
+    if (outcome === 'yes') {
+      body.yes_price = priceCents;
+    } else {
+      body.no_price = priceCents;
+    }
+
+    // Market buys are capped by total cost rather than price
+    if (type === OrderType.MARKET && params.side === OrderSide.BUY) {
+      body.buy_max_cost = priceCents * count;
+    }
+
+    const timeInForceValue = timeInForce ? TIME_IN_FORCE[timeInForce] : undefined;
+    if (timeInForceValue) body.time_in_force = timeInForceValue;
+    if (expiresAt) body.expiration_ts = Math.floor(expiresAt.getTime() / 1000);
+    if (postOnly) body.post_only = true;
+    if (reduceOnly) body.reduce_only = true;
+
+    return body;
+  }
+
+  private batchResult(entry: BatchEntry | undefined, orderId?: string): OrderResult {
+    if (entry?.order && !entry.error) {
+      return { success: true, order: this.parseOrder(entry.order) };
+    }
+    const message = entry?.error?.message ?? 'Missing from batch response';
+    return { success: false, error: new ExchangeError(message), orderId };
+  }
+
   async fetchOrder(orderId: string, _marketId?: string): Promise<Order> {
     this.ensureAuth();
 
@@ -533,6 +1044,67 @@ export class Kalshi extends Exchange {
     });
   }
 
+  async fetchMyTrades(params: FetchMyTradesParams = {}): Promise<Trade[]> {
+    this.ensureAuth();
+
+    return this.collectTrades<string>(
+      (cursor) =>
+        this.withRetry(async () => {
+          interface FillsResponse {
+            fills?: RawFill[];
+            cursor?: string;
+          }
+
+          const query = new URLSearchParams({ limit: String(FILLS_PAGE_SIZE) });
+          if (params.marketId) query.set('ticker', params.marketId);
+          if (params.since) query.set('min_ts', String(Math.floor(params.since.getTime() / 1000)));
+          if (cursor) query.set('cursor', cursor);
+
+          const response = await this.request<FillsResponse>('GET', `/portfolio/fills?${query}`);
+          const fills = response.fills ?? [];
+          return {
+            items: fills.map((f) => this.parseFill(f)),
+            next: fills.length > 0 && response.cursor ? response.cursor : undefined,
+          };
+        }),
+      params
+    );
+  }
+
+  async fetchOrders(params: FetchOrdersParams = {}): Promise<Order[]> {
+    this.ensureAuth();
+
+    // Kalshi filters on one status at a time; wider queries are filtered after parsing
+    const statuses = params.status === undefined ? [] : [params.status].flat();
+    const venueStatuses = new Set(statuses.map((status) => ORDER_STATUSES[status]));
+    const venueStatus = venueStatuses.size === 1 ? [...venueStatuses][0] : undefined;
+
+    return this.collectOrders<string>(
+      (cursor) =>
+        this.withRetry(async () => {
+          interface OrdersResponse {
+            orders?: RawOrder[];
+            cursor?: string;
+          }
+
+          const query = new URLSearchParams({ limit: String(ORDERS_PAGE_SIZE) });
+          if (params.marketId) query.set('ticker', params.marketId);
+          if (venueStatus) query.set('status', venueStatus);
+          if (params.since) query.set('min_ts', String(Math.floor(params.since.getTime() / 1000)));
+          if (params.until) query.set('max_ts', String(Math.floor(params.until.getTime() / 1000)));
+          if (cursor) query.set('cursor', cursor);
+
+          const response = await this.request<OrdersResponse>('GET', `/portfolio/orders?${query}`);
+          const orders = response.orders ?? [];
+          return {
+            items: orders.map((o) => this.parseOrder(o)),
+            next: orders.length > 0 && response.cursor ? response.cursor : undefined,
+          };
+        }),
+      params
+    );
+  }
+
   async fetchPositions(marketId?: string): Promise<Position[]> {
     this.ensureAuth();
 
@@ -555,39 +1127,25 @@ export class Kalshi extends Exchange {
     });
   }
 
-  async fetchBalance(): Promise<Record<string, number>> {
+  /** Kalshi reports spendable cash; resting buy orders hold the rest */
+  async fetchBalance(): Promise<Balance> {
     this.ensureAuth();
 
-    return this.withRetry(async () => {
-      interface BalanceResponse {
-        balance: number;
-        available_balance?: number;
-      }
-
-      const response = await this.request<BalanceResponse>('GET', '/portfolio/balance');
+    const [response, used] = await Promise.all([
+      this.withRetry(async () => {
+        interface BalanceResponse {
+          balance: number;
+          available_balance?: number;
+        }
 
-      // Kalshi balance is in cents, convert to dollars
-      const balance = (response.available_balance ?? response.balance ?? 0) / 100;
+        return this.request<BalanceResponse>('GET', '/portfolio/balance');
+      }),
+      this.openOrderCollateral(),
+    ]);
 
-      return { USD: balance };
-    });
-  }
+    // Kalshi balance is in cents, convert to dollars
+    const free = (response.available_balance ?? response.balance ?? 0) / 100;
 
-  override describe() {
-    return {
-      id: this.id,
-      name: this.name,
-      has: {
-        fetchMarkets: true,
-        fetchMarket: true,
-        createOrder: true,
-        cancelOrder: true,
-        fetchOrder: true,
-        fetchOpenOrders: true,
-        fetchPositions: true,
-        fetchBalance: true,
-        websocket: false,
-      },
-    };
+    return { USD: { free, used, total: free + used } };
   }
 }
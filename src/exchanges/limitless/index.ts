@@ -1,5 +1,6 @@
 import { Wallet } from 'ethers';
-import { Exchange, type ExchangeConfig } from '../../core/exchange.js';
+import { Exchange, type ExchangeConfig, WebSocketChannel } from '../../core/exchange.js';
+import type { RateLimits } from '../../core/rate-limiter.js';
 import {
   AuthenticationError,
   ExchangeError,
@@ -8,17 +9,54 @@ import {
   NetworkError,
 } from '../../errors/index.js';
 import {
+  type Balance,
   type CreateOrderParams,
+  type Event,
+  type FetchEventsParams,
   type FetchMarketsParams,
+  type FetchMyTradesParams,
+  type FetchOrderbookParams,
+  type FetchOrdersParams,
+  type FetchPriceHistoryParams,
+  type FetchPublicTradesParams,
+  LiquidityRole,
   type Market,
+  MarketStatus,
+  MarketUtils,
   type Order,
+  type Orderbook,
+  OrderbookUtils,
   OrderSide,
   OrderStatus,
+  OrderType,
   type Position,
+  type PricePoint,
+  type PublicTrade,
+  TimeInForce,
+  type Trade,
 } from '../../types/index.js';
+import { complementPrice, fromUnits, mulDiv, roundToTickSize, toUnits } from '../../utils/index.js';
 
 const BASE_URL = 'https://api.limitless.exchange';
 const CHAIN_ID = 8453;
+const WEB_URL = 'https://limitless.exchange';
+const MARKETS_PAGE_SIZE = 25;
+const TRADES_PAGE_SIZE = 25;
+/** Fee rate Limitless signs into every order */
+const FEE_RATE_BPS = 300;
+/** Collateral and outcome token amounts are 6-decimal integers on-chain */
+const USDC_DECIMALS = 6;
+
+/** Limitless order status holding orders in each unified status */
+const ORDER_STATUSES: Record<OrderStatus, string> = {
+  [OrderStatus.PENDING]: 'LIVE',
+  [OrderStatus.OPEN]: 'LIVE',
+  [OrderStatus.PARTIALLY_FILLED]: 'LIVE',
+  [OrderStatus.FILLED]: 'MATCHED',
+  [OrderStatus.CANCELLED]: 'CANCELLED',
+  [OrderStatus.EXPIRED]: 'EXPIRED',
+  [OrderStatus.REJECTED]: 'CANCELLED',
+};
 
 interface LimitlessConfig extends ExchangeConfig {
   host?: string;
@@ -43,8 +81,15 @@ interface RawMarket {
   liquidity?: number;
   liquidityFormatted?: number;
   status?: string;
+  expired?: boolean;
+  winningOutcomeIndex?: number | null;
   venue?: { exchange?: string };
   category?: string;
+  categories?: string[];
+  group?: { id?: number | string; slug?: string };
+  /** Child markets, on group entries */
+  markets?: RawMarket[];
+  negRiskMarketId?: string | null;
 }
 
 interface RawOrder {
@@ -83,6 +128,29 @@ interface RawPosition {
   };
 }
 
+interface RawTrade {
+  id?: string;
+  orderId?: string;
+  market?: { slug?: string };
+  marketSlug?: string;
+  /** 0 for Yes, 1 for No */
+  outcomeIndex?: number;
+  strategy?: string;
+  side?: number | string;
+  /** Shares in 6-decimal units */
+  outcomeTokenAmount?: string | number;
+  /** USDC in 6-decimal units */
+  collateralAmount?: string | number;
+  outcomeTokenPrice?: string | number;
+  price?: string | number;
+  /** USDC in 6-decimal units */
+  fee?: string | number;
+  isMaker?: boolean;
+  transactionHash?: string;
+  blockTimestamp?: string | number;
+  createdAt?: string | number;
+}
+
 interface RawOrderbookLevel {
   price?: number | string;
   size?: number | string;
@@ -93,6 +161,19 @@ export class Limitless extends Exchange {
   readonly id = 'limitless';
   readonly name = 'Limitless';
 
+  protected override readonly rateLimits: RateLimits = {
+    public: { rate: 10, capacity: 20 },
+    private: { rate: 5, capacity: 10 },
+  };
+
+  protected override readonly orderTypes = [OrderType.LIMIT, OrderType.MARKET];
+  protected override readonly timeInForces = [TimeInForce.GTC, TimeInForce.FOK];
+  protected override readonly websocketChannels = [
+    WebSocketChannel.ORDERBOOK,
+    WebSocketChannel.PRICES,
+    WebSocketChannel.POSITIONS,
+  ];
+
   private readonly host: string;
   private readonly chainId: number;
   private wallet: Wallet | null = null;
@@ -120,7 +201,8 @@ export class Limitless extends Exchange {
       throw new AuthenticationError('Private key required for authentication');
     }
 
-    const msgResponse = await fetch(`${this.host}/auth/signing-message`, {
+    await this.throttle('private');
+    const msgResponse = await this.httpFetch(`${this.host}/auth/signing-message`, {
       method: 'GET',
       headers: { 'Content-Type': 'application/json' },
     });
@@ -140,7 +222,8 @@ export class Limitless extends Exchange {
     const signature = await this.wallet.signMessage(message);
     const messageHex = `0x${Buffer.from(message, 'utf-8').toString('hex')}`;
 
-    const loginResponse = await fetch(`${this.host}/auth/login`, {
+    await this.throttle('private');
+    const loginResponse = await this.httpFetch(`${this.host}/auth/login`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -196,6 +279,9 @@ export class Limitless extends Exchange {
       await this.ensureAuth();
     }
 
+    const scope = requireAuth ? 'private' : 'public';
+    await this.throttle(scope, this.endpointWeight(endpoint, method));
+
     const url = new URL(`${this.host}${endpoint}`);
 
     if (method === 'GET' && params) {
@@ -223,13 +309,14 @@ export class Limitless extends Exchange {
       fetchOptions.body = JSON.stringify(params);
     }
 
-    const response = await fetch(url.toString(), fetchOptions);
+    const response = await this.httpFetch(url.toString(), fetchOptions);
+
+    if (response.status === 429) {
+      throw this.rateLimitError(response, scope);
+    }
 
     if (!response.ok) {
       const errorText = await response.text().catch(() => 'Unknown error');
-      if (response.status === 429) {
-        throw new NetworkError('Rate limited');
-      }
       if (response.status === 401 || response.status === 403) {
         this.authenticated = false;
         throw new AuthenticationError(`Authentication failed: ${errorText}`);
@@ -253,6 +340,7 @@ export class Limitless extends Exchange {
 
     const outcomes = ['Yes', 'No'];
     const tokenIds = yesTokenId && noTokenId ? [yesTokenId, noTokenId] : [];
+    const outcomeTokens = tokenIds.map((tokenId, i) => ({ outcome: outcomes[i] ?? '', tokenId }));
 
     const prices: Record<string, number> = {};
     if (data.yesPrice !== undefined) {
@@ -293,17 +381,22 @@ export class Limitless extends Exchange {
       this.noTokens.add(noTokenId);
     }
 
-    const status = data.status ?? '';
-    const closed = status.toLowerCase() === 'resolved' || status.toLowerCase() === 'closed';
+    const rawStatus = (data.status ?? '').toLowerCase();
+    const winner =
+      data.winningOutcomeIndex === null || data.winningOutcomeIndex === undefined
+        ? undefined
+        : outcomes[data.winningOutcomeIndex];
+    let status: MarketStatus = MarketStatus.OPEN;
+    // A market is only final once the winner is known; until then it is closed with no payouts
+    if (winner) {
+      status = MarketStatus.RESOLVED;
+    } else if (rawStatus === 'resolved' || rawStatus === 'closed' || data.expired) {
+      status = MarketStatus.CLOSED;
+    }
 
     const metadata: Record<string, unknown> = {
       ...data,
-      slug,
-      clobTokenIds: tokenIds,
-      token_ids: tokenIds,
-      tokens: { Yes: yesTokenId, No: noTokenId },
       minimum_tick_size: tickSize,
-      closed,
     };
 
     return {
@@ -316,10 +409,42 @@ export class Limitless extends Exchange {
       prices,
       tickSize,
       description: data.description ?? '',
+      status,
+      outcomeTokens,
+      eventId: data.group?.slug ?? (data.group?.id != null ? String(data.group.id) : undefined),
+      category: data.category ?? data.categories?.[0],
+      slug,
+      url: slug ? `${WEB_URL}/markets/${slug}` : undefined,
+      feeRateBps: FEE_RATE_BPS,
+      resolution:
+        status === MarketStatus.RESOLVED ? this.settledResolution(outcomes, winner) : undefined,
       metadata,
     };
   }
 
+  private parseEvent(data: RawMarket): Event {
+    const { markets: children = [], ...raw } = data;
+    const slug = data.slug ?? data.address ?? '';
+    const negRisk = Boolean(data.negRiskMarketId);
+    const markets = children.length
+      ? children.map((child) => this.parseMarket(child))
+      : [this.parseMarket(data)];
+
+    return {
+      id: slug,
+      title: data.title ?? data.question ?? '',
+      description: data.description ?? '',
+      slug,
+      url: `${WEB_URL}/markets/${slug}`,
+      category: data.category ?? data.categories?.[0],
+      // Limitless groups settle through a neg-risk adapter with a single winner
+      mutuallyExclusive: negRisk,
+      negRisk,
+      markets: markets.map((market) => ({ ...market, eventId: slug })),
+      metadata: raw,
+    };
+  }
+
   private parseOrder(data: RawOrder, tokenToOutcome?: Map<string, string>): Order {
     const orderId = String(data.id ?? data.orderId ?? '');
     const marketId = data.marketSlug ?? data.market_id ?? '';
@@ -339,7 +464,7 @@ export class Limitless extends Exchange {
       const makerAmount = data.makerAmount ?? 0;
       const takerAmount = data.takerAmount ?? 0;
       if (makerAmount || takerAmount) {
-        size = side === OrderSide.BUY ? takerAmount / 1_000_000 : makerAmount / 1_000_000;
+        size = fromUnits(side === OrderSide.BUY ? takerAmount : makerAmount, USDC_DECIMALS);
       }
     }
 
@@ -367,6 +492,7 @@ export class Limitless extends Exchange {
       filled,
       status,
       createdAt,
+      updatedAt: this.parseDateTime(data.updatedAt),
     };
   }
 
@@ -385,10 +511,45 @@ export class Limitless extends Exchange {
       partial: OrderStatus.PARTIALLY_FILLED,
       cancelled: OrderStatus.CANCELLED,
       canceled: OrderStatus.CANCELLED,
+      expired: OrderStatus.EXPIRED,
     };
     return statusMap[statusStr] ?? OrderStatus.OPEN;
   }
 
+  private parseTrade(data: RawTrade): Trade {
+    const size = fromUnits(data.outcomeTokenAmount ?? 0, USDC_DECIMALS);
+    const collateral = fromUnits(data.collateralAmount ?? 0, USDC_DECIMALS);
+    const price = Number(
+      data.outcomeTokenPrice ?? data.price ?? (size > 0 ? collateral / size : 0)
+    );
+
+    const strategy = String(data.strategy ?? data.side ?? 'buy').toLowerCase();
+    const side = strategy === 'buy' || strategy === '0' ? OrderSide.BUY : OrderSide.SELL;
+
+    // blockTimestamp is in seconds
+    const blockTime = data.blockTimestamp ? Number(data.blockTimestamp) * 1000 : undefined;
+    const timestamp = this.parseDateTime(blockTime ?? data.createdAt) ?? new Date(0);
+
+    return {
+      id: String(data.id ?? data.transactionHash ?? ''),
+      orderId: data.orderId,
+      marketId: data.market?.slug ?? data.marketSlug ?? '',
+      outcome: data.outcomeIndex === 1 ? 'No' : 'Yes',
+      side,
+      price,
+      size,
+      fee: fromUnits(data.fee ?? 0, USDC_DECIMALS),
+      role:
+        data.isMaker === undefined
+          ? undefined
+          : data.isMaker
+            ? LiquidityRole.MAKER
+            : LiquidityRole.TAKER,
+      transactionHash: data.transactionHash,
+      timestamp,
+    };
+  }
+
   private parsePortfolioPositions(data: RawPosition): Position[] {
     const positions: Position[] = [];
 
@@ -403,9 +564,9 @@ export class Limitless extends Exchange {
     if (yesBalance > 0) {
       const yesDetails = positionDetails.yes ?? {};
       const fillPrice = yesDetails.fillPrice ?? 0;
-      const avgPrice = fillPrice > 1 ? fillPrice / 1_000_000 : fillPrice;
+      const avgPrice = fillPrice > 1 ? fromUnits(fillPrice, USDC_DECIMALS) : fillPrice;
       const currentPrice = latestTrade.latestYesPrice ?? 0;
-      const size = yesBalance / 1_000_000;
+      const size = fromUnits(yesBalance, USDC_DECIMALS);
 
       positions.push({
         marketId,
@@ -420,9 +581,9 @@ export class Limitless extends Exchange {
     if (noBalance > 0) {
       const noDetails = positionDetails.no ?? {};
       const fillPrice = noDetails.fillPrice ?? 0;
-      const avgPrice = fillPrice > 1 ? fillPrice / 1_000_000 : fillPrice;
+      const avgPrice = fillPrice > 1 ? fromUnits(fillPrice, USDC_DECIMALS) : fillPrice;
       const currentPrice = latestTrade.latestNoPrice ?? 0;
-      const size = noBalance / 1_000_000;
+      const size = fromUnits(noBalance, USDC_DECIMALS);
 
       positions.push({
         marketId,
@@ -439,8 +600,8 @@ export class Limitless extends Exchange {
   async fetchMarkets(params?: FetchMarketsParams): Promise<Market[]> {
     return this.withRetry(async () => {
       const queryParams: Record<string, unknown> = {
-        page: params?.offset ? Math.floor(params.offset / 25) + 1 : 1,
-        limit: Math.min(params?.limit ?? 25, 25),
+        page: params?.offset ? Math.floor(params.offset / MARKETS_PAGE_SIZE) + 1 : 1,
+        limit: Math.min(params?.limit ?? MARKETS_PAGE_SIZE, MARKETS_PAGE_SIZE),
       };
 
       const response = await this.request<{ data?: RawMarket[] } | RawMarket[]>(
@@ -454,7 +615,7 @@ export class Limitless extends Exchange {
       let markets = marketsData.map((m) => this.parseMarket(m));
 
       if (params?.active !== false) {
-        markets = markets.filter((m) => !m.metadata?.closed);
+        markets = markets.filter((m) => m.status === MarketStatus.OPEN);
       }
 
       if (params?.limit) {
@@ -464,6 +625,70 @@ export class Limitless extends Exchange {
     });
   }
 
+  override paginateMarkets(params: FetchMarketsParams = {}): AsyncGenerator<Market> {
+    const firstPage = params.offset ? Math.floor(params.offset / MARKETS_PAGE_SIZE) + 1 : 1;
+
+    return this.paginate<Market, number>(
+      (page = firstPage) =>
+        this.withRetry(async () => {
+          const response = await this.request<{ data?: RawMarket[] } | RawMarket[]>(
+            'GET',
+            '/markets/active',
+            { page, limit: MARKETS_PAGE_SIZE }
+          );
+
+          const marketsData = Array.isArray(response) ? response : (response.data ?? []);
+          let markets = marketsData.map((m) => this.parseMarket(m));
+
+          if (params.active !== false) {
+            markets = markets.filter((m) => m.status === MarketStatus.OPEN);
+          }
+
+          const next = marketsData.length < MARKETS_PAGE_SIZE ? undefined : page + 1;
+          return { items: markets, next };
+        }),
+      params.limit
+    );
+  }
+
+  /** Market groups as events; a standalone market is an event of one */
+  override async fetchEvents(params: FetchEventsParams = {}): Promise<Event[]> {
+    const { offset = 0, limit = MARKETS_PAGE_SIZE } = params;
+    const firstPage = Math.floor(offset / MARKETS_PAGE_SIZE) + 1;
+
+    return this.collectWindow<Event, number>(
+      (page = firstPage) =>
+        this.withRetry(async () => {
+          const response = await this.request<{ data?: RawMarket[] } | RawMarket[]>(
+            'GET',
+            '/markets/active',
+            { page, limit: MARKETS_PAGE_SIZE }
+          );
+
+          const entries = Array.isArray(response) ? response : (response.data ?? []);
+          return {
+            items: entries.map((entry) => this.parseEvent(entry)),
+            next: entries.length < MARKETS_PAGE_SIZE ? undefined : page + 1,
+          };
+        }),
+      offset % MARKETS_PAGE_SIZE,
+      limit
+    );
+  }
+
+  override async fetchEvent(eventId: string): Promise<Event> {
+    return this.withRetry(async () => {
+      try {
+        return this.parseEvent(await this.request<RawMarket>('GET', `/markets/${eventId}`));
+      } catch (error) {
+        if (error instanceof ExchangeError && error.message.includes('not found')) {
+          throw new MarketNotFound(`Event ${eventId} not found`);
+        }
+        throw error;
+      }
+    });
+  }
+
   async fetchMarket(marketId: string): Promise<Market> {
     return this.withRetry(async () => {
       try {
@@ -478,6 +703,108 @@ export class Limitless extends Exchange {
     });
   }
 
+  /** A market's trade feed, paged by page number; there is no exchange-wide tape */
+  protected override async fetchPublicTradesPage(
+    params: FetchPublicTradesParams,
+    cursor?: string
+  ): Promise<{ items: PublicTrade[]; next?: string }> {
+    if (!params.market) {
+      throw new ExchangeError('Limitless serves public trades per market; pass `market`');
+    }
+    const slug = typeof params.market === 'string' ? params.market : params.market.id;
+    const limit = Math.min(params.limit ?? TRADES_PAGE_SIZE, TRADES_PAGE_SIZE);
+    const page = Number(cursor ?? 1);
+
+    const response = await this.withRetry(() =>
+      this.request<{ data?: RawTrade[]; totalPages?: number } | RawTrade[]>(
+        'GET',
+        `/markets/${slug}/events`,
+        { page, limit }
+      )
+    );
+
+    const rows = Array.isArray(response) ? response : (response.data ?? []);
+    const totalPages = Array.isArray(response) ? undefined : response.totalPages;
+    const last = rows.length < limit || (totalPages !== undefined && page >= totalPages);
+
+    return {
+      items: rows.map((row) => {
+        const { id, marketId, outcome, side, price, size, timestamp, transactionHash } =
+          this.parseTrade({ marketSlug: slug, ...row });
+        return {
+          id: id || undefined,
+          marketId,
+          outcome,
+          side,
+          price,
+          size,
+          timestamp,
+          transactionHash,
+          metadata: row as Record<string, unknown>,
+        };
+      }),
+      next: last ? undefined : String(page + 1),
+    };
+  }
+
+  /** Yes prices from the venue's chart endpoint; the No side is their complement */
+  async fetchPriceHistory(
+    marketOrId: Market | string,
+    params: FetchPriceHistoryParams = {}
+  ): Promise<PricePoint[]> {
+    const market = typeof marketOrId === 'string' ? await this.fetchMarket(marketOrId) : marketOrId;
+    const { index } = this.selectOutcome(market, params.outcome);
+    const { since, until } = this.historyWindow(params);
+
+    const data = await this.withRetry(() =>
+      this.request<Array<{ prices?: Array<{ price?: number; timestamp?: number }> }>>(
+        'GET',
+        `/markets/${market.id}/historical-price`,
+        {
+          interval: params.interval === 'max' ? 'all' : (params.interval ?? '1m'),
+          from: since?.toISOString(),
+          to: until.toISOString(),
+        }
+      )
+    );
+
+    return (Array.isArray(data) ? (data[0]?.prices ?? []) : [])
+      .filter((p) => p.price != null && p.timestamp != null)
+      .map((p) => {
+        // Chart points are percentages stamped in milliseconds
+        const yes = (p.price ?? 0) / 100;
+        return {
+          timestamp: new Date(p.timestamp ?? 0),
+          price: index === 1 ? complementPrice(yes) : yes,
+          raw: p as Record<string, unknown>,
+        };
+      })
+      .filter((p) => (!since || p.timestamp >= since) && p.timestamp <= until)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  async fetchOrderbook(marketId: string, params: FetchOrderbookParams = {}): Promise<Orderbook> {
+    let tokenId: string;
+    let isNoToken: boolean;
+    if (params.tokenId && this.tokenToSlug.has(params.tokenId)) {
+      tokenId = params.tokenId;
+      isNoToken = this.noTokens.has(tokenId);
+    } else {
+      const token = await this.resolveOutcomeToken(marketId, params);
+      tokenId = token.tokenId;
+      isNoToken = token.index === 1;
+    }
+
+    // The venue only books the Yes side; the No book is its complement
+    const data = await this.getOrderbook(marketId);
+    const orderbook = OrderbookUtils.fromRestResponse(data, tokenId, marketId);
+    return OrderbookUtils.truncate(
+      isNoToken ? OrderbookUtils.invert(orderbook) : orderbook,
+      params.depth
+    );
+  }
+
+  /** @deprecated Use fetchOrderbook, which returns a normalized Orderbook */
   async getOrderbook(marketSlugOrTokenId: string): Promise<{
     bids: Array<{ price: string; size: string }>;
     asks: Array<{ price: string; size: string }>;
@@ -534,11 +861,11 @@ export class Limitless extends Exchange {
 
       if (isNoToken) {
         const invertedBids = asks.map((a) => ({
-          price: String(Math.round((1 - Number(a.price)) * 1000) / 1000),
+          price: String(complementPrice(a.price ?? 0)),
           size: a.size,
         }));
         const invertedAsks = bids.map((b) => ({
-          price: String(Math.round((1 - Number(b.price)) * 1000) / 1000),
+          price: String(complementPrice(b.price ?? 0)),
           size: b.size,
         }));
         invertedBids.sort((a, b) => Number(b.price) - Number(a.price));
@@ -551,6 +878,7 @@ export class Limitless extends Exchange {
   }
 
   async createOrder(params: CreateOrderParams): Promise<Order> {
+    const { type, timeInForce } = this.resolveOrderOptions(params);
     await this.ensureAuth();
 
     if (!this.wallet || !this.address) {
@@ -558,8 +886,7 @@ export class Limitless extends Exchange {
     }
 
     const market = await this.fetchMarket(params.marketId);
-    const tokens = (market.metadata?.tokens ?? {}) as Record<string, string>;
-    const tokenId = params.tokenId ?? tokens[params.outcome];
+    const tokenId = params.tokenId ?? MarketUtils.getTokenId(market, params.outcome);
 
     if (!tokenId) {
       throw new InvalidOrder(`Could not find token_id for outcome '${params.outcome}'`);
@@ -575,8 +902,9 @@ export class Limitless extends Exchange {
       throw new InvalidOrder('Market does not have venue.exchange address');
     }
 
-    const orderType = (params.params?.order_type as string)?.toUpperCase() ?? 'GTC';
-    const feeRateBps = 300;
+    // Limitless fills market orders as fill-or-kill
+    const orderType = type === OrderType.MARKET || timeInForce === TimeInForce.FOK ? 'FOK' : 'GTC';
+    const feeRateBps = market.feeRateBps ?? FEE_RATE_BPS;
 
     const signedOrder = await this.buildSignedOrder(
       tokenId,
@@ -645,36 +973,28 @@ export class Limitless extends Exchange {
     const oneDayMs = 1000 * 60 * 60 * 24;
     const salt = timestampMs * 1000 + nanoOffset + oneDayMs;
 
-    const sharesScale = 1_000_000;
-    const collateralScale = 1_000_000;
-    const priceScale = 1_000_000;
     const priceTick = 0.001;
+    const scale = 10n ** BigInt(USDC_DECIMALS);
 
-    let shares = Math.floor(size * sharesScale);
-    const priceInt = Math.floor(price * priceScale);
-    const tickInt = Math.floor(priceTick * priceScale);
+    // Shares, collateral and prices are all 6-decimal integers on-chain
+    let shares = toUnits(size, USDC_DECIMALS, 'floor');
+    const priceInt = toUnits(price, USDC_DECIMALS);
+    const tickInt = toUnits(priceTick, USDC_DECIMALS);
 
-    const sharesStep = Math.floor(priceScale / tickInt);
-    if (shares % sharesStep !== 0) {
-      shares = Math.floor(shares / sharesStep) * sharesStep;
-    }
-
-    const numerator = shares * priceInt * collateralScale;
-    const denominator = sharesScale * priceScale;
+    const sharesStep = scale / tickInt;
+    shares -= shares % sharesStep;
 
     const sideInt = side === OrderSide.BUY ? 0 : 1;
 
-    let makerAmount: number;
-    let takerAmount: number;
+    let makerAmount: bigint;
+    let takerAmount: bigint;
 
     if (side === OrderSide.BUY) {
-      const collateral = Math.ceil(numerator / denominator);
-      makerAmount = collateral;
+      makerAmount = mulDiv(shares, priceInt, scale, 'ceil');
       takerAmount = shares;
     } else {
-      const collateral = Math.floor(numerator / denominator);
       makerAmount = shares;
-      takerAmount = collateral;
+      takerAmount = mulDiv(shares, priceInt, scale, 'floor');
     }
 
     const orderForSigning = {
@@ -683,8 +1003,8 @@ export class Limitless extends Exchange {
       signer: this.address,
       taker: '0x0000000000000000000000000000000000000000',
       tokenId: BigInt(tokenId),
-      makerAmount: BigInt(makerAmount),
-      takerAmount: BigInt(takerAmount),
+      makerAmount,
+      takerAmount,
       expiration: BigInt(0),
       nonce: BigInt(0),
       feeRateBps: BigInt(feeRateBps),
@@ -700,8 +1020,8 @@ export class Limitless extends Exchange {
       signer: this.address,
       taker: '0x0000000000000000000000000000000000000000',
       tokenId,
-      makerAmount,
-      takerAmount,
+      makerAmount: Number(makerAmount),
+      takerAmount: Number(takerAmount),
       expiration: '0',
       nonce: 0,
       feeRateBps,
@@ -711,7 +1031,7 @@ export class Limitless extends Exchange {
     };
 
     if (orderType === 'GTC') {
-      order.price = Math.round(price * 1000) / 1000;
+      order.price = roundToTickSize(price, priceTick);
     }
 
     return order;
@@ -813,21 +1133,7 @@ export class Limitless extends Exchange {
       endpoint = '/orders';
     }
 
-    let tokenToOutcome: Map<string, string> | undefined;
-    if (marketId) {
-      try {
-        const market = await this.fetchMarket(marketId);
-        const tokens = (market.metadata?.tokens ?? {}) as Record<string, string>;
-        tokenToOutcome = new Map();
-        for (const [outcome, tokenId] of Object.entries(tokens)) {
-          if (tokenId) {
-            tokenToOutcome.set(tokenId, outcome);
-          }
-        }
-      } catch {
-        tokenToOutcome = undefined;
-      }
-    }
+    const tokenToOutcome = marketId ? await this.tokenOutcomes(marketId) : undefined;
 
     return this.withRetry(async () => {
       const response = await this.request<{ data?: RawOrder[] } | RawOrder[]>(
@@ -843,6 +1149,74 @@ export class Limitless extends Exchange {
     });
   }
 
+  async fetchMyTrades(params: FetchMyTradesParams = {}): Promise<Trade[]> {
+    await this.ensureAuth();
+
+    // The portfolio feed returns the whole history in one response
+    return this.collectTrades(
+      () =>
+        this.withRetry(async () => {
+          const response = await this.request<{ data?: RawTrade[] } | RawTrade[]>(
+            'GET',
+            '/portfolio/trades',
+            undefined,
+            true
+          );
+
+          const tradesData = Array.isArray(response) ? response : (response.data ?? []);
+          const trades = tradesData
+            .map((t) => this.parseTrade(t))
+            .filter((t) => !params.marketId || t.marketId === params.marketId)
+            .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+          return { items: trades };
+        }),
+      params
+    );
+  }
+
+  async fetchOrders(params: FetchOrdersParams = {}): Promise<Order[]> {
+    await this.ensureAuth();
+
+    const { marketId } = params;
+    const query: Record<string, unknown> = {};
+    if (params.status !== undefined) {
+      const statuses = [params.status].flat().map((status) => ORDER_STATUSES[status]);
+      query.statuses = [...new Set(statuses)].join(',');
+    }
+
+    const endpoint = marketId ? `/markets/${marketId}/user-orders` : '/orders';
+    const tokenToOutcome = marketId ? await this.tokenOutcomes(marketId) : undefined;
+
+    return this.collectOrders(
+      () =>
+        this.withRetry(async () => {
+          const response = await this.request<{ data?: RawOrder[] } | RawOrder[]>(
+            'GET',
+            endpoint,
+            query,
+            true
+          );
+
+          const ordersData = Array.isArray(response) ? response : (response.data ?? []);
+          const orders = ordersData
+            .map((o) => this.parseOrder(o, tokenToOutcome))
+            .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+          return { items: orders };
+        }),
+      params
+    );
+  }
+
+  /** Outcome name for each of a market's token ids, or undefined when the market cannot load */
+  private async tokenOutcomes(marketId: string): Promise<Map<string, string> | undefined> {
+    try {
+      const market = await this.fetchMarket(marketId);
+      return new Map(market.outcomeTokens.map((token) => [token.tokenId, token.outcome]));
+    } catch {
+      return undefined;
+    }
+  }
+
   async fetchPositions(marketId?: string): Promise<Position[]> {
     await this.ensureAuth();
 
@@ -871,68 +1245,64 @@ export class Limitless extends Exchange {
     });
   }
 
-  async fetchBalance(): Promise<Record<string, number>> {
+  /** USDC held by the wallet on Base; resting buy orders are reserved but not escrowed */
+  async fetchBalance(): Promise<Balance> {
     await this.ensureAuth();
 
-    if (!this.address) {
+    const address = this.address;
+    if (!address) {
       throw new AuthenticationError('Wallet address not available');
     }
 
+    const [onChain, trading, used] = await Promise.all([
+      this.usdcBalance(address).catch((error: unknown) => error as Error),
+      this.request<{ balance?: number; allowance?: number }>(
+        'GET',
+        '/portfolio/trading/allowance',
+        { type: 'clob' },
+        true
+      ).catch((error: unknown) => error as Error),
+      this.openOrderCollateral(),
+    ]);
+
+    // Each source covers an outage of the other; without either there is no balance to report
+    const api = trading instanceof Error ? undefined : trading;
+    const total = typeof onChain === 'number' ? onChain : api?.balance;
+    if (total === undefined) {
+      throw onChain instanceof Error ? onChain : trading;
+    }
+
+    const reserved = Math.min(used, total);
+    return {
+      USDC: { free: total - reserved, used: reserved, total, allowance: api?.allowance },
+    };
+  }
+
+  private async usdcBalance(address: string): Promise<number> {
     const usdcAddress = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
     const baseRpc = 'https://mainnet.base.org';
+    const data = `0x70a08231000000000000000000000000${address.slice(2).toLowerCase()}`;
 
-    try {
-      const data = `0x70a08231000000000000000000000000${this.address.slice(2).toLowerCase()}`;
-
-      const response = await fetch(baseRpc, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          method: 'eth_call',
-          params: [{ to: usdcAddress, data }, 'latest'],
-          id: 1,
-        }),
-      });
-
-      const result = (await response.json()) as { result?: string };
-      const balanceHex = result.result ?? '0x0';
-      const balanceWei = Number.parseInt(balanceHex, 16);
-      const usdcBalance = balanceWei / 10 ** 6;
+    const response = await this.httpFetch(baseRpc, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        method: 'eth_call',
+        params: [{ to: usdcAddress, data }, 'latest'],
+        id: 1,
+      }),
+    });
 
-      return { USDC: usdcBalance };
-    } catch {
-      try {
-        const response = await this.request<{ balance?: number; allowance?: number }>(
-          'GET',
-          '/portfolio/trading/allowance',
-          { type: 'clob' },
-          true
-        );
-        const balance = response.balance ?? response.allowance ?? 0;
-        return { USDC: balance };
-      } catch {
-        return { USDC: 0 };
-      }
+    if (!response.ok) {
+      throw new NetworkError(`Base RPC HTTP ${response.status}`);
     }
-  }
 
-  override describe() {
-    return {
-      id: this.id,
-      name: this.name,
-      has: {
-        fetchMarkets: true,
-        fetchMarket: true,
-        createOrder: true,
-        cancelOrder: true,
-        fetchOrder: true,
-        fetchOpenOrders: true,
-        fetchPositions: true,
-        fetchBalance: true,
-        websocket: true,
-      },
-    };
+    const result = (await response.json()) as { result?: string; error?: { message?: string } };
+    if (!result.result) {
+      throw new NetworkError(`Base RPC error: ${result.error?.message ?? 'empty result'}`);
+    }
+    return fromUnits(BigInt(result.result), USDC_DECIMALS);
   }
 }
 
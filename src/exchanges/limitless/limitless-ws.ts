@@ -2,6 +2,7 @@ import { EventEmitter } from 'node:events';
 import { io, type Socket } from 'socket.io-client';
 import { type OrderbookCallback, WebSocketState } from '../../core/websocket.js';
 import { OrderbookManager } from '../../types/orderbook.js';
+import { complementPrice } from '../../utils/price.js';
 
 const WS_URL = 'wss://ws.limitless.exchange';
 const NAMESPACE = '/markets';
@@ -428,11 +429,11 @@ export class LimitlessWebSocket extends EventEmitter {
 
       if (noToken) {
         const noBids: [number, number][] = update.asks.map(([price, size]) => [
-          Math.round((1 - price) * 1000) / 1000,
+          complementPrice(price),
           size,
         ]);
         const noAsks: [number, number][] = update.bids.map(([price, size]) => [
-          Math.round((1 - price) * 1000) / 1000,
+          complementPrice(price),
           size,
         ]);
         noBids.sort((a, b) => b[0] - a[0]);
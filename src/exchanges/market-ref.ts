@@ -0,0 +1,80 @@
+/**
+ * Parsing of market references pasted from anywhere: venue URLs, slugs, tickers, condition IDs
+ * and namespaced strings such as `kalshi:INXD-24DEC31-B5000`.
+ */
+
+/** What a reference names: an event, a single market, or either depending on the venue */
+export type MarketRefKind = 'event' | 'market' | 'unknown';
+
+export interface MarketRef {
+  /** Exchange ID, when the reference identifies its venue */
+  exchange?: string;
+  /** Identifier in the venue's own terms: slug, ticker, condition ID or numeric ID */
+  id: string;
+  kind: MarketRefKind;
+}
+
+/** Web hosts of each exchange, matched with or without subdomains such as `www.` or `app.` */
+const EXCHANGE_HOSTS: Record<string, string> = {
+  'polymarket.com': 'polymarket',
+  'kalshi.com': 'kalshi',
+  'limitless.exchange': 'limitless',
+  'opinion.trade': 'opinion',
+  'predict.fun': 'predictfun',
+};
+
+const EXCHANGE_IDS = new Set(Object.values(EXCHANGE_HOSTS));
+const CONDITION_ID = /^0x[0-9a-f]{64}$/i;
+const KALSHI_TICKER = /^[A-Z][A-Z0-9]*(?:-[A-Z0-9.]+)+$/;
+
+/** Work out which exchange and which event or market a reference points to */
+export function parseMarketRef(ref: string): MarketRef {
+  const text = ref.trim();
+
+  if (/^https?:\/\//i.test(text)) {
+    return parseUrl(new URL(text));
+  }
+
+  const separator = text.indexOf(':');
+  const prefix = text.slice(0, separator).toLowerCase();
+  if (separator > 0 && EXCHANGE_IDS.has(prefix)) {
+    return { ...parseBare(text.slice(separator + 1)), exchange: prefix };
+  }
+
+  return parseBare(text);
+}
+
+function parseBare(id: string): MarketRef {
+  if (CONDITION_ID.test(id)) return { exchange: 'polymarket', id, kind: 'market' };
+  if (KALSHI_TICKER.test(id)) return { exchange: 'kalshi', id, kind: 'unknown' };
+  return { id, kind: 'unknown' };
+}
+
+function parseUrl(url: URL): MarketRef {
+  const host = url.hostname.toLowerCase();
+  const domain = Object.keys(EXCHANGE_HOSTS).find((d) => host === d || host.endsWith(`.${d}`));
+  const exchange = domain ? EXCHANGE_HOSTS[domain] : undefined;
+  const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  const last = segments[segments.length - 1] ?? '';
+
+  switch (exchange) {
+    case 'polymarket': {
+      // /event/<event-slug>[/<market-slug>] or /market/<market-slug>
+      const [section, slug, marketSlug] = segments;
+      if (section === 'event' && marketSlug) return { exchange, id: marketSlug, kind: 'market' };
+      if (section === 'event' && slug) return { exchange, id: slug, kind: 'event' };
+      return { exchange, id: slug ?? last, kind: section === 'market' ? 'market' : 'unknown' };
+    }
+    case 'kalshi':
+      // /markets/<series>/<title-slug>/<ticker>; the trailing ticker may be an event or a market
+      return { exchange, id: last.toUpperCase(), kind: 'unknown' };
+    case 'opinion':
+      return { exchange, id: url.searchParams.get('topicId') ?? last, kind: 'event' };
+    case 'limitless':
+    case 'predictfun':
+      // Both venues serve standalone markets and market groups from the same page
+      return { exchange, id: last, kind: 'event' };
+    default:
+      return { id: last, kind: 'unknown' };
+  }
+}
@@ -1,5 +1,6 @@
 import { Wallet } from 'ethers';
 import { Exchange, type ExchangeConfig } from '../../core/exchange.js';
+import type { RateLimits } from '../../core/rate-limiter.js';
 import {
   AuthenticationError,
   ExchangeError,
@@ -8,19 +9,50 @@ import {
   NetworkError,
 } from '../../errors/index.js';
 import {
+  type Balance,
   type CreateOrderParams,
+  type Event,
+  type FetchEventsParams,
   type FetchMarketsParams,
+  type FetchMyTradesParams,
+  type FetchOrderbookParams,
+  type FetchOrdersParams,
+  type FetchPriceHistoryParams,
+  type FetchPublicTradesParams,
+  LiquidityRole,
   type Market,
+  MarketStatus,
   type Order,
+  type Orderbook,
+  OrderbookUtils,
   OrderSide,
   OrderStatus,
+  OrderType,
+  type OutcomeToken,
   type Position,
+  type PricePoint,
+  type PublicTrade,
+  type Trade,
 } from '../../types/index.js';
+import { toDecimalString } from '../../utils/index.js';
 
 const BASE_URL = 'https://openapi.opinion.trade';
+const WEB_URL = 'https://app.opinion.trade';
 const CHAIN_ID = 56;
 
 const MARKET_TYPE_ALL = 2;
+const MARKETS_PAGE_SIZE = 20;
+const ORDERS_PAGE_SIZE = 100;
+const TRADES_PAGE_SIZE = 100;
+
+/** Opinion's numeric order status for each unified status it reports */
+const ORDER_STATUSES: Partial<Record<OrderStatus, number>> = {
+  [OrderStatus.PENDING]: 0,
+  [OrderStatus.OPEN]: 1,
+  [OrderStatus.FILLED]: 2,
+  [OrderStatus.PARTIALLY_FILLED]: 3,
+  [OrderStatus.CANCELLED]: 4,
+};
 
 interface OpinionConfig extends ExchangeConfig {
   apiKey?: string;
@@ -67,6 +99,10 @@ interface RawMarket {
   cutoff_time?: number;
   status?: string | number;
   statusEnum?: string;
+  result_token_id?: string;
+  resultTokenId?: string;
+  resolved_at?: number;
+  resolvedAt?: number;
   condition_id?: string;
   conditionId?: string;
   child_markets?: RawMarket[];
@@ -113,6 +149,31 @@ interface RawPosition {
   price?: number;
 }
 
+interface RawTrade {
+  trade_no?: string;
+  id?: string;
+  order_no?: string;
+  order_id?: string;
+  topic_id?: string | number;
+  market_id?: string | number;
+  outcome?: string;
+  side?: number | string;
+  side_enum?: string;
+  price?: string | number;
+  shares?: string | number;
+  amount?: string | number;
+  fee?: string | number;
+  is_maker?: boolean;
+  tx_hash?: string;
+  created_at?: number | string;
+}
+
+interface RawBalance {
+  available_balance?: number | string;
+  frozen_balance?: number | string;
+  total_balance?: number | string;
+}
+
 interface RawOrderbookLevel {
   price?: number | string;
   size?: number | string;
@@ -122,6 +183,13 @@ export class Opinion extends Exchange {
   readonly id = 'opinion';
   readonly name = 'Opinion';
 
+  protected override readonly rateLimits: RateLimits = {
+    public: { rate: 10 },
+    private: { rate: 5 },
+  };
+
+  protected override readonly orderTypes = [OrderType.LIMIT, OrderType.MARKET];
+
   private readonly apiKey: string;
   private readonly multiSigAddr: string;
   private readonly chainId: number;
@@ -145,6 +213,9 @@ export class Opinion extends Exchange {
     endpoint: string,
     params?: Record<string, unknown>
   ): Promise<ApiResponse<T>> {
+    const scope = endpoint.startsWith('/openapi') ? 'public' : 'private';
+    await this.throttle(scope, this.endpointWeight(endpoint, method));
+
     const url = new URL(`${this.host}${endpoint}`);
 
     if (method === 'GET' && params) {
@@ -172,12 +243,13 @@ export class Opinion extends Exchange {
       fetchOptions.body = JSON.stringify(params);
     }
 
-    const response = await fetch(url.toString(), fetchOptions);
+    const response = await this.httpFetch(url.toString(), fetchOptions);
+
+    if (response.status === 429) {
+      throw this.rateLimitError(response, scope);
+    }
 
     if (!response.ok) {
-      if (response.status === 429) {
-        throw new NetworkError('Rate limited');
-      }
       if (response.status === 401 || response.status === 403) {
         throw new AuthenticationError('Authentication failed');
       }
@@ -187,6 +259,14 @@ export class Opinion extends Exchange {
     return response.json() as Promise<ApiResponse<T>>;
   }
 
+  private ensureApiKey(): void {
+    if (!this.apiKey) {
+      throw new AuthenticationError(
+        'Opinion API requires an API key for all requests. Please provide apiKey in config.'
+      );
+    }
+  }
+
   private ensureAuth(): void {
     if (!this.apiKey || !this.wallet || !this.multiSigAddr) {
       throw new AuthenticationError('API key, private key, and multiSigAddr required');
@@ -200,7 +280,7 @@ export class Opinion extends Exchange {
     const question = data.marketTitle ?? data.market_title ?? data.title ?? data.question ?? '';
 
     let outcomes: string[] = [];
-    const tokenIds: string[] = [];
+    const outcomeTokens: OutcomeToken[] = [];
     const prices: Record<string, number> = {};
 
     const yesTokenId = String(data.yesTokenId ?? data.yes_token_id ?? '');
@@ -212,14 +292,17 @@ export class Opinion extends Exchange {
 
     if (yesTokenId && noTokenId) {
       outcomes = [yesLabel, noLabel];
-      tokenIds.push(yesTokenId, noTokenId);
+      outcomeTokens.push(
+        { outcome: yesLabel, tokenId: yesTokenId },
+        { outcome: noLabel, tokenId: noTokenId }
+      );
     } else if (childMarkets.length > 0) {
       for (const child of childMarkets) {
         const childTitle = child.marketTitle ?? child.market_title ?? '';
         const childYesToken = String(child.yesTokenId ?? child.yes_token_id ?? '');
         if (childTitle && childYesToken) {
           outcomes.push(childTitle);
-          tokenIds.push(childYesToken);
+          outcomeTokens.push({ outcome: childTitle, tokenId: childYesToken });
         }
       }
     }
@@ -240,8 +323,17 @@ export class Opinion extends Exchange {
     const tickSize = 0.001;
 
     const statusValue = data.statusEnum ?? data.status;
-    const isResolved =
-      statusValue === 'RESOLVED' || statusValue === 'Resolved' || statusValue === 3;
+    const statusText = String(statusValue ?? '').toLowerCase();
+    let status: MarketStatus = MarketStatus.OPEN;
+    if (statusText === 'resolved' || statusValue === 3) {
+      status = MarketStatus.RESOLVED;
+    } else if (statusText === 'resolving') {
+      status = MarketStatus.CLOSED;
+    }
+
+    const resultTokenId = data.resultTokenId ?? data.result_token_id;
+    const resolvedAt = data.resolvedAt ?? data.resolved_at;
+    const description = data.description ?? data.rules ?? '';
 
     const metadata: Record<string, unknown> = {
       topic_id: marketId,
@@ -249,14 +341,8 @@ export class Opinion extends Exchange {
       condition_id: data.conditionId ?? data.condition_id ?? '',
       status: statusValue ?? '',
       chain_id: this.chainId,
-      clobTokenIds: tokenIds,
-      token_ids: tokenIds,
-      tokens: Object.fromEntries(outcomes.map((o, i) => [o, tokenIds[i] ?? ''])),
-      description: data.description ?? data.rules ?? '',
-      category: data.category ?? '',
       image_url: data.imageUrl ?? data.image_url ?? '',
       minimum_tick_size: tickSize,
-      closed: isResolved,
     };
 
     return {
@@ -268,11 +354,42 @@ export class Opinion extends Exchange {
       liquidity,
       prices,
       tickSize,
-      description: String(metadata.description ?? ''),
+      description,
+      status,
+      outcomeTokens,
+      category: data.category || undefined,
+      url: marketId ? `${WEB_URL}/detail?topicId=${marketId}` : undefined,
+      resolution:
+        status === MarketStatus.RESOLVED
+          ? this.settledResolution(
+              outcomes,
+              outcomeTokens.find((token) => token.tokenId === resultTokenId)?.outcome,
+              resolvedAt ? new Date(resolvedAt * 1000) : undefined
+            )
+          : undefined,
       metadata,
     };
   }
 
+  private parseEvent(data: RawMarket): Event {
+    const topic = this.parseMarket(data);
+    const children = data.childMarkets ?? data.child_markets ?? [];
+    const markets = children.length ? children.map((child) => this.parseMarket(child)) : [topic];
+
+    return {
+      id: topic.id,
+      title: topic.question,
+      description: topic.description,
+      url: topic.url,
+      category: topic.category,
+      // Exactly one outcome of a categorical topic resolves Yes
+      mutuallyExclusive: children.length > 0,
+      negRisk: false,
+      markets: markets.map((market) => ({ ...market, eventId: topic.id })),
+      metadata: topic.metadata,
+    };
+  }
+
   private parseOrder(data: RawOrder): Order {
     const orderId = String(data.order_id ?? data.id ?? data.orderID ?? '');
     const marketId = String(data.topic_id ?? data.market_id ?? '');
@@ -324,6 +441,11 @@ export class Opinion extends Exchange {
           : new Date(data.created_at);
     }
 
+    const updatedAt =
+      typeof data.updated_at === 'number'
+        ? new Date(data.updated_at * 1000)
+        : this.parseDateTime(data.updated_at);
+
     return {
       id: orderId,
       marketId,
@@ -334,6 +456,41 @@ export class Opinion extends Exchange {
       filled,
       status,
       createdAt,
+      updatedAt,
+    };
+  }
+
+  private parseTrade(data: RawTrade): Trade {
+    let side: OrderSide;
+    if (data.side_enum) {
+      side = data.side_enum.toLowerCase() === 'buy' ? OrderSide.BUY : OrderSide.SELL;
+    } else if (typeof data.side === 'string') {
+      side = data.side.toLowerCase() === 'buy' ? OrderSide.BUY : OrderSide.SELL;
+    } else {
+      side = data.side === 1 ? OrderSide.BUY : OrderSide.SELL;
+    }
+
+    const createdAt = data.created_at;
+    const timestamp =
+      typeof createdAt === 'number' ? new Date(createdAt * 1000) : this.parseDateTime(createdAt);
+
+    return {
+      id: String(data.trade_no ?? data.id ?? ''),
+      orderId: data.order_no ?? data.order_id,
+      marketId: String(data.topic_id ?? data.market_id ?? ''),
+      outcome: data.outcome ?? '',
+      side,
+      price: Number(data.price ?? 0),
+      size: Number(data.shares ?? data.amount ?? 0),
+      fee: Number(data.fee ?? 0),
+      role:
+        data.is_maker === undefined
+          ? undefined
+          : data.is_maker
+            ? LiquidityRole.MAKER
+            : LiquidityRole.TAKER,
+      transactionHash: data.tx_hash,
+      timestamp: timestamp ?? new Date(0),
     };
   }
 
@@ -348,41 +505,116 @@ export class Opinion extends Exchange {
   }
 
   async fetchMarkets(params?: FetchMarketsParams): Promise<Market[]> {
-    if (!this.apiKey) {
+    this.ensureApiKey();
+
+    return this.withRetry(async () => {
+      const page = params?.offset ? Math.floor(params.offset / MARKETS_PAGE_SIZE) + 1 : 1;
+      const limit = Math.min(params?.limit ?? 10, MARKETS_PAGE_SIZE);
+      const { markets } = await this.fetchMarketsPage(params, page, limit);
+
+      if (params?.limit) {
+        return markets.slice(0, params.limit);
+      }
+      return markets;
+    });
+  }
+
+  override paginateMarkets(params: FetchMarketsParams = {}): AsyncGenerator<Market> {
+    const firstPage = params.offset ? Math.floor(params.offset / MARKETS_PAGE_SIZE) + 1 : 1;
+
+    return this.paginate<Market, number>((page = firstPage) => {
+      this.ensureApiKey();
+      return this.withRetry(async () => {
+        const { markets, total } = await this.fetchMarketsPage(params, page, MARKETS_PAGE_SIZE);
+        const hasMore =
+          markets.length === MARKETS_PAGE_SIZE &&
+          (total === undefined || page * MARKETS_PAGE_SIZE < total);
+        return { items: markets, next: hasMore ? page + 1 : undefined };
+      });
+    }, params.limit);
+  }
+
+  private async fetchMarketsPage(
+    params: FetchMarketsParams | undefined,
+    page: number,
+    limit: number
+  ): Promise<{ markets: Market[]; total?: number }> {
+    const { list, total } = await this.fetchRawMarkets(params, page, limit);
+    return { markets: list.map((m) => this.parseMarket(m)), total };
+  }
+
+  private async fetchRawMarkets(
+    params: FetchMarketsParams | undefined,
+    page: number,
+    limit: number
+  ): Promise<{ list: RawMarket[]; total?: number }> {
+    const queryParams: Record<string, unknown> = {
+      marketType: MARKET_TYPE_ALL,
+      status: params?.active === false ? 'resolved' : 'activated',
+      page,
+      limit,
+    };
+
+    const response = await this.request<RawMarket>('GET', '/openapi/market', queryParams);
+
+    if (response.message?.includes('No API key') || response.message === 'Unauthorized') {
       throw new AuthenticationError(
-        'Opinion API requires an API key for all requests. Please provide apiKey in config.'
+        `Opinion API authentication failed: ${response.message}. Check your API key.`
       );
     }
 
-    return this.withRetry(async () => {
-      const queryParams: Record<string, unknown> = {
-        marketType: MARKET_TYPE_ALL,
-        status: params?.active === false ? 'resolved' : 'activated',
-        page: params?.offset ? Math.floor(params.offset / 20) + 1 : 1,
-        limit: Math.min(params?.limit ?? 10, 20),
-      };
+    const errorCode = response.errno ?? response.code;
+    if (errorCode !== 0) {
+      const errorMsg = response.errmsg ?? response.msg ?? response.message ?? 'Unknown error';
+      throw new ExchangeError(`Failed to fetch markets: ${errorMsg}`);
+    }
 
-      const response = await this.request<RawMarket>('GET', '/openapi/market', queryParams);
+    return { list: response.result?.list ?? [], total: response.result?.total };
+  }
 
-      if (response.message?.includes('No API key') || response.message === 'Unauthorized') {
-        throw new AuthenticationError(
-          `Opinion API authentication failed: ${response.message}. Check your API key.`
-        );
-      }
+  /** Topics as events: a categorical topic's child markets, or a binary topic on its own */
+  override async fetchEvents(params: FetchEventsParams = {}): Promise<Event[]> {
+    this.ensureApiKey();
+    const { offset = 0, limit = 10 } = params;
+    const firstPage = Math.floor(offset / MARKETS_PAGE_SIZE) + 1;
+
+    return this.collectWindow<Event, number>(
+      (page = firstPage) =>
+        this.withRetry(async () => {
+          const { list, total } = await this.fetchRawMarkets(params, page, MARKETS_PAGE_SIZE);
+          const hasMore =
+            list.length === MARKETS_PAGE_SIZE &&
+            (total === undefined || page * MARKETS_PAGE_SIZE < total);
+          return {
+            items: list.map((m) => this.parseEvent(m)),
+            next: hasMore ? page + 1 : undefined,
+          };
+        }),
+      offset % MARKETS_PAGE_SIZE,
+      limit
+    );
+  }
 
-      const errorCode = response.errno ?? response.code;
-      if (errorCode !== 0) {
-        const errorMsg = response.errmsg ?? response.msg ?? response.message ?? 'Unknown error';
-        throw new ExchangeError(`Failed to fetch markets: ${errorMsg}`);
-      }
+  override async fetchEvent(eventId: string): Promise<Event> {
+    this.ensureApiKey();
 
-      const marketsList = response.result?.list ?? [];
-      const markets = marketsList.map((m) => this.parseMarket(m));
+    // Binary topics are not served by the categorical endpoint, which answers them with an error
+    const categorical = await this.withRetry(() =>
+      this.request<RawMarket>('GET', `/openapi/market/categorical/${eventId}`).catch((error) => {
+        if (error instanceof NetworkError) return null;
+        throw error;
+      })
+    );
+    if (categorical?.code === 0 && categorical.result?.data) {
+      return this.parseEvent(categorical.result.data);
+    }
 
-      if (params?.limit) {
-        return markets.slice(0, params.limit);
+    return this.withRetry(async () => {
+      const binary = await this.request<RawMarket>('GET', `/openapi/market/${eventId}`);
+      if (binary.code !== 0 || !binary.result?.data) {
+        throw new MarketNotFound(`Event ${eventId} not found`);
       }
-      return markets;
+      return this.parseEvent(binary.result.data);
     });
   }
 
@@ -398,6 +630,99 @@ export class Opinion extends Exchange {
     });
   }
 
+  /** A market's trade feed, paged by page number; there is no exchange-wide tape */
+  protected override async fetchPublicTradesPage(
+    params: FetchPublicTradesParams,
+    cursor?: string
+  ): Promise<{ items: PublicTrade[]; next?: string }> {
+    this.ensureApiKey();
+    if (!params.market) {
+      throw new ExchangeError('Opinion serves public trades per market; pass `market`');
+    }
+    const marketId = typeof params.market === 'string' ? params.market : params.market.id;
+    const limit = Math.min(params.limit ?? TRADES_PAGE_SIZE, TRADES_PAGE_SIZE);
+    const page = Number(cursor ?? 1);
+
+    return this.withRetry(async () => {
+      const response = await this.request<RawTrade>('GET', `/openapi/trade/market/${marketId}`, {
+        page,
+        limit,
+      });
+
+      if (response.code !== 0) {
+        throw new ExchangeError(`Failed to fetch trades: ${response.msg}`);
+      }
+
+      const rows = response.result?.list ?? [];
+      return {
+        items: rows.map((row) => {
+          const { id, outcome, side, price, size, timestamp, transactionHash } =
+            this.parseTrade(row);
+          return {
+            id: id || undefined,
+            marketId,
+            outcome,
+            side,
+            price,
+            size,
+            timestamp,
+            transactionHash,
+            metadata: row as Record<string, unknown>,
+          };
+        }),
+        next: rows.length < limit ? undefined : String(page + 1),
+      };
+    });
+  }
+
+  async fetchPriceHistory(
+    marketOrId: Market | string,
+    params: FetchPriceHistoryParams = {}
+  ): Promise<PricePoint[]> {
+    this.ensureApiKey();
+
+    const market = typeof marketOrId === 'string' ? await this.fetchMarket(marketOrId) : marketOrId;
+    const { tokenId } = this.selectOutcome(market, params.outcome);
+    const { since, until } = this.historyWindow(params);
+
+    return this.withRetry(async () => {
+      const response = await this.request('GET', '/openapi/token/price-history', {
+        token_id: tokenId,
+        interval: params.interval ?? '1m',
+        fidelity: params.fidelity ?? 10,
+        start_at: since ? Math.floor(since.getTime() / 1000) : undefined,
+        end_at: Math.floor(until.getTime() / 1000),
+      });
+
+      if (response.code !== 0) {
+        const errorMsg = response.errmsg ?? response.msg ?? response.message ?? 'Unknown error';
+        throw new ExchangeError(`Failed to fetch price history: ${errorMsg}`);
+      }
+
+      const result = response.result as unknown as {
+        history?: Array<{ t?: number; p?: number | string }>;
+      };
+      return (result?.history ?? [])
+        .filter((h) => h.t != null && h.p != null)
+        .map((h) => ({
+          timestamp: new Date((h.t ?? 0) * 1000),
+          price: Number(h.p),
+          raw: h as Record<string, unknown>,
+        }))
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    });
+  }
+
+  async fetchOrderbook(marketId: string, params: FetchOrderbookParams = {}): Promise<Orderbook> {
+    const tokenId = params.tokenId ?? (await this.resolveOutcomeToken(marketId, params)).tokenId;
+    const data = await this.getOrderbook(tokenId);
+    return OrderbookUtils.truncate(
+      OrderbookUtils.fromRestResponse(data, tokenId, marketId),
+      params.depth
+    );
+  }
+
+  /** @deprecated Use fetchOrderbook, which returns a normalized Orderbook */
   async getOrderbook(tokenId: string): Promise<{
     bids: Array<{ price: string; size: string }>;
     asks: Array<{ price: string; size: string }>;
@@ -443,6 +768,7 @@ export class Opinion extends Exchange {
 
   async createOrder(params: CreateOrderParams): Promise<Order> {
     this.ensureAuth();
+    const { type } = this.resolveOrderOptions(params);
 
     const tokenId = params.tokenId ?? (params.params?.token_id as string | undefined);
     if (!tokenId) {
@@ -458,9 +784,9 @@ export class Opinion extends Exchange {
         market_id: Number(params.marketId),
         token_id: tokenId,
         side: params.side === OrderSide.BUY ? 1 : 2,
-        price: String(params.price),
-        size: String(params.size),
-        order_type: 'LIMIT',
+        price: toDecimalString(params.price),
+        size: toDecimalString(params.size),
+        order_type: type === OrderType.MARKET ? 'MARKET' : 'LIMIT',
       };
 
       const response = await this.request<{ order_id?: string }>(
@@ -552,6 +878,64 @@ export class Opinion extends Exchange {
     });
   }
 
+  async fetchMyTrades(params: FetchMyTradesParams = {}): Promise<Trade[]> {
+    this.ensureAuth();
+
+    return this.collectTrades<number>(
+      (page = 1) =>
+        this.withRetry(async () => {
+          const query: Record<string, unknown> = { page, limit: TRADES_PAGE_SIZE };
+          if (params.marketId) {
+            query.market_id = Number(params.marketId);
+          }
+
+          const response = await this.request<RawTrade>('GET', '/api/v1/trades', query);
+
+          if (response.code !== 0) {
+            throw new ExchangeError(`Failed to fetch trades: ${response.msg}`);
+          }
+
+          const tradesList = response.result?.list ?? [];
+          const next = tradesList.length < TRADES_PAGE_SIZE ? undefined : page + 1;
+          return { items: tradesList.map((t) => this.parseTrade(t)), next };
+        }),
+      params
+    );
+  }
+
+  async fetchOrders(params: FetchOrdersParams = {}): Promise<Order[]> {
+    this.ensureAuth();
+
+    // Opinion filters on one status at a time; wider queries are filtered after parsing
+    const statuses = params.status === undefined ? [] : [params.status].flat();
+    const venueStatuses = new Set(statuses.map((status) => ORDER_STATUSES[status]));
+    const venueStatus = venueStatuses.size === 1 ? [...venueStatuses][0] : undefined;
+
+    return this.collectOrders<number>(
+      (page = 1) =>
+        this.withRetry(async () => {
+          const query: Record<string, unknown> = { page, limit: ORDERS_PAGE_SIZE };
+          if (venueStatus !== undefined) {
+            query.status = String(venueStatus);
+          }
+          if (params.marketId) {
+            query.market_id = Number(params.marketId);
+          }
+
+          const response = await this.request<RawOrder>('GET', '/api/v1/orders', query);
+
+          if (response.code !== 0) {
+            throw new ExchangeError(`Failed to fetch orders: ${response.msg}`);
+          }
+
+          const ordersList = response.result?.list ?? [];
+          const next = ordersList.length < ORDERS_PAGE_SIZE ? undefined : page + 1;
+          return { items: ordersList.map((o) => this.parseOrder(o)), next };
+        }),
+      params
+    );
+  }
+
   async fetchPositions(marketId?: string): Promise<Position[]> {
     this.ensureAuth();
 
@@ -576,48 +960,27 @@ export class Opinion extends Exchange {
     });
   }
 
-  async fetchBalance(): Promise<Record<string, number>> {
+  async fetchBalance(): Promise<Balance> {
     this.ensureAuth();
 
     return this.withRetry(async () => {
-      const response = await this.request<{ balances?: Array<{ available_balance?: number }> }>(
-        'GET',
-        '/api/v1/balances'
-      );
+      const response = await this.request<{ balances?: RawBalance[] }>('GET', '/api/v1/balances');
 
       if (response.code !== 0) {
         throw new ExchangeError(`Failed to fetch balance: ${response.msg}`);
       }
 
-      const result = response.result as unknown as {
-        balances?: Array<{ available_balance?: number }>;
-      };
-      const balances = result?.balances ?? [];
+      const result = response.result as unknown as { balances?: RawBalance[] };
+      const balance = result?.balances?.[0] ?? {};
 
-      if (balances.length > 0) {
-        const balance = balances[0]?.available_balance ?? 0;
-        return { USDC: balance };
-      }
+      // Opinion escrows collateral for open orders as a frozen balance
+      const free = Number(balance.available_balance ?? 0);
+      const used = Number(balance.frozen_balance ?? 0);
+      const total = Number(balance.total_balance ?? free + used);
 
-      return { USDC: 0 };
+      return { USDC: { free, used, total } };
     });
   }
-
-  override describe() {
-    return {
-      id: this.id,
-      name: this.name,
-      has: {
-        fetchMarkets: true,
-        fetchMarket: true,
-        createOrder: true,
-        cancelOrder: true,
-        fetchOrder: true,
-        fetchOpenOrders: true,
-        fetchPositions: true,
-        fetchBalance: true,
-        websocket: false,
-      },
-    };
-  }
 }
+
+export { OpinionOrderbookStream, type OpinionStreamConfig } from './opinion-stream.js';
@@ -0,0 +1,14 @@
+import { PollingOrderBookStream, type PollingStreamConfig } from '../../core/polling-stream.js';
+import type { Opinion } from './index.js';
+
+export type OpinionStreamConfig = PollingStreamConfig;
+
+/**
+ * Streams Opinion orderbooks by polling `fetchOrderbook` for each watched market, with the same
+ * `watchOrderbook` callbacks as the WebSocket clients.
+ */
+export class OpinionOrderbookStream extends PollingOrderBookStream {
+  constructor(exchange: Opinion, config: OpinionStreamConfig = {}) {
+    super(exchange, config);
+  }
+}
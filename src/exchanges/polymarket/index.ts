@@ -1,2 +1,6 @@
 export { Polymarket } from './polymarket.js';
-export { PolymarketWebSocket } from './polymarket-ws.js';
+export {
+  type PolymarketLastTrade,
+  type PolymarketTickSizeChange,
+  PolymarketWebSocket,
+} from './polymarket-ws.js';
@@ -1,31 +1,92 @@
+import { createHash } from 'node:crypto';
 import WebSocket from 'ws';
 import {
   OrderBookWebSocket,
   type OrderbookUpdate,
+  SubscriptionStatus,
   type WebSocketConfig,
 } from '../../core/websocket.js';
+import { type Orderbook, OrderSide, type PriceLevel } from '../../types/index.js';
 
 const WS_URL = 'wss://ws-subscriptions-clob.polymarket.com/ws/market';
 const POLYMARKET_PING_INTERVAL = 10000;
 
+/** Tolerance when comparing our top of book with the one the server reports */
+const PRICE_EPSILON = 1e-9;
+
 interface PolymarketWsConfig extends WebSocketConfig {
   apiKey?: string;
+  /**
+   * Check each `book` snapshot against its `hash` and resync on a mismatch (default: false).
+   * Polymarket does not document how the hash is serialised; this follows the CLOB clients, and
+   * a venue-side change would make every snapshot fail and resync, so it is opt-in.
+   */
+  verifyChecksums?: boolean;
+}
+
+/** Emitted as `tickSizeChange` when a market's minimum price increment changes */
+export interface PolymarketTickSizeChange {
+  marketId: string;
+  assetId: string;
+  oldTickSize: number;
+  newTickSize: number;
+  timestamp: number;
+}
+
+/** Emitted as `trade` for each match on a watched asset */
+export interface PolymarketLastTrade {
+  marketId: string;
+  assetId: string;
+  price: number;
+  size: number;
+  side: OrderSide;
+  feeRateBps: number;
+  timestamp: number;
+}
+
+type RawLevel = { price: string; size: string };
+
+/** One level of a `price_change`, tagged with its asset and the event's timestamp */
+interface RawChange extends Partial<RawLevel> {
+  asset_id?: string;
+  side?: string;
+  best_bid?: string;
+  best_ask?: string;
+  timestamp?: unknown;
+}
+
+/** Resting size by price for one asset */
+interface LocalBook {
+  bids: Map<number, number>;
+  asks: Map<number, number>;
 }
 
+/**
+ * Polymarket market channel. A local book per asset starts from each `book` snapshot and applies
+ * `price_change` deltas; a delta that cannot be applied cleanly, or a snapshot failing its hash
+ * with `verifyChecksums`, resyncs the book. Deltas carry absolute sizes, so with `fetchSnapshot`
+ * the book is restored from REST and the deltas received meanwhile are replayed. Tick-size changes
+ * and trades are emitted as `tickSizeChange` and `trade` events.
+ */
 export class PolymarketWebSocket extends OrderBookWebSocket {
   readonly wsUrl = WS_URL;
   private assetSubscriptions = new Map<string, string>();
   private initialSubscriptionSent = false;
+  private readonly books = new Map<string, LocalBook>();
+  private readonly tickSizes = new Map<string, number>();
+  private readonly verifyChecksums: boolean;
 
   constructor(config: PolymarketWsConfig = {}) {
     super({
       ...config,
       pingInterval: POLYMARKET_PING_INTERVAL,
     });
+    this.verifyChecksums = config.verifyChecksums ?? false;
   }
 
   protected async authenticate(): Promise<void> {
     this.initialSubscriptionSent = false;
+    this.books.clear();
   }
 
   protected async subscribeOrderbook(marketId: string): Promise<void> {
@@ -54,6 +115,7 @@ export class PolymarketWebSocket extends OrderBookWebSocket {
       assets_ids: [assetId],
       operation: 'unsubscribe',
     });
+    this.books.delete(assetId);
   }
 
   protected override startPingTimer(): void {
@@ -71,73 +133,266 @@ export class PolymarketWebSocket extends OrderBookWebSocket {
     this.lastMessageTime = Date.now();
 
     const message = data.toString();
-    if (!message.startsWith('{')) return;
+    if (!message.startsWith('{') && !message.startsWith('[')) return;
 
+    let parsed: unknown;
     try {
-      const parsed = JSON.parse(message) as Record<string, unknown>;
-      const orderbook = this.parseOrderbookMessage(parsed);
-
-      if (orderbook) {
-        const callback = this.subscriptions.get(orderbook.marketId);
-        if (callback) {
-          Promise.resolve(callback(orderbook.marketId, orderbook)).catch((error) => {
-            if (this.config.verbose) {
-              console.error('Orderbook callback error:', error);
-            }
-          });
-        }
-      }
+      parsed = JSON.parse(message);
     } catch {
       return;
     }
+
+    // Events arrive batched, e.g. the books sent on subscribe
+    for (const event of [parsed].flat() as Array<Record<string, unknown>>) {
+      switch (event.event_type) {
+        case 'book': {
+          if (this.verifyChecksums && !this.hasValidHash(event)) {
+            const marketId = this.findMarketIdByAsset(String(event.asset_id));
+            if (marketId) this.resync(marketId, 'checksum mismatch');
+            break;
+          }
+          const orderbook = this.parseOrderbookMessage(event);
+          if (orderbook) this.emitOrderbook(orderbook);
+          break;
+        }
+        case 'price_change':
+          for (const orderbook of this.applyPriceChanges(event)) {
+            this.emitOrderbook(orderbook);
+          }
+          break;
+        case 'tick_size_change':
+          this.handleTickSizeChange(event);
+          break;
+        case 'last_trade_price':
+          this.handleLastTrade(event);
+          break;
+      }
+    }
   }
 
+  /** Replace the asset's local book with a `book` snapshot */
   protected parseOrderbookMessage(message: Record<string, unknown>): OrderbookUpdate | null {
     if (message.event_type !== 'book') return null;
 
     const assetId = message.asset_id as string;
     if (!assetId) return null;
 
-    const marketId = this.findMarketIdByAsset(assetId);
-    if (!marketId) return null;
+    const levels = (raw: RawLevel[] | undefined) => {
+      const side = new Map<number, number>();
+      for (const level of raw ?? []) {
+        const price = Number.parseFloat(level.price);
+        const size = Number.parseFloat(level.size);
+        if (price > 0 && size > 0) side.set(price, size);
+      }
+      return side;
+    };
 
-    const bids: [number, number][] = [];
-    const asks: [number, number][] = [];
+    this.books.set(assetId, {
+      bids: levels(message.bids as RawLevel[] | undefined),
+      asks: levels(message.asks as RawLevel[] | undefined),
+    });
 
-    const rawBids = message.bids as Array<{ price: string; size: string }> | undefined;
-    const rawAsks = message.asks as Array<{ price: string; size: string }> | undefined;
+    return this.toUpdate(assetId, message.timestamp);
+  }
 
-    if (rawBids) {
-      for (const bid of rawBids) {
-        const price = Number.parseFloat(bid.price);
-        const size = Number.parseFloat(bid.size);
-        if (price > 0 && size > 0) {
-          bids.push([price, size]);
-        }
+  protected override snapshotAssetId(marketId: string): string {
+    return this.assetSubscriptions.get(marketId) ?? marketId;
+  }
+
+  /** Load a REST book and replay the changes that arrived while it was fetched */
+  protected override restoreSnapshot(
+    marketId: string,
+    snapshot: Orderbook,
+    buffered: Record<string, unknown>[]
+  ): OrderbookUpdate | null {
+    const assetId = this.assetSubscriptions.get(marketId);
+    if (!assetId) return null;
+
+    const book: LocalBook = {
+      bids: new Map(snapshot.bids.filter(([price, size]) => price > 0 && size > 0)),
+      asks: new Map(snapshot.asks.filter(([price, size]) => price > 0 && size > 0)),
+    };
+    // Changes set absolute sizes, so replaying one the snapshot already includes is harmless
+    let timestamp: unknown = snapshot.timestamp;
+    for (const change of buffered as RawChange[]) {
+      if (!this.applyChange(book, change)) return null;
+      timestamp = change.timestamp ?? timestamp;
+    }
+    this.books.set(assetId, book);
+
+    const update = this.toUpdate(assetId, timestamp);
+    return update && this.isConsistent(update, {}) ? update : null;
+  }
+
+  /**
+   * Compare a snapshot with its `hash`, the SHA-1 of the book summary serialised with an empty
+   * hash, as the CLOB clients compute it. Snapshots without a hash pass.
+   */
+  private hasValidHash(message: Record<string, unknown>): boolean {
+    if (typeof message.hash !== 'string' || !message.hash) return true;
+
+    const summary = {
+      market: message.market ?? null,
+      asset_id: message.asset_id ?? null,
+      timestamp: message.timestamp ?? null,
+      bids: message.bids ?? null,
+      asks: message.asks ?? null,
+      min_order_size: message.min_order_size ?? null,
+      neg_risk: message.neg_risk ?? null,
+      tick_size: message.tick_size ?? null,
+      hash: '',
+    };
+    const digest = createHash('sha1').update(JSON.stringify(summary)).digest('hex');
+    return digest === message.hash;
+  }
+
+  /**
+   * Apply `price_change` levels, which come either as `price_changes` entries carrying their own
+   * asset and the resulting best bid/ask, or as `changes` of a single asset.
+   */
+  private applyPriceChanges(message: Record<string, unknown>): OrderbookUpdate[] {
+    const changes: RawChange[] = (
+      Array.isArray(message.price_changes)
+        ? (message.price_changes as RawChange[])
+        : ((message.changes as RawChange[] | undefined) ?? []).map((change) => ({
+            asset_id: message.asset_id as string,
+            ...change,
+          }))
+    ).map((change) => ({ ...change, timestamp: message.timestamp }));
+
+    const touched = new Map<string, RawChange>();
+    for (const change of changes) {
+      const assetId = change.asset_id;
+      const marketId = assetId && this.findMarketIdByAsset(assetId);
+      if (!assetId || !marketId || this.bufferDuringResync(marketId, { ...change })) continue;
+      // Deltas racing a requested snapshot are superseded by it
+      if (this.getSubscriptionStatus(marketId) === SubscriptionStatus.RESYNCING) continue;
+
+      const book = this.books.get(assetId);
+      if (!book) {
+        this.resync(marketId, 'delta without a snapshot');
+      } else if (!this.applyChange(book, change)) {
+        this.resync(marketId, 'malformed delta');
+      } else {
+        touched.set(assetId, change);
       }
     }
 
-    if (rawAsks) {
-      for (const ask of rawAsks) {
-        const price = Number.parseFloat(ask.price);
-        const size = Number.parseFloat(ask.size);
-        if (price > 0 && size > 0) {
-          asks.push([price, size]);
-        }
+    const updates: OrderbookUpdate[] = [];
+    for (const [assetId, last] of touched) {
+      const update = this.toUpdate(assetId, message.timestamp);
+      if (!update) continue;
+
+      if (!this.isConsistent(update, last)) {
+        this.resync(update.marketId, 'inconsistent book');
+        continue;
       }
+      updates.push(update);
+    }
+    return updates;
+  }
+
+  /** Set one level to its new absolute size; false for a change without a usable price or size */
+  private applyChange(book: LocalBook, change: RawChange): boolean {
+    const side = change.side?.toUpperCase() === 'SELL' ? book.asks : book.bids;
+    const price = Number.parseFloat(change.price ?? '');
+    const size = Number.parseFloat(change.size ?? '');
+    if (!(price > 0) || Number.isNaN(size)) return false;
+
+    if (size > 0) {
+      side.set(price, size);
+    } else {
+      side.delete(price);
     }
+    return true;
+  }
+
+  /** Not crossed, and agreeing with the server's top of book when it sends one */
+  private isConsistent(
+    update: OrderbookUpdate,
+    reported: { best_bid?: string; best_ask?: string }
+  ): boolean {
+    const bid = update.bids[0]?.[0];
+    const ask = update.asks[0]?.[0];
+    if (bid !== undefined && ask !== undefined && bid >= ask) return false;
+
+    // An empty side has no price to compare
+    const matches = (ours: number | undefined, theirs: string | undefined) =>
+      ours === undefined ||
+      theirs === undefined ||
+      Math.abs(ours - Number.parseFloat(theirs)) < PRICE_EPSILON;
+    return matches(bid, reported.best_bid) && matches(ask, reported.best_ask);
+  }
+
+  private handleTickSizeChange(message: Record<string, unknown>): void {
+    const assetId = message.asset_id as string;
+    const marketId = assetId && this.findMarketIdByAsset(assetId);
+    if (!marketId) return;
+
+    const change: PolymarketTickSizeChange = {
+      marketId,
+      assetId,
+      oldTickSize: Number(message.old_tick_size),
+      newTickSize: Number(message.new_tick_size),
+      timestamp: Number(message.timestamp) || Date.now(),
+    };
+    this.tickSizes.set(assetId, change.newTickSize);
+
+    this.emit('tickSizeChange', change);
+  }
+
+  private handleLastTrade(message: Record<string, unknown>): void {
+    const assetId = message.asset_id as string;
+    const marketId = assetId && this.findMarketIdByAsset(assetId);
+    if (!marketId) return;
+
+    const trade: PolymarketLastTrade = {
+      marketId,
+      assetId,
+      price: Number(message.price),
+      size: Number(message.size),
+      side: String(message.side).toUpperCase() === 'SELL' ? OrderSide.SELL : OrderSide.BUY,
+      feeRateBps: Number(message.fee_rate_bps ?? 0),
+      timestamp: Number(message.timestamp) || Date.now(),
+    };
+    this.emit('trade', trade);
+  }
 
-    bids.sort((a, b) => b[0] - a[0]);
-    asks.sort((a, b) => a[0] - b[0]);
+  private toUpdate(assetId: string, timestamp: unknown): OrderbookUpdate | null {
+    const marketId = this.findMarketIdByAsset(assetId);
+    const orderbook = this.getOrderbook(assetId);
+    if (!marketId || !orderbook) return null;
 
     return {
       marketId,
+      bids: orderbook.bids,
+      asks: orderbook.asks,
+      timestamp: Number(timestamp) || Date.now(),
+    };
+  }
+
+  /** Current local book of a watched asset; null until its first snapshot */
+  getOrderbook(assetId: string): Orderbook | null {
+    const book = this.books.get(assetId);
+    if (!book) return null;
+
+    const bids: PriceLevel[] = [...book.bids].sort((a, b) => b[0] - a[0]);
+    const asks: PriceLevel[] = [...book.asks].sort((a, b) => a[0] - b[0]);
+
+    return {
       bids,
       asks,
       timestamp: Date.now(),
+      assetId,
+      marketId: this.findMarketIdByAsset(assetId) ?? '',
     };
   }
 
+  /** Tick size last announced by `tick_size_change`, if any */
+  getTickSize(assetId: string): number | undefined {
+    return this.tickSizes.get(assetId);
+  }
+
   async watchOrderbookWithAsset(
     marketId: string,
     assetId: string,
@@ -1,8 +1,22 @@
-import { AssetType, ClobClient, Side } from '@polymarket/clob-client';
+import {
+  AssetType,
+  ClobClient,
+  OrderType as ClobOrderType,
+  type Trade as ClobTrade,
+  type PostOrdersArgs,
+  Side,
+} from '@polymarket/clob-client';
 import { createWalletClient, http, type WalletClient } from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
 import { polygon, polygonAmoy } from 'viem/chains';
-import { Exchange, type ExchangeConfig } from '../../core/exchange.js';
+import {
+  Exchange,
+  type ExchangeCapabilities,
+  type ExchangeConfig,
+  type OrderFlag,
+  WebSocketChannel,
+} from '../../core/exchange.js';
+import type { RateLimits } from '../../core/rate-limiter.js';
 import {
   AuthenticationError,
   ExchangeError,
@@ -11,24 +25,59 @@ import {
   NetworkError,
 } from '../../errors/index.js';
 import {
+  type Balance,
   type CreateOrderParams,
   type CryptoHourlyMarket,
+  type Event,
+  type FetchEventsParams,
   type FetchMarketsParams,
+  type FetchMyTradesParams,
+  type FetchOrderbookParams,
+  type FetchOrdersParams,
+  type FetchPriceHistoryParams,
+  type FetchPublicTradesParams,
+  LiquidityRole,
   type Market,
+  type MarketResolution,
+  MarketStatus,
   MarketUtils,
   normalizeTokenSymbol,
   type Order,
+  type Orderbook,
+  OrderbookUtils,
+  type OrderResult,
   OrderSide,
   OrderStatus,
+  OrderType,
+  type OutcomeToken,
   type Position,
-  type PriceHistoryInterval,
   type PricePoint,
   type PublicTrade,
   type Tag,
+  TimeInForce,
+  type Trade,
 } from '../../types/index.js';
+import { fromUnits, mulDiv, toUnits } from '../../utils/index.js';
 
 const BASE_URL = 'https://gamma-api.polymarket.com';
+const WEB_URL = 'https://polymarket.com';
 const CLOB_URL = 'https://clob.polymarket.com';
+const DATA_API_URL = 'https://data-api.polymarket.com';
+/** next_cursor value the CLOB returns on the last page */
+const END_CURSOR = 'LTE=';
+/** Largest page the Data API serves for /positions */
+const POSITIONS_PAGE_SIZE = 500;
+/** Largest page the Data API serves for /trades */
+const TRADES_PAGE_SIZE = 500;
+/** Most orders the CLOB accepts in one batch post */
+const ORDER_BATCH_SIZE = 15;
+/** Collateral amounts are 6-decimal USDC units on-chain */
+const USDC_DECIMALS = 6;
+
+interface CancelResponse {
+  canceled?: string[];
+  not_canceled?: Record<string, string>;
+}
 
 interface PolymarketConfig extends ExchangeConfig {
   chainId?: number;
@@ -39,6 +88,34 @@ export class Polymarket extends Exchange {
   readonly id = 'polymarket';
   readonly name = 'Polymarket';
 
+  // CLOB allows 1500 book reads and 3500 order posts per 10s; Gamma /markets only 300 per 10s
+  protected override readonly rateLimits: RateLimits = {
+    public: { rate: 150, capacity: 1500 },
+    private: { rate: 60, capacity: 350 },
+    weights: {
+      'gamma-api.polymarket.com/markets': 5,
+      'gamma-api.polymarket.com/events': 3,
+      'data-api.polymarket.com/trades': 7,
+    },
+  };
+
+  protected override readonly orderTypes = [OrderType.LIMIT, OrderType.MARKET];
+  protected override readonly timeInForces = [
+    TimeInForce.GTC,
+    TimeInForce.GTD,
+    TimeInForce.IOC,
+    TimeInForce.FOK,
+  ];
+  protected override readonly orderFlags: OrderFlag[] = ['postOnly'];
+  protected override readonly websocketChannels = [
+    WebSocketChannel.ORDERBOOK,
+    WebSocketChannel.TRADES,
+  ];
+  // The CLOB has no closed-order listing; history is rebuilt from open orders and fills
+  protected override readonly capabilityOverrides: Partial<ExchangeCapabilities> = {
+    fetchOrders: 'emulated',
+  };
+
   private clobClient: ClobClient | null = null;
   private walletClient: WalletClient | null = null;
   private address: string | null = null;
@@ -53,11 +130,6 @@ export class Polymarket extends Exchange {
     }
   }
 
-  override describe() {
-    const base = super.describe();
-    return { ...base, has: { ...base.has, websocket: true } };
-  }
-
   private initializeClobClient(config: PolymarketConfig): void {
     try {
       const chainId = config.chainId ?? 137;
@@ -69,6 +141,7 @@ export class Polymarket extends Exchange {
       const account = privateKeyToAccount(config.privateKey as `0x${string}`);
       const chain = chainId === 80002 ? polygonAmoy : polygon;
       this.walletClient = createWalletClient({ account, chain, transport: http() });
+      // ClobClient sends authenticated requests with its own HTTP client, outside config.transport
       this.clobClient = new ClobClient(
         CLOB_URL,
         chainId,
@@ -113,11 +186,19 @@ export class Polymarket extends Exchange {
     return this.clobClient;
   }
 
+  private async get(url: string): Promise<Response> {
+    await this.throttle('public', this.endpointWeight(url));
+
+    const response = await this.httpFetch(url, { signal: AbortSignal.timeout(this.timeout) });
+    if (response.status === 429) {
+      throw this.rateLimitError(response);
+    }
+    return response;
+  }
+
   async fetchMarkets(params?: FetchMarketsParams): Promise<Market[]> {
     return this.withRetry(async () => {
-      const response = await fetch(`${CLOB_URL}/sampling-markets`, {
-        signal: AbortSignal.timeout(this.timeout),
-      });
+      const response = await this.get(`${CLOB_URL}/sampling-markets`);
 
       if (!response.ok) {
         throw new NetworkError(`Failed to fetch markets: ${response.status}`);
@@ -131,7 +212,7 @@ export class Polymarket extends Exchange {
         .filter((m): m is Market => m !== null);
 
       if (params?.active || !params?.closed) {
-        markets = markets.filter((m) => this.isMarketOpen(m));
+        markets = markets.filter((m) => MarketUtils.isOpen(m));
       }
 
       if (params?.limit) {
@@ -142,11 +223,45 @@ export class Polymarket extends Exchange {
     });
   }
 
+  /** Walks the full CLOB market list; `fetchMarkets` only reads the first sampling page */
+  override paginateMarkets(params: FetchMarketsParams = {}): AsyncGenerator<Market> {
+    return this.paginate<Market, string>(
+      (cursor) =>
+        this.withRetry(async () => {
+          const query = cursor ? `?next_cursor=${encodeURIComponent(cursor)}` : '';
+          const response = await this.get(`${CLOB_URL}/markets${query}`);
+
+          if (!response.ok) {
+            throw new NetworkError(`Failed to fetch markets: ${response.status}`);
+          }
+
+          const result = (await response.json()) as { data?: unknown[]; next_cursor?: string };
+          const marketsData = result.data ?? [];
+
+          let markets = marketsData
+            .map((item) => this.parseClobMarket(item as Record<string, unknown>))
+            .filter((m): m is Market => m !== null);
+
+          if (params.active || !params.closed) {
+            markets = markets.filter((m) => MarketUtils.isOpen(m));
+          }
+
+          const next = result.next_cursor;
+          const hasMore = marketsData.length > 0 && next && next !== END_CURSOR;
+          return { items: markets, next: hasMore ? next : undefined };
+        }),
+      params.limit
+    );
+  }
+
+  /** Accepts a condition ID, or a Gamma market ID or slug */
   async fetchMarket(marketId: string): Promise<Market> {
+    if (!marketId.startsWith('0x')) {
+      return this.parseGammaMarket(await this.fetchGammaMarket(marketId));
+    }
+
     return this.withRetry(async () => {
-      const response = await fetch(`${CLOB_URL}/markets/${marketId}`, {
-        signal: AbortSignal.timeout(this.timeout),
-      });
+      const response = await this.get(`${CLOB_URL}/markets/${marketId}`);
 
       if (response.status === 404) {
         throw new MarketNotFound(`Market ${marketId} not found`);
@@ -165,92 +280,281 @@ export class Polymarket extends Exchange {
     });
   }
 
+  /** Settlement from Gamma, which also reports UMA disputes the CLOB does not */
+  override async fetchResolution(marketId: string): Promise<MarketResolution | null> {
+    return this.parseGammaMarket(await this.fetchGammaMarket(marketId)).resolution ?? null;
+  }
+
+  /** Raw Gamma market by condition ID, numeric Gamma ID or slug */
+  private async fetchGammaMarket(marketId: string): Promise<Record<string, unknown>> {
+    return this.withRetry(async () => {
+      const key = marketId.startsWith('0x')
+        ? 'condition_ids'
+        : /^\d+$/.test(marketId)
+          ? 'id'
+          : 'slug';
+      const query = new URLSearchParams({ [key]: marketId });
+      const response = await this.get(`${BASE_URL}/markets?${query}`);
+
+      if (response.status === 404) {
+        throw new MarketNotFound(`Market ${marketId} not found`);
+      }
+
+      if (!response.ok) {
+        throw new NetworkError(`Failed to fetch market: ${response.status}`);
+      }
+
+      const [data] = (await response.json()) as Array<Record<string, unknown>>;
+      if (!data) {
+        throw new MarketNotFound(`Market ${marketId} not found`);
+      }
+      return data;
+    });
+  }
+
   async fetchMarketsBySlug(slugOrUrl: string): Promise<Market[]> {
     const slug = this.parseMarketIdentifier(slugOrUrl);
     if (!slug) throw new Error('Empty slug provided');
 
+    return (await this.fetchEvent(slug)).markets;
+  }
+
+  override async fetchEvents(params: FetchEventsParams = {}): Promise<Event[]> {
     return this.withRetry(async () => {
-      const response = await fetch(`${BASE_URL}/events?slug=${slug}`, {
-        signal: AbortSignal.timeout(this.timeout),
+      const query = new URLSearchParams({
+        limit: String(params.limit ?? 100),
+        offset: String(params.offset ?? 0),
+        closed: String(params.closed ?? false),
       });
+      if (params.active !== false) query.set('active', 'true');
+
+      const response = await this.get(`${BASE_URL}/events?${query}`);
+      if (!response.ok) {
+        throw new NetworkError(`Failed to fetch events: ${response.status}`);
+      }
+
+      const events = (await response.json()) as Array<Record<string, unknown>>;
+      return events.map((event) => this.parseEvent(event));
+    });
+  }
+
+  /** Event by Gamma ID, slug or event URL */
+  override async fetchEvent(eventId: string): Promise<Event> {
+    const identifier = this.parseMarketIdentifier(eventId);
+
+    return this.withRetry(async () => {
+      const query = /^\d+$/.test(identifier) ? `id=${identifier}` : `slug=${identifier}`;
+      const response = await this.get(`${BASE_URL}/events?${query}`);
 
       if (response.status === 404) {
-        throw new MarketNotFound(`Event not found: ${slug}`);
+        throw new MarketNotFound(`Event not found: ${identifier}`);
       }
 
       if (!response.ok) {
         throw new ExchangeError(`Failed to fetch event: ${response.status}`);
       }
 
-      const eventData = (await response.json()) as Array<{ markets?: unknown[] }>;
-      if (!eventData.length) {
-        throw new MarketNotFound(`Event not found: ${slug}`);
+      const [event] = (await response.json()) as Array<Record<string, unknown>>;
+      if (!event) {
+        throw new MarketNotFound(`Event not found: ${identifier}`);
       }
 
-      const event = eventData[0];
-      const marketsData = event?.markets ?? [];
-
-      return marketsData.map((m) => this.parseGammaMarket(m as Record<string, unknown>));
+      return this.parseEvent(event);
     });
   }
 
   async createOrder(params: CreateOrderParams): Promise<Order> {
-    const tokenId = params.tokenId ?? params.params?.token_id;
-    if (!tokenId) {
-      throw new InvalidOrder('token_id required in params');
-    }
+    // Reject invalid input before deriving API credentials
+    this.orderTokenId(params);
+    this.resolveOrderOptions(params);
 
     return this.withRetry(async () => {
       const client = await this.ensureAuthenticated();
-      const signedOrder = await client.createOrder({
-        tokenID: tokenId as string,
-        price: params.price,
-        size: params.size,
-        side: params.side === OrderSide.BUY ? Side.BUY : Side.SELL,
-      });
+      await this.throttle('private');
+      const { order, orderType, postOnly } = await this.signOrder(client, params);
+
+      const result = (await client.postOrder(order, orderType, false, postOnly)) as Record<
+        string,
+        unknown
+      >;
+      return this.placedOrder(params, result);
+    });
+  }
 
-      const result = (await client.postOrder(signedOrder)) as Record<string, unknown>;
-      const orderId = (result.orderID as string) ?? '';
-      const statusStr = (result.status as string) ?? 'LIVE';
+  /** Signs every order locally, then posts them to the CLOB 15 at a time */
+  override async createOrders(orders: CreateOrderParams[]): Promise<OrderResult[]> {
+    const client = await this.ensureAuthenticated();
 
-      return {
-        id: orderId,
-        marketId: params.marketId,
-        outcome: params.outcome,
-        side: params.side,
-        price: params.price,
-        size: params.size,
-        filled: 0,
-        status: this.parseOrderStatus(statusStr),
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
+    const signed = await Promise.all(
+      orders.map(async (params) => {
+        try {
+          return { params, args: await this.signOrder(client, params) };
+        } catch (error) {
+          return error as Error;
+        }
+      })
+    );
+    const valid = signed.filter(
+      (entry): entry is Exclude<typeof entry, Error> => !(entry instanceof Error)
+    );
+
+    // Not retried: a batch the CLOB accepted before a network error would be placed twice
+    const posted = await this.inBatches(valid, ORDER_BATCH_SIZE, async (batch) => {
+      await this.throttle('private', batch.length);
+      const response = (await client.postOrders(batch.map(({ args }) => args))) as Array<
+        Record<string, unknown>
+      >;
+
+      return batch.map(({ params }, i): OrderResult => {
+        const result = response[i];
+        if (!result || result.success === false || !result.orderID) {
+          const message = (result?.errorMsg as string) || 'Order rejected';
+          return { success: false, error: new InvalidOrder(message) };
+        }
+        return { success: true, order: this.placedOrder(params, result) };
+      });
     });
+
+    let next = 0;
+    return signed.map((entry) =>
+      entry instanceof Error ? { success: false, error: entry } : (posted[next++] as OrderResult)
+    );
   }
 
   async cancelOrder(orderId: string, marketId?: string): Promise<Order> {
     return this.withRetry(async () => {
       const client = await this.ensureAuthenticated();
+      await this.throttle('private');
       await client.cancelOrder({ orderID: orderId });
 
-      return {
-        id: orderId,
-        marketId: marketId ?? '',
-        outcome: '',
-        side: OrderSide.BUY,
-        price: 0,
-        size: 0,
-        filled: 0,
-        status: OrderStatus.CANCELLED,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
+      return this.cancelledOrder(orderId, marketId);
+    });
+  }
+
+  override async cancelOrders(orderIds: string[], marketId?: string): Promise<OrderResult[]> {
+    if (orderIds.length === 0) return [];
+
+    return this.withRetry(async () => {
+      const client = await this.ensureAuthenticated();
+      await this.throttle('private');
+      const response = (await client.cancelOrders(orderIds)) as CancelResponse;
+      return this.cancelResults(orderIds, response, marketId);
+    });
+  }
+
+  override async cancelAllOrders(marketId?: string): Promise<OrderResult[]> {
+    return this.withRetry(async () => {
+      const client = await this.ensureAuthenticated();
+      await this.throttle('private');
+      const response = (
+        marketId ? await client.cancelMarketOrders({ market: marketId }) : await client.cancelAll()
+      ) as CancelResponse;
+
+      const orderIds = [...(response.canceled ?? []), ...Object.keys(response.not_canceled ?? {})];
+      return this.cancelResults(orderIds, response, marketId);
+    });
+  }
+
+  /** Build and sign a CLOB order for the requested type and time in force */
+  private async signOrder(client: ClobClient, params: CreateOrderParams): Promise<PostOrdersArgs> {
+    const { type, timeInForce, expiresAt, postOnly } = this.resolveOrderOptions(params);
+    const tokenID = this.orderTokenId(params);
+    const side = params.side === OrderSide.BUY ? Side.BUY : Side.SELL;
+
+    if (type === OrderType.MARKET) {
+      // Market buys are sized in collateral, market sells in shares
+      const amount =
+        side === Side.BUY ? this.collateralFor(params.size, params.price) : params.size;
+      const order = await client.createMarketOrder({ tokenID, amount, side, price: params.price });
+      const orderType = timeInForce === TimeInForce.IOC ? ClobOrderType.FAK : ClobOrderType.FOK;
+      return { order, orderType };
+    }
+
+    const order = await client.createOrder({
+      tokenID,
+      price: params.price,
+      size: params.size,
+      side,
+      expiration: expiresAt ? Math.floor(expiresAt.getTime() / 1000) : undefined,
+    });
+    const orderTypes: Record<TimeInForce, ClobOrderType> = {
+      GTC: ClobOrderType.GTC,
+      GTD: ClobOrderType.GTD,
+      IOC: ClobOrderType.FAK,
+      FOK: ClobOrderType.FOK,
+    };
+    return { order, orderType: orderTypes[timeInForce ?? TimeInForce.GTC], postOnly };
+  }
+
+  /** Collateral for `size` shares at `price`, truncated to whole USDC units */
+  private collateralFor(size: number, price: number): number {
+    const units = mulDiv(
+      toUnits(size, USDC_DECIMALS, 'floor'),
+      toUnits(price, USDC_DECIMALS),
+      10n ** BigInt(USDC_DECIMALS)
+    );
+    return fromUnits(units, USDC_DECIMALS);
+  }
+
+  private orderTokenId(params: CreateOrderParams): string {
+    const tokenId = params.tokenId ?? params.params?.token_id;
+    if (!tokenId) {
+      throw new InvalidOrder('token_id required in params');
+    }
+    return String(tokenId);
+  }
+
+  private placedOrder(params: CreateOrderParams, result: Record<string, unknown>): Order {
+    return {
+      id: (result.orderID as string) ?? '',
+      marketId: params.marketId,
+      outcome: params.outcome,
+      side: params.side,
+      price: params.price,
+      size: params.size,
+      filled: 0,
+      status: this.parseOrderStatus((result.status as string) ?? 'LIVE'),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+  }
+
+  private cancelledOrder(orderId: string, marketId?: string): Order {
+    return {
+      id: orderId,
+      marketId: marketId ?? '',
+      outcome: '',
+      side: OrderSide.BUY,
+      price: 0,
+      size: 0,
+      filled: 0,
+      status: OrderStatus.CANCELLED,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+  }
+
+  private cancelResults(
+    orderIds: string[],
+    response: CancelResponse,
+    marketId?: string
+  ): OrderResult[] {
+    const canceled = new Set(response.canceled ?? []);
+    const notCanceled = response.not_canceled ?? {};
+
+    return orderIds.map((orderId): OrderResult => {
+      if (canceled.has(orderId)) {
+        return { success: true, order: this.cancelledOrder(orderId, marketId) };
+      }
+      const reason = notCanceled[orderId] ?? 'Order was not cancelled';
+      return { success: false, error: new ExchangeError(reason), orderId };
     });
   }
 
   async fetchOrder(orderId: string, _marketId?: string): Promise<Order> {
     return this.withRetry(async () => {
       const client = await this.ensureAuthenticated();
+      await this.throttle('private');
       const data = await client.getOrder(orderId);
       return this.parseOrder(data as unknown as Record<string, unknown>);
     });
@@ -259,6 +563,7 @@ export class Polymarket extends Exchange {
   async fetchOpenOrders(marketId?: string): Promise<Order[]> {
     return this.withRetry(async () => {
       const client = await this.ensureAuthenticated();
+      await this.throttle('private');
       const response = await client.getOpenOrders();
 
       let orders = response as unknown as Array<Record<string, unknown>>;
@@ -271,35 +576,235 @@ export class Polymarket extends Exchange {
     });
   }
 
-  async fetchPositions(_marketId?: string): Promise<Position[]> {
-    await this.ensureAuthenticated();
-    return [];
+  /**
+   * Order history rebuilt from open orders and the orders behind our fills. The CLOB keeps no
+   * listing of closed orders, so orders cancelled without any fill are not returned. Fills are
+   * walked newest first and looked up order by order, stopping once `limit` orders are found.
+   */
+  async fetchOrders(params: FetchOrdersParams = {}): Promise<Order[]> {
+    const { limit, since } = params;
+    const open = await this.fetchOpenOrders(params.marketId);
+    const seen = new Set(open.map((order) => order.id));
+    const filled: Order[] = [];
+    const enough = () => limit !== undefined && filled.length >= limit;
+
+    let cursor: string | undefined;
+    do {
+      const page = await this.fillsPage(params.marketId, since, cursor);
+      const orderIds = [
+        ...new Set(
+          page.items
+            .filter((fill) => !since || fill.timestamp >= since)
+            .map((fill) => fill.orderId)
+            .filter((orderId): orderId is string => !!orderId && !seen.has(orderId))
+        ),
+      ];
+      for (const orderId of orderIds) seen.add(orderId);
+
+      // Look up no more orders than could still make the cut
+      for (let i = 0; i < orderIds.length && !enough(); ) {
+        const batch = orderIds.slice(
+          i,
+          limit === undefined ? undefined : i + limit - filled.length
+        );
+        i += batch.length;
+        const orders = await this.mapConcurrent(batch, (orderId) => this.fetchOrder(orderId));
+        filled.push(...orders.filter((order) => this.matchesOrderFilters(order, params)));
+      }
+
+      const reachedSince = since && page.items.some((fill) => fill.timestamp < since);
+      cursor = reachedSince ? undefined : page.next;
+    } while (cursor !== undefined && !enough());
+
+    return [...open.filter((order) => this.matchesOrderFilters(order, params)), ...filled]
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
   }
 
-  async fetchBalance(): Promise<Record<string, number>> {
+  /**
+   * Fills from the CLOB trade history. On maker fills the trade's top-level fields describe the
+   * taker, so our side is read from the maker orders placed by the trading wallet.
+   */
+  async fetchMyTrades(params: FetchMyTradesParams = {}): Promise<Trade[]> {
+    return this.collectTrades<string>(
+      (cursor) => this.fillsPage(params.marketId, params.since, cursor),
+      params
+    );
+  }
+
+  /** One page of the account's fills, newest first */
+  private fillsPage(
+    marketId: string | undefined,
+    since: Date | undefined,
+    cursor: string | undefined
+  ): Promise<{ items: Trade[]; next?: string }> {
+    const wallet = (this.config.funder ?? this.address ?? '').toLowerCase();
+    const after = since ? String(Math.floor(since.getTime() / 1000)) : undefined;
+
     return this.withRetry(async () => {
       const client = await this.ensureAuthenticated();
-      const balanceData = (await client.getBalanceAllowance({
-        asset_type: AssetType.COLLATERAL,
-      })) as { balance?: string };
+      await this.throttle('private');
+      const page = await client.getTradesPaginated({ market: marketId, after }, cursor);
 
-      const balance = balanceData.balance ? Number.parseFloat(balanceData.balance) / 1e6 : 0;
-
-      return { USDC: balance };
+      const next = page.next_cursor && page.next_cursor !== END_CURSOR;
+      return {
+        items: page.trades.flatMap((trade) => this.parseFills(trade, wallet)),
+        next: next ? page.next_cursor : undefined,
+      };
     });
   }
 
+  private parseFills(trade: ClobTrade, wallet: string): Trade[] {
+    const fill = (
+      orderId: string,
+      leg: { side: Side; price: string; fee_rate_bps: string; outcome: string },
+      size: number,
+      role: LiquidityRole
+    ): Trade => {
+      const price = Number(leg.price);
+      return {
+        id: trade.id,
+        orderId,
+        marketId: trade.market,
+        outcome: leg.outcome,
+        side: leg.side === Side.BUY ? OrderSide.BUY : OrderSide.SELL,
+        price,
+        size,
+        // Polymarket charges fees on the less likely side of the price
+        fee: (Number(leg.fee_rate_bps) / 10_000) * Math.min(price, 1 - price) * size,
+        role,
+        transactionHash: trade.transaction_hash || undefined,
+        timestamp: new Date(Number(trade.match_time) * 1000),
+      };
+    };
+
+    if (trade.trader_side === 'MAKER') {
+      return trade.maker_orders
+        .filter((order) => order.maker_address.toLowerCase() === wallet)
+        .map((order) =>
+          fill(order.order_id, order, Number(order.matched_amount), LiquidityRole.MAKER)
+        );
+    }
+
+    return [fill(trade.taker_order_id, trade, Number(trade.size), LiquidityRole.TAKER)];
+  }
+
+  /**
+   * Positions held by the trading wallet, read from the Data API.
+   * With a `funder` configured (proxy or Safe wallet) its holdings are reported instead of the signer's.
+   */
+  async fetchPositions(marketId?: string): Promise<Position[]> {
+    const user = this.config.funder ?? this.address;
+    if (!user) {
+      throw new AuthenticationError('Private key or funder address required to fetch positions');
+    }
+
+    const positions: Position[] = [];
+
+    for (let offset = 0; ; offset += POSITIONS_PAGE_SIZE) {
+      const page = await this.withRetry(async () => {
+        const params = new URLSearchParams({
+          user,
+          limit: String(POSITIONS_PAGE_SIZE),
+          offset: String(offset),
+          sizeThreshold: '0',
+        });
+        if (marketId) params.set('market', marketId);
+
+        const response = await this.get(`${DATA_API_URL}/positions?${params}`);
+
+        if (!response.ok) {
+          throw new NetworkError(`Failed to fetch positions: ${response.status}`);
+        }
+
+        return (await response.json()) as Array<Record<string, unknown>>;
+      });
+
+      for (const row of page) {
+        const size = Number(row.size ?? 0);
+        if (size <= 0) continue;
+
+        positions.push({
+          marketId: String(row.conditionId ?? ''),
+          outcome: String(row.outcome ?? ''),
+          size,
+          averagePrice: Number(row.avgPrice ?? 0),
+          currentPrice: Number(row.curPrice ?? 0),
+          realizedPnl: row.realizedPnl != null ? Number(row.realizedPnl) : undefined,
+        });
+      }
+
+      if (page.length < POSITIONS_PAGE_SIZE) break;
+    }
+
+    return positions;
+  }
+
+  /** USDC held by the trading wallet; resting buy orders are reserved but not escrowed */
+  async fetchBalance(): Promise<Balance> {
+    const [balanceData, used] = await Promise.all([
+      this.withRetry(async () => {
+        const client = await this.ensureAuthenticated();
+        await this.throttle('private');
+        return client.getBalanceAllowance({ asset_type: AssetType.COLLATERAL });
+      }),
+      this.openOrderCollateral(),
+    ]);
+
+    const total = balanceData.balance ? fromUnits(balanceData.balance, USDC_DECIMALS) : 0;
+    const allowance = balanceData.allowance
+      ? fromUnits(balanceData.allowance, USDC_DECIMALS)
+      : undefined;
+
+    const reserved = Math.min(used, total);
+    return { USDC: { free: total - reserved, used: reserved, total, allowance } };
+  }
+
+  async fetchOrderbook(marketId: string, params: FetchOrderbookParams = {}): Promise<Orderbook> {
+    const tokenId = params.tokenId ?? (await this.resolveOutcomeToken(marketId, params)).tokenId;
+    const data = await this.fetchBook(tokenId);
+    return OrderbookUtils.truncate(
+      OrderbookUtils.fromRestResponse(data, tokenId, marketId),
+      params.depth
+    );
+  }
+
+  /**
+   * @deprecated Use fetchOrderbook, which returns a normalized Orderbook.
+   * A failed response reads as an empty book here, as it always has.
+   */
   async getOrderbook(tokenId: string): Promise<{
     bids: Array<{ price: string; size: string }>;
     asks: Array<{ price: string; size: string }>;
+  }> {
+    return this.fetchBook(tokenId).catch((error: unknown) => {
+      if (
+        error instanceof NetworkError ||
+        error instanceof ExchangeError ||
+        error instanceof MarketNotFound
+      ) {
+        return { bids: [], asks: [] };
+      }
+      throw error;
+    });
+  }
+
+  /** Raw CLOB book for a token; throws instead of returning an empty book */
+  private async fetchBook(tokenId: string): Promise<{
+    bids: Array<{ price: string; size: string }>;
+    asks: Array<{ price: string; size: string }>;
   }> {
     return this.withRetry(async () => {
-      const response = await fetch(`${CLOB_URL}/book?token_id=${tokenId}`, {
-        signal: AbortSignal.timeout(this.timeout),
-      });
+      const response = await this.get(`${CLOB_URL}/book?token_id=${tokenId}`);
 
+      if (response.status === 404) {
+        throw new MarketNotFound(`No orderbook for token ${tokenId}`);
+      }
+      if (response.status >= 500) {
+        throw new NetworkError(`Failed to fetch orderbook: ${response.status}`);
+      }
       if (!response.ok) {
-        return { bids: [], asks: [] };
+        throw new ExchangeError(`Failed to fetch orderbook: ${response.status}`);
       }
 
       return response.json() as Promise<{
@@ -326,41 +831,8 @@ export class Polymarket extends Exchange {
   }
 
   private parseSamplingMarket(data: Record<string, unknown>): Market | null {
-    const conditionId = data.condition_id as string | undefined;
-    if (!conditionId) return null;
-
-    const tokens = (data.tokens as Array<Record<string, unknown>>) ?? [];
-    const tokenIds: string[] = [];
-    const outcomes: string[] = [];
-    const prices: Record<string, number> = {};
-
-    for (const token of tokens) {
-      if (token.token_id) tokenIds.push(String(token.token_id));
-      if (token.outcome) outcomes.push(String(token.outcome));
-      if (token.outcome && token.price != null) {
-        prices[String(token.outcome)] = Number(token.price);
-      }
-    }
-
-    const tickSize = (data.minimum_tick_size as number) ?? 0.01;
-
-    return {
-      id: conditionId,
-      question: (data.question as string) ?? '',
-      outcomes: outcomes.length ? outcomes : ['Yes', 'No'],
-      closeTime: undefined,
-      volume: 0,
-      liquidity: 0,
-      prices,
-      tickSize,
-      description: (data.description as string) ?? '',
-      metadata: {
-        ...data,
-        clobTokenIds: tokenIds,
-        conditionId,
-        minimumTickSize: tickSize,
-      },
-    };
+    const market = this.parseClobMarket(data);
+    return market && { ...market, closeTime: undefined };
   }
 
   private parseClobMarket(data: Record<string, unknown>): Market | null {
@@ -368,20 +840,24 @@ export class Polymarket extends Exchange {
     if (!conditionId) return null;
 
     const tokens = (data.tokens as Array<Record<string, unknown>>) ?? [];
-    const tokenIds: string[] = [];
+    const outcomeTokens: OutcomeToken[] = [];
     const outcomes: string[] = [];
     const prices: Record<string, number> = {};
+    let winner: string | undefined;
 
     for (const token of tokens) {
-      if (token.token_id) tokenIds.push(String(token.token_id));
-      if (token.outcome) outcomes.push(String(token.outcome));
-      if (token.outcome && token.price != null) {
-        prices[String(token.outcome)] = Number(token.price);
-      }
+      if (!token.outcome) continue;
+      const outcome = String(token.outcome);
+      outcomes.push(outcome);
+      if (token.token_id) outcomeTokens.push({ outcome, tokenId: String(token.token_id) });
+      if (token.price != null) prices[outcome] = Number(token.price);
+      if (token.winner === true) winner = outcome;
     }
 
     const tickSize = (data.minimum_tick_size as number) ?? 0.01;
     const closeTime = this.parseDateTime(data.end_date_iso);
+    const slug = (data.market_slug as string) || undefined;
+    const tags = data.tags as string[] | undefined;
 
     return {
       id: conditionId,
@@ -393,9 +869,20 @@ export class Polymarket extends Exchange {
       prices,
       tickSize,
       description: (data.description as string) ?? '',
+      status: winner
+        ? MarketStatus.RESOLVED
+        : data.closed
+          ? MarketStatus.CLOSED
+          : MarketStatus.OPEN,
+      outcomeTokens,
+      category: tags?.[0],
+      slug,
+      url: slug ? `${WEB_URL}/market/${slug}` : undefined,
+      minOrderSize: this.optionalNumber(data.minimum_order_size),
+      feeRateBps: this.optionalNumber(data.taker_base_fee),
+      resolution: winner ? this.settledResolution(outcomes, winner) : undefined,
       metadata: {
         ...data,
-        clobTokenIds: tokenIds,
         conditionId,
         minimumTickSize: tickSize,
       },
@@ -403,27 +890,8 @@ export class Polymarket extends Exchange {
   }
 
   private parseGammaMarket(data: Record<string, unknown>): Market {
-    let outcomes = (data.outcomes as string[]) ?? [];
-    if (typeof data.outcomes === 'string') {
-      try {
-        outcomes = JSON.parse(data.outcomes) as string[];
-      } catch {
-        outcomes = [];
-      }
-    }
-
-    let pricesList: unknown[] = [];
-    if (data.outcomePrices != null) {
-      if (typeof data.outcomePrices === 'string') {
-        try {
-          pricesList = JSON.parse(data.outcomePrices) as unknown[];
-        } catch {
-          pricesList = [];
-        }
-      } else if (Array.isArray(data.outcomePrices)) {
-        pricesList = data.outcomePrices;
-      }
-    }
+    const outcomes = this.parseJsonList(data.outcomes).map(String);
+    const pricesList = this.parseJsonList(data.outcomePrices);
 
     const prices: Record<string, number> = {};
     for (let i = 0; i < outcomes.length && i < pricesList.length; i++) {
@@ -442,17 +910,18 @@ export class Polymarket extends Exchange {
     const liquidity = Number(data.liquidityNum ?? data.liquidity ?? 0);
     const tickSize = (data.minimum_tick_size as number) ?? 0.01;
 
-    let clobTokenIds = data.clobTokenIds as string[] | string | undefined;
-    if (typeof clobTokenIds === 'string') {
-      try {
-        clobTokenIds = JSON.parse(clobTokenIds) as string[];
-      } catch {
-        clobTokenIds = undefined;
-      }
-    }
+    const tokenIds = this.parseJsonList(data.clobTokenIds).map(String);
+    const outcomeTokens = outcomes
+      .map((outcome, i) => ({ outcome, tokenId: tokenIds[i] ?? '' }))
+      .filter((token) => token.tokenId);
+
+    const resolution = this.parseGammaResolution(data, outcomes, pricesList);
+    const events = data.events as Array<{ id?: unknown }> | undefined;
+    const slug = (data.slug as string) || undefined;
 
     return {
-      id: (data.id as string) ?? '',
+      // The condition ID, as on the CLOB path; the numeric Gamma ID stays in metadata
+      id: (data.conditionId as string) || String(data.id ?? ''),
       question: (data.question as string) ?? '',
       outcomes,
       closeTime,
@@ -461,18 +930,106 @@ export class Polymarket extends Exchange {
       prices,
       tickSize,
       description: (data.description as string) ?? '',
+      status:
+        resolution && !resolution.disputed
+          ? MarketStatus.RESOLVED
+          : data.closed
+            ? MarketStatus.CLOSED
+            : MarketStatus.OPEN,
+      outcomeTokens,
+      eventId: events?.[0]?.id != null ? String(events[0].id) : undefined,
+      category: (data.category as string) || undefined,
+      slug,
+      url: slug ? `${WEB_URL}/market/${slug}` : undefined,
+      minOrderSize: this.optionalNumber(data.orderMinSize),
+      feeRateBps: this.optionalNumber(data.takerBaseFee),
+      resolution,
       metadata: {
         ...data,
-        clobTokenIds,
+        gammaId: data.id != null ? String(data.id) : undefined,
         minimumTickSize: tickSize,
       },
     };
   }
 
+  /**
+   * UMA settlement state of a Gamma market. Final outcome prices are the payouts, which also
+   * covers 50/50 splits; a challenged proposal is reported as disputed until the vote.
+   */
+  private parseGammaResolution(
+    data: Record<string, unknown>,
+    outcomes: string[],
+    pricesList: unknown[]
+  ): MarketResolution | undefined {
+    const umaStatus = String(data.umaResolutionStatus ?? '').toLowerCase();
+    if (umaStatus === 'disputed') {
+      return { payouts: {}, disputed: true };
+    }
+
+    const payouts: Record<string, number> = {};
+    outcomes.forEach((outcome, i) => {
+      payouts[outcome] = Number(pricesList[i] ?? 0);
+    });
+    const winner = outcomes.find((outcome) => payouts[outcome] === 1);
+    if (!data.closed || (umaStatus !== 'resolved' && !winner)) return undefined;
+
+    return {
+      outcome: winner,
+      resolvedAt: this.parseDateTime(data.closedTime),
+      payouts,
+      disputed: false,
+    };
+  }
+
+  private parseEvent(data: Record<string, unknown>): Event {
+    const id = String(data.id ?? '');
+    const slug = (data.slug as string) || undefined;
+    const tags = data.tags as Array<{ label?: string }> | undefined;
+    const { markets, ...raw } = data;
+    const marketsData = (markets as Array<Record<string, unknown>>) ?? [];
+
+    return {
+      id,
+      title: (data.title as string) ?? '',
+      description: (data.description as string) ?? '',
+      slug,
+      url: slug ? `${WEB_URL}/event/${slug}` : undefined,
+      category: (data.category as string) || tags?.[0]?.label,
+      // Polymarket only runs mutually exclusive events through the neg-risk adapter
+      mutuallyExclusive: Boolean(data.negRisk),
+      negRisk: Boolean(data.negRisk),
+      markets: marketsData.map((m) => ({ ...this.parseGammaMarket(m), eventId: id })),
+      metadata: raw,
+    };
+  }
+
+  /** Gamma serializes some arrays as JSON strings */
+  private parseJsonList(value: unknown): unknown[] {
+    if (Array.isArray(value)) return value;
+    if (typeof value !== 'string') return [];
+    try {
+      const parsed = JSON.parse(value) as unknown;
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private optionalNumber(value: unknown): number | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    const number = Number(value);
+    return Number.isFinite(number) ? number : undefined;
+  }
+
   private parseOrder(data: Record<string, unknown>): Order {
     const orderId = (data.id as string) ?? (data.orderID as string) ?? '';
-    const size = Number(data.size ?? data.original_size ?? data.amount ?? 0);
-    const filled = Number(data.filled ?? data.matched ?? 0);
+    const size = Number(data.original_size ?? data.size ?? data.amount ?? 0);
+    const filled = Number(data.size_matched ?? data.filled ?? data.matched ?? 0);
+
+    let status = this.parseOrderStatus(data.status as string);
+    if (status === OrderStatus.OPEN && filled > 0) {
+      status = OrderStatus.PARTIALLY_FILLED;
+    }
 
     return {
       id: orderId,
@@ -483,15 +1040,25 @@ export class Polymarket extends Exchange {
       price: Number(data.price ?? 0),
       size,
       filled,
-      status: this.parseOrderStatus(data.status as string),
-      createdAt: this.parseDateTime(data.created_at) ?? new Date(),
-      updatedAt: this.parseDateTime(data.updated_at),
+      status,
+      createdAt: this.parseOrderTime(data.created_at) ?? new Date(),
+      updatedAt: this.parseOrderTime(data.updated_at),
     };
   }
 
+  /** CLOB order timestamps are unix seconds */
+  private parseOrderTime(value: unknown): Date | undefined {
+    if (typeof value === 'number' || (typeof value === 'string' && /^\d+$/.test(value))) {
+      return new Date(Number(value) * 1000);
+    }
+    return this.parseDateTime(value);
+  }
+
   private parseOrderStatus(status: string | undefined): OrderStatus {
     const statusMap: Record<string, OrderStatus> = {
       pending: OrderStatus.PENDING,
+      delayed: OrderStatus.PENDING,
+      unmatched: OrderStatus.OPEN,
       open: OrderStatus.OPEN,
       live: OrderStatus.OPEN,
       filled: OrderStatus.FILLED,
@@ -499,28 +1066,24 @@ export class Polymarket extends Exchange {
       partially_filled: OrderStatus.PARTIALLY_FILLED,
       cancelled: OrderStatus.CANCELLED,
       canceled: OrderStatus.CANCELLED,
+      canceled_market_resolved: OrderStatus.CANCELLED,
+      expired: OrderStatus.EXPIRED,
+      invalid: OrderStatus.REJECTED,
       rejected: OrderStatus.REJECTED,
     };
 
-    const statusStr = typeof status === 'string' ? status.toLowerCase() : '';
+    const statusStr =
+      typeof status === 'string' ? status.toLowerCase().replace(/^order_status_/, '') : '';
     return statusMap[statusStr] ?? OrderStatus.OPEN;
   }
 
-  private isMarketOpen(market: Market): boolean {
-    if (market.metadata.closed) return false;
-    if (!market.closeTime) return true;
-    return new Date() < market.closeTime;
-  }
-
   get walletAddress(): string | null {
     return this.address;
   }
 
   async fetchTokenIds(conditionId: string): Promise<string[]> {
     return this.withRetry(async () => {
-      const response = await fetch(`${CLOB_URL}/simplified-markets`, {
-        signal: AbortSignal.timeout(this.timeout),
-      });
+      const response = await this.get(`${CLOB_URL}/simplified-markets`);
 
       if (!response.ok) {
         throw new ExchangeError(`Failed to fetch markets: ${response.status}`);
@@ -542,75 +1105,34 @@ export class Polymarket extends Exchange {
   }
 
   async fetchPositionsForMarket(market: Market): Promise<Position[]> {
-    const client = this.clobClient;
-    if (!client) {
-      throw new AuthenticationError('CLOB client not initialized. Private key required.');
-    }
-
-    const positions: Position[] = [];
-    const tokenIds = MarketUtils.getTokenIds(market);
-
-    if (tokenIds.length < 2) return positions;
-
-    for (let i = 0; i < tokenIds.length; i++) {
-      const tokenId = tokenIds[i];
-      if (!tokenId) continue;
-
-      try {
-        const balanceData = (await client.getBalanceAllowance({
-          asset_type: AssetType.CONDITIONAL,
-          token_id: tokenId,
-        })) as { balance?: string };
-
-        const balance = balanceData.balance ? Number.parseFloat(balanceData.balance) / 1e6 : 0;
-
-        if (balance > 0) {
-          const outcome = market.outcomes[i] ?? (i === 0 ? 'Yes' : 'No');
-          const currentPrice = market.prices[outcome] ?? 0;
-
-          positions.push({
-            marketId: market.id,
-            outcome,
-            size: balance,
-            averagePrice: 0,
-            currentPrice,
-          });
-        }
-      } catch {}
-    }
-
-    return positions;
+    const conditionId = (market.metadata.conditionId as string) ?? market.id;
+    return this.fetchPositions(conditionId);
   }
 
   async fetchPriceHistory(
     marketOrId: Market | string,
-    options: {
-      outcome?: number | string;
-      interval?: PriceHistoryInterval;
-      fidelity?: number;
-    } = {}
+    params: FetchPriceHistoryParams = {}
   ): Promise<PricePoint[]> {
-    const { outcome = 0, interval = '1m', fidelity = 10 } = options;
+    const { outcome = 0, interval = '1m', fidelity = 10 } = params;
 
     const market = typeof marketOrId === 'string' ? await this.fetchMarket(marketOrId) : marketOrId;
-    const tokenIds = MarketUtils.getTokenIds(market);
-
-    let outcomeIndex: number;
-    if (typeof outcome === 'number') {
-      outcomeIndex = outcome;
-    } else {
-      outcomeIndex = market.outcomes.indexOf(outcome);
-      if (outcomeIndex === -1) outcomeIndex = 0;
-    }
-
-    const tokenId = tokenIds[outcomeIndex];
+    const { tokenId } = this.selectOutcome(market, outcome);
     if (!tokenId) {
       throw new ExchangeError('Cannot fetch price history without token ID');
     }
 
+    // The CLOB takes either a window ending now or explicit bounds, not both
+    const query = new URLSearchParams({ market: tokenId, fidelity: String(fidelity) });
+    if (params.since || params.until) {
+      const { since, until } = this.historyWindow(params);
+      if (since) query.set('startTs', String(Math.floor(since.getTime() / 1000)));
+      query.set('endTs', String(Math.floor(until.getTime() / 1000)));
+    } else {
+      query.set('interval', interval);
+    }
+
     return this.withRetry(async () => {
-      const url = `${CLOB_URL}/prices-history?market=${tokenId}&interval=${interval}&fidelity=${fidelity}`;
-      const response = await fetch(url, { signal: AbortSignal.timeout(this.timeout) });
+      const response = await this.get(`${CLOB_URL}/prices-history?${query}`);
 
       if (!response.ok) {
         throw new NetworkError(`Failed to fetch price history: ${response.status}`);
@@ -666,9 +1188,7 @@ export class Polymarket extends Exchange {
 
       if (tagId) params.set('tag_id', tagId);
 
-      const response = await fetch(`${BASE_URL}/markets?${params}`, {
-        signal: AbortSignal.timeout(this.timeout),
-      });
+      const response = await this.get(`${BASE_URL}/markets?${params}`);
 
       if (!response.ok) {
         throw new NetworkError(`Failed to search markets: ${response.status}`);
@@ -696,89 +1216,71 @@ export class Polymarket extends Exchange {
     });
   }
 
-  async fetchPublicTrades(
-    options: {
-      market?: Market | string;
-      limit?: number;
-      offset?: number;
-      side?: 'BUY' | 'SELL';
-      user?: string;
-    } = {}
-  ): Promise<PublicTrade[]> {
-    const { limit = 100, offset = 0, side, user } = options;
-
-    let conditionId: string | undefined;
-    if (options.market) {
-      conditionId =
-        typeof options.market === 'string'
-          ? options.market
-          : ((options.market.metadata.conditionId as string) ?? options.market.id);
+  /**
+   * Taker trades from the data API; also filters by `side` ('BUY' | 'SELL') and `user`, and
+   * starts `offset` rows into the tape
+   */
+  protected override async fetchPublicTradesPage(
+    params: FetchPublicTradesParams,
+    cursor?: string
+  ): Promise<{ items: PublicTrade[]; next?: string }> {
+    const limit = Math.min(params.limit ?? TRADES_PAGE_SIZE, TRADES_PAGE_SIZE);
+    const offset = Number(cursor ?? params.offset ?? 0);
+    const query = new URLSearchParams({
+      limit: String(limit),
+      offset: String(offset),
+      takerOnly: 'true',
+    });
+
+    if (params.market) {
+      query.set(
+        'market',
+        typeof params.market === 'string'
+          ? params.market
+          : ((params.market.metadata.conditionId as string) ?? params.market.id)
+      );
     }
+    if (typeof params.side === 'string') query.set('side', params.side);
+    if (typeof params.user === 'string') query.set('user', params.user);
 
     return this.withRetry(async () => {
-      const params = new URLSearchParams({
-        limit: String(limit),
-        offset: String(offset),
-        takerOnly: 'true',
-      });
-
-      if (conditionId) params.set('market', conditionId);
-      if (side) params.set('side', side);
-      if (user) params.set('user', user);
-
-      const response = await fetch(`https://data-api.polymarket.com/trades?${params}`, {
-        signal: AbortSignal.timeout(this.timeout),
-      });
+      const response = await this.get(`${DATA_API_URL}/trades?${query}`);
 
       if (!response.ok) {
         throw new NetworkError(`Failed to fetch trades: ${response.status}`);
       }
 
       const data = (await response.json()) as Array<Record<string, unknown>>;
+      return {
+        items: data.map((row) => this.parsePublicTrade(row)),
+        next: data.length < limit ? undefined : String(offset + data.length),
+      };
+    });
+  }
 
-      return data.map((row) => {
-        const ts = row.timestamp;
-        let timestamp: Date;
-        if (typeof ts === 'number') {
-          timestamp = new Date(ts * 1000);
-        } else if (typeof ts === 'string' && /^\d+$/.test(ts)) {
-          timestamp = new Date(Number.parseInt(ts, 10) * 1000);
-        } else {
-          timestamp = new Date(0);
-        }
+  private parsePublicTrade(row: Record<string, unknown>): PublicTrade {
+    const { conditionId, outcome, side, price, size, timestamp, transactionHash, ...metadata } =
+      row;
+    const seconds = Number(timestamp);
 
-        return {
-          proxyWallet: String(row.proxyWallet ?? ''),
-          side: String(row.side ?? ''),
-          asset: String(row.asset ?? ''),
-          conditionId: String(row.conditionId ?? ''),
-          size: Number(row.size ?? 0),
-          price: Number(row.price ?? 0),
-          timestamp,
-          title: row.title as string | undefined,
-          slug: row.slug as string | undefined,
-          icon: row.icon as string | undefined,
-          eventSlug: row.eventSlug as string | undefined,
-          outcome: row.outcome as string | undefined,
-          outcomeIndex: row.outcomeIndex as number | undefined,
-          name: row.name as string | undefined,
-          pseudonym: row.pseudonym as string | undefined,
-          bio: row.bio as string | undefined,
-          profileImage: row.profileImage as string | undefined,
-          profileImageOptimized: row.profileImageOptimized as string | undefined,
-          transactionHash: row.transactionHash as string | undefined,
-        };
-      });
-    });
+    // One settlement matches a taker against several makers, so the hash is not a trade id
+    return {
+      marketId: String(conditionId ?? ''),
+      outcome: String(outcome ?? ''),
+      side: side === 'SELL' ? OrderSide.SELL : OrderSide.BUY,
+      price: Number(price ?? 0),
+      size: Number(size ?? 0),
+      timestamp: new Date(Number.isFinite(seconds) ? seconds * 1000 : 0),
+      transactionHash: transactionHash ? String(transactionHash) : undefined,
+      metadata,
+    };
   }
 
   async getTagBySlug(slug: string): Promise<Tag> {
     if (!slug) throw new Error('slug must be a non-empty string');
 
     return this.withRetry(async () => {
-      const response = await fetch(`${BASE_URL}/tags/slug/${slug}`, {
-        signal: AbortSignal.timeout(this.timeout),
-      });
+      const response = await this.get(`${BASE_URL}/tags/slug/${slug}`);
 
       if (!response.ok) {
         throw new ExchangeError(`Failed to fetch tag: ${response.status}`);
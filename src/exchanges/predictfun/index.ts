@@ -1 +1,2 @@
 export { PredictFun, type PredictFunConfig } from './predictfun.js';
+export { PredictFunWebSocket, type PredictFunWsConfig } from './predictfun-ws.js';
@@ -0,0 +1,123 @@
+import type WebSocket from 'ws';
+import {
+  OrderBookWebSocket,
+  type OrderbookUpdate,
+  type WebSocketConfig,
+} from '../../core/websocket.js';
+import { ExchangeError } from '../../errors/index.js';
+
+const WS_URL = 'wss://ws.predict.fun/ws';
+const TESTNET_WS_URL = 'wss://ws-testnet.predict.fun/ws';
+const ORDERBOOK_TOPIC = 'predictOrderbook/';
+
+export interface PredictFunWsConfig extends WebSocketConfig {
+  /** API key; required on mainnet */
+  apiKey?: string;
+  /** Use testnet */
+  testnet?: boolean;
+  /** Custom WebSocket URL */
+  wsUrl?: string;
+}
+
+/** `R` answers a request, `M` carries a topic message */
+interface PredictFunMessage {
+  type?: 'R' | 'M';
+  requestId?: number;
+  success?: boolean;
+  error?: { code?: string; message?: string };
+  topic?: string;
+  data?: unknown;
+}
+
+/**
+ * Predict.fun market stream. Every orderbook message is a full book for the market's first
+ * outcome, like the REST orderbook.
+ */
+export class PredictFunWebSocket extends OrderBookWebSocket {
+  readonly wsUrl: string;
+  private readonly apiKey: string | null;
+  private requestId = 0;
+
+  constructor(config: PredictFunWsConfig = {}) {
+    super(config);
+    this.wsUrl = config.wsUrl ?? (config.testnet ? TESTNET_WS_URL : WS_URL);
+    this.apiKey = config.apiKey ?? null;
+  }
+
+  protected override handshakeHeaders(): Record<string, string> | undefined {
+    return this.apiKey ? { 'x-api-key': this.apiKey } : undefined;
+  }
+
+  protected async authenticate(): Promise<void> {
+    this.requestId = 0;
+  }
+
+  protected async subscribeOrderbook(marketId: string): Promise<void> {
+    this.send({
+      method: 'subscribe',
+      requestId: ++this.requestId,
+      params: [`${ORDERBOOK_TOPIC}${marketId}`],
+    });
+  }
+
+  protected async unsubscribeOrderbook(marketId: string): Promise<void> {
+    this.send({
+      method: 'unsubscribe',
+      requestId: ++this.requestId,
+      params: [`${ORDERBOOK_TOPIC}${marketId}`],
+    });
+  }
+
+  protected override handleMessage(data: WebSocket.RawData): void {
+    this.lastMessageTime = Date.now();
+
+    let message: PredictFunMessage;
+    try {
+      message = JSON.parse(data.toString()) as PredictFunMessage;
+    } catch {
+      return;
+    }
+
+    if (message.type === 'R') {
+      if (message.success === false) {
+        const { code = '', message: reason = 'request failed' } = message.error ?? {};
+        this.handleError(new ExchangeError(`Predict.fun WebSocket error ${code}: ${reason}`));
+      }
+      return;
+    }
+
+    // The server drops connections that do not echo its heartbeats
+    if (message.topic === 'heartbeat') {
+      this.send({ method: 'heartbeat', data: message.data });
+      return;
+    }
+
+    const orderbook = this.parseOrderbookMessage(message as Record<string, unknown>);
+    if (orderbook) this.emitOrderbook(orderbook);
+  }
+
+  protected parseOrderbookMessage(message: Record<string, unknown>): OrderbookUpdate | null {
+    const topic = String(message.topic ?? '');
+    if (!topic.startsWith(ORDERBOOK_TOPIC)) return null;
+
+    const data = (message.data ?? {}) as {
+      bids?: Array<[number | string, number | string]>;
+      asks?: Array<[number | string, number | string]>;
+      updateTimestampMs?: number;
+    };
+    const levels = (raw: Array<[number | string, number | string]> = []) =>
+      raw
+        .map(([price, size]): [number, number] => [Number(price), Number(size)])
+        .filter(([price, size]) => price > 0 && size > 0);
+
+    const bids = levels(data.bids).sort((a, b) => b[0] - a[0]);
+    const asks = levels(data.asks).sort((a, b) => a[0] - b[0]);
+
+    return {
+      marketId: topic.slice(ORDERBOOK_TOPIC.length),
+      bids,
+      asks,
+      timestamp: data.updateTimestampMs ?? Date.now(),
+    };
+  }
+}
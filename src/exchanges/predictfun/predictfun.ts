@@ -8,7 +8,8 @@
  */
 
 import { Wallet } from 'ethers';
-import { Exchange, type ExchangeConfig } from '../../core/exchange.js';
+import { Exchange, type ExchangeConfig, WebSocketChannel } from '../../core/exchange.js';
+import type { RateLimits } from '../../core/rate-limiter.js';
 import {
   AuthenticationError,
   ExchangeError,
@@ -17,17 +18,37 @@ import {
   NetworkError,
 } from '../../errors/index.js';
 import {
+  type Balance,
   type CreateOrderParams,
+  type Event,
+  type FetchEventsParams,
   type FetchMarketsParams,
+  type FetchMyTradesParams,
+  type FetchOrderbookParams,
+  type FetchOrdersParams,
+  type FetchPriceHistoryParams,
+  type FetchPublicTradesParams,
+  LiquidityRole,
   type Market,
+  type MarketResolution,
+  MarketStatus,
+  MarketUtils,
   type Order,
+  type Orderbook,
+  OrderbookUtils,
   OrderSide,
   OrderStatus,
+  OrderType,
   type Position,
+  type PricePoint,
+  type PublicTrade,
+  type Trade,
 } from '../../types/index.js';
+import { complementPrice, fromUnits, mulDiv, toUnits } from '../../utils/index.js';
 
 const BASE_URL = 'https://api.predict.fun';
 const TESTNET_URL = 'https://api-testnet.predict.fun';
+const WEB_URL = 'https://predict.fun';
 
 const CHAIN_ID = 56; // BNB Mainnet
 const TESTNET_CHAIN_ID = 97; // BNB Testnet
@@ -44,6 +65,33 @@ const CTF_EXCHANGE_TESTNET = '0x2A6413639BD3d73a20ed8C95F634Ce198ABbd2d7';
 const NEG_RISK_CTF_EXCHANGE_MAINNET = '0x365fb81bd4A24D6303cd2F19c349dE6894D8d58A';
 const NEG_RISK_CTF_EXCHANGE_TESTNET = '0xd690b2bd441bE36431F6F6639D7Ad351e7B29680';
 
+/** Collateral, shares and prices are 18-decimal integers on-chain */
+const WEI_DECIMALS = 18;
+const WEI = 10n ** BigInt(WEI_DECIMALS);
+
+/** Match amounts arrive as wei integers or, on some endpoints, as decimal strings */
+const fromWei = (value: unknown): number => {
+  const text = String(value ?? 0);
+  return /^\d+$/.test(text) ? fromUnits(text, WEI_DECIMALS) : Number(text);
+};
+
+const MARKETS_PAGE_SIZE = 100;
+/** Market statuses after trading stops and before the outcome is final */
+const CLOSED_MARKET_STATUSES = new Set(['PAUSED', 'PRICE_PROPOSED', 'PRICE_DISPUTED']);
+const MATCHES_PAGE_SIZE = 100;
+const ORDERS_PAGE_SIZE = 100;
+
+/** Predict.fun order status holding orders in each unified status */
+const ORDER_STATUSES: Record<OrderStatus, string> = {
+  [OrderStatus.PENDING]: 'PENDING',
+  [OrderStatus.OPEN]: 'OPEN',
+  [OrderStatus.PARTIALLY_FILLED]: 'OPEN',
+  [OrderStatus.FILLED]: 'FILLED',
+  [OrderStatus.CANCELLED]: 'CANCELLED',
+  [OrderStatus.EXPIRED]: 'EXPIRED',
+  [OrderStatus.REJECTED]: 'INVALIDATED',
+};
+
 // EIP-712 domain name (must match official SDK)
 const PROTOCOL_NAME = 'predict.fun CTF Exchange';
 const PROTOCOL_VERSION = '1';
@@ -60,8 +108,9 @@ interface RawMarket {
   title?: string;
   question?: string;
   description?: string;
-  outcomes?: Array<{ name?: string; onChainId?: string }>;
+  outcomes?: Array<{ name?: string; onChainId?: string; status?: string | null }>;
   status?: string;
+  resolvedAt?: string;
   decimalPrecision?: number;
   isNegRisk?: boolean;
   isYieldBearing?: boolean;
@@ -73,6 +122,16 @@ interface RawMarket {
   [key: string]: unknown;
 }
 
+interface RawCategory {
+  id?: number | string;
+  slug?: string;
+  title?: string;
+  description?: string;
+  isNegRisk?: boolean;
+  markets?: RawMarket[];
+  [key: string]: unknown;
+}
+
 interface RawOrder {
   hash?: string;
   orderHash?: string;
@@ -89,6 +148,31 @@ interface RawOrder {
   [key: string]: unknown;
 }
 
+interface RawMatchLeg {
+  hash?: string;
+  signer?: string;
+  /** 0 = buy, 1 = sell */
+  side?: number | string;
+  /** Shares in wei */
+  amount?: string | number;
+  /** Price per share in wei */
+  price?: string | number;
+  /** Fee in wei */
+  fee?: string | number;
+  outcome?: { name?: string };
+}
+
+interface RawOrderMatch {
+  id?: string | number;
+  market?: { id?: string | number };
+  marketId?: string | number;
+  taker?: RawMatchLeg;
+  makers?: RawMatchLeg[];
+  priceExecuted?: string | number;
+  transactionHash?: string;
+  executedAt?: string;
+}
+
 interface RawPosition {
   marketId?: string | number;
   tokenId?: string;
@@ -103,6 +187,15 @@ export class PredictFun extends Exchange {
   readonly id = 'predictfun';
   readonly name = 'Predict.fun';
 
+  // Mainnet API keys are limited to 240 requests per minute
+  protected override readonly rateLimits: RateLimits = {
+    public: { rate: 3, capacity: 10 },
+    private: { rate: 1, capacity: 5 },
+  };
+
+  protected override readonly orderTypes = [OrderType.LIMIT, OrderType.MARKET];
+  protected override readonly websocketChannels = [WebSocketChannel.ORDERBOOK];
+
   private readonly host: string;
   private readonly chainId: number;
   private readonly testnet: boolean;
@@ -169,7 +262,8 @@ export class PredictFun extends Exchange {
     }
 
     // Get signing message
-    const msgResponse = await fetch(`${this.host}/v1/auth/message`, {
+    await this.throttle('private');
+    const msgResponse = await this.httpFetch(`${this.host}/v1/auth/message`, {
       method: 'GET',
       headers: { 'x-api-key': this.config.apiKey },
       signal: AbortSignal.timeout(this.timeout),
@@ -190,7 +284,8 @@ export class PredictFun extends Exchange {
     const signature = await this.wallet.signMessage(message);
 
     // Get JWT token
-    const jwtResponse = await fetch(`${this.host}/v1/auth`, {
+    await this.throttle('private');
+    const jwtResponse = await this.httpFetch(`${this.host}/v1/auth`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -241,6 +336,9 @@ export class PredictFun extends Exchange {
       await this.ensureAuth();
     }
 
+    const scope = requireAuth ? 'private' : 'public';
+    await this.throttle(scope, this.endpointWeight(endpoint, method));
+
     const url = new URL(`${this.host}${endpoint}`);
 
     if (method === 'GET' && params) {
@@ -263,10 +361,10 @@ export class PredictFun extends Exchange {
       fetchOptions.body = JSON.stringify(params);
     }
 
-    const response = await fetch(url.toString(), fetchOptions);
+    const response = await this.httpFetch(url.toString(), fetchOptions);
 
     if (response.status === 429) {
-      throw new NetworkError('Rate limited');
+      throw this.rateLimitError(response, scope);
     }
 
     if (response.status === 401) {
@@ -278,7 +376,8 @@ export class PredictFun extends Exchange {
 
         // Retry the request
         const retryHeaders = this.getHeaders(requireAuth);
-        const retryResponse = await fetch(url.toString(), {
+        await this.throttle(scope, this.endpointWeight(endpoint, method));
+        const retryResponse = await this.httpFetch(url.toString(), {
           ...fetchOptions,
           headers: retryHeaders,
         });
@@ -316,17 +415,32 @@ export class PredictFun extends Exchange {
 
     const outcomesData = data.outcomes ?? [];
     const outcomes = outcomesData.map((o) => o.name ?? '').filter(Boolean);
-    const tokenIds = outcomesData.map((o) => String(o.onChainId ?? '')).filter(Boolean);
+    const outcomeTokens = outcomesData
+      .filter((o) => o.name && o.onChainId)
+      .map((o) => ({ outcome: o.name ?? '', tokenId: String(o.onChainId) }));
 
     if (outcomes.length === 0) {
       outcomes.push('Yes', 'No');
     }
 
-    const status = data.status ?? '';
-    const closed = status === 'RESOLVED' || status === 'PAUSED';
+    const rawStatus = data.status ?? '';
+    let status: MarketStatus = MarketStatus.OPEN;
+    if (rawStatus === 'RESOLVED') {
+      status = MarketStatus.RESOLVED;
+    } else if (CLOSED_MARKET_STATUSES.has(rawStatus)) {
+      status = MarketStatus.CLOSED;
+    }
+
+    let resolution: MarketResolution | undefined;
+    if (status === MarketStatus.RESOLVED) {
+      const winner = outcomesData.find((o) => o.status === 'WON')?.name;
+      resolution = this.settledResolution(outcomes, winner, this.parseDateTime(data.resolvedAt));
+    } else if (rawStatus === 'PRICE_DISPUTED') {
+      resolution = { payouts: {}, disputed: true };
+    }
 
     const decimalPrecision = data.decimalPrecision ?? 2;
-    const tickSize = 10 ** -decimalPrecision;
+    const tickSize = fromUnits(1n, decimalPrecision);
 
     const prices: Record<string, number> = {};
 
@@ -340,21 +454,39 @@ export class PredictFun extends Exchange {
       prices,
       tickSize,
       description,
+      status,
+      outcomeTokens,
+      // Predict.fun groups markets under a category, which plays the role of an event
+      eventId: data.categorySlug || undefined,
+      url: data.categorySlug ? `${WEB_URL}/market/${data.categorySlug}` : undefined,
+      feeRateBps: data.feeRateBps ?? 0,
+      resolution,
       metadata: {
         ...data,
-        clobTokenIds: tokenIds,
-        token_ids: tokenIds,
-        isNegRisk: data.isNegRisk ?? false,
-        isYieldBearing: data.isYieldBearing ?? true,
-        conditionId: data.conditionId ?? '',
-        feeRateBps: data.feeRateBps ?? 0,
-        categorySlug: data.categorySlug ?? '',
-        closed,
         minimum_tick_size: tickSize,
       },
     };
   }
 
+  private parseEvent(data: RawCategory): Event {
+    const { markets = [], ...raw } = data;
+    const slug = data.slug || undefined;
+    const negRisk = data.isNegRisk ?? false;
+
+    return {
+      id: slug ?? String(data.id ?? ''),
+      title: data.title ?? '',
+      description: data.description ?? '',
+      slug,
+      url: slug ? `${WEB_URL}/market/${slug}` : undefined,
+      // Multi-outcome categories run through the neg-risk exchange, one winner per category
+      mutuallyExclusive: negRisk,
+      negRisk,
+      markets: markets.map((m) => this.parseMarket({ categorySlug: slug, ...m })),
+      metadata: raw,
+    };
+  }
+
   private parseOrder(data: RawOrder, outcome?: string): Order {
     const orderId = String(data.hash ?? data.orderHash ?? data.id ?? '');
     const marketId = String(data.marketId ?? '');
@@ -371,8 +503,7 @@ export class PredictFun extends Exchange {
     // Price from wei to decimal
     let price = 0;
     if (data.pricePerShare) {
-      const priceWei = BigInt(String(data.pricePerShare));
-      price = Number(priceWei) / 1e18;
+      price = fromUnits(String(data.pricePerShare), WEI_DECIMALS);
     } else if (data.price) {
       price = Number(data.price);
     }
@@ -419,12 +550,67 @@ export class PredictFun extends Exchange {
       PARTIALLY_FILLED: OrderStatus.PARTIALLY_FILLED,
       CANCELLED: OrderStatus.CANCELLED,
       CANCELED: OrderStatus.CANCELLED,
-      EXPIRED: OrderStatus.CANCELLED,
+      EXPIRED: OrderStatus.EXPIRED,
       INVALIDATED: OrderStatus.REJECTED,
     };
     return statusMap[statusStr] ?? OrderStatus.OPEN;
   }
 
+  /** Our legs of an order match: the taker side, or each of our maker orders it filled */
+  private parseMatch(data: RawOrderMatch): Trade[] {
+    const address = this.address?.toLowerCase();
+
+    const fill = (leg: RawMatchLeg, role: LiquidityRole): Trade => {
+      const isBuy =
+        typeof leg.side === 'number'
+          ? leg.side === 0
+          : String(leg.side ?? 'buy').toLowerCase() === 'buy';
+
+      return {
+        id: `${data.id ?? data.transactionHash ?? ''}:${leg.hash ?? ''}`,
+        orderId: leg.hash,
+        marketId: String(data.market?.id ?? data.marketId ?? ''),
+        outcome: leg.outcome?.name ?? '',
+        side: isBuy ? OrderSide.BUY : OrderSide.SELL,
+        price: fromWei(leg.price ?? data.priceExecuted),
+        size: fromWei(leg.amount),
+        fee: fromWei(leg.fee),
+        role,
+        transactionHash: data.transactionHash,
+        timestamp: this.parseDateTime(data.executedAt) ?? new Date(0),
+      };
+    };
+
+    const ours = (leg: RawMatchLeg) => leg.signer?.toLowerCase() === address;
+
+    if (data.taker && ours(data.taker)) {
+      return [fill(data.taker, LiquidityRole.TAKER)];
+    }
+    return (data.makers ?? []).filter(ours).map((leg) => fill(leg, LiquidityRole.MAKER));
+  }
+
+  /** The taker leg of a match, which is the side that crossed the book */
+  private parsePublicMatch(data: RawOrderMatch): PublicTrade {
+    const taker = data.taker ?? {};
+    const isBuy =
+      typeof taker.side === 'number'
+        ? taker.side === 0
+        : String(taker.side ?? 'buy').toLowerCase() === 'buy';
+    const { taker: _taker, ...rest } = data;
+
+    return {
+      id: data.id === undefined ? undefined : String(data.id),
+      marketId: String(data.market?.id ?? data.marketId ?? ''),
+      outcome: taker.outcome?.name ?? '',
+      side: isBuy ? OrderSide.BUY : OrderSide.SELL,
+      price: fromWei(taker.price ?? data.priceExecuted),
+      size: fromWei(taker.amount),
+      timestamp: this.parseDateTime(data.executedAt) ?? new Date(0),
+      transactionHash: data.transactionHash,
+      metadata: rest,
+    };
+  }
+
   private parsePosition(data: RawPosition): Position {
     const marketId = String(data.marketId ?? '');
     const outcome = data.outcome ?? '';
@@ -459,7 +645,7 @@ export class PredictFun extends Exchange {
       let markets = marketsData.map((m) => this.parseMarket(m));
 
       if (params?.active !== false) {
-        markets = markets.filter((m) => !m.metadata?.closed);
+        markets = markets.filter((m) => m.status === MarketStatus.OPEN);
       }
 
       if (params?.limit) {
@@ -470,6 +656,77 @@ export class PredictFun extends Exchange {
     });
   }
 
+  override paginateMarkets(params: FetchMarketsParams = {}): AsyncGenerator<Market> {
+    return this.paginate<Market, string>(
+      (cursor) =>
+        this.withRetry(async () => {
+          const response = await this.request<{ data?: RawMarket[]; cursor?: string | null }>(
+            'GET',
+            '/v1/markets',
+            { first: MARKETS_PAGE_SIZE, after: cursor }
+          );
+
+          const marketsData = response.data ?? [];
+          let markets = marketsData.map((m) => this.parseMarket(m));
+
+          if (params.active !== false) {
+            markets = markets.filter((m) => m.status === MarketStatus.OPEN);
+          }
+
+          const next = marketsData.length > 0 && response.cursor ? response.cursor : undefined;
+          return { items: markets, next };
+        }),
+      params.limit
+    );
+  }
+
+  /** Predict.fun categories, which group the markets of one event */
+  override async fetchEvents(params: FetchEventsParams = {}): Promise<Event[]> {
+    const { offset = 0, limit = MARKETS_PAGE_SIZE } = params;
+
+    return this.collectWindow<Event, string>(
+      (cursor) =>
+        this.withRetry(async () => {
+          const response = await this.request<{ data?: RawCategory[]; cursor?: string | null }>(
+            'GET',
+            '/v1/categories',
+            {
+              first: Math.min(offset + limit, MARKETS_PAGE_SIZE),
+              after: cursor,
+              status: params.active === false ? undefined : 'OPEN',
+            }
+          );
+          const categories = response.data ?? [];
+          return {
+            items: categories.map((category) => this.parseEvent(category)),
+            next: categories.length > 0 && response.cursor ? response.cursor : undefined,
+          };
+        }),
+      offset,
+      limit
+    );
+  }
+
+  override async fetchEvent(eventId: string): Promise<Event> {
+    return this.withRetry(async () => {
+      try {
+        const response = await this.request<{ data?: RawCategory }>(
+          'GET',
+          `/v1/categories/${eventId}`
+        );
+        if (!response.data) {
+          throw new MarketNotFound(`Event ${eventId} not found`);
+        }
+        return this.parseEvent(response.data);
+      } catch (error) {
+        if (error instanceof ExchangeError && error.message.includes('not found')) {
+          throw new MarketNotFound(`Event ${eventId} not found`);
+        }
+        throw error;
+      }
+    });
+  }
+
   async fetchMarket(marketId: string): Promise<Market> {
     return this.withRetry(async () => {
       try {
@@ -489,48 +746,104 @@ export class PredictFun extends Exchange {
     });
   }
 
+  /** Prices of the first outcome; the second is their complement, as with the books */
+  async fetchPriceHistory(
+    marketOrId: Market | string,
+    params: FetchPriceHistoryParams = {}
+  ): Promise<PricePoint[]> {
+    const market = typeof marketOrId === 'string' ? await this.fetchMarket(marketOrId) : marketOrId;
+    const { index } = this.selectOutcome(market, params.outcome);
+    const { since, until } = this.historyWindow(params);
+
+    const response = await this.withRetry(() =>
+      this.request<{ data?: Array<{ timestamp?: number; price?: number | string }> }>(
+        'GET',
+        `/v1/markets/${market.id}/price-history`,
+        {
+          interval: params.interval ?? '1m',
+          fidelity: params.fidelity ?? 10,
+          startTime: since?.toISOString(),
+          endTime: until.toISOString(),
+        }
+      )
+    );
+
+    return (response.data ?? [])
+      .filter((p) => p.timestamp != null && p.price != null)
+      .map((p) => {
+        // Points are decimal prices stamped in unix seconds
+        const price = Number(p.price);
+        return {
+          timestamp: new Date((p.timestamp ?? 0) * 1000),
+          price: index === 1 ? complementPrice(price) : price,
+          raw: p as Record<string, unknown>,
+        };
+      })
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  async fetchOrderbook(marketId: string, params: FetchOrderbookParams = {}): Promise<Orderbook> {
+    const token = await this.resolveOutcomeToken(marketId, params);
+
+    // Books are quoted for the first outcome; the second is its complement
+    const data = await this.fetchBook(marketId);
+    const orderbook = OrderbookUtils.fromRestResponse(data, token.tokenId, marketId);
+    return OrderbookUtils.truncate(
+      token.index === 1 ? OrderbookUtils.invert(orderbook) : orderbook,
+      params.depth
+    );
+  }
+
+  /**
+   * @deprecated Use fetchOrderbook, which returns a normalized Orderbook.
+   * Any failure reads as an empty book here, as it always has.
+   */
   async getOrderbook(marketId: string): Promise<{
     bids: Array<{ price: string; size: string }>;
     asks: Array<{ price: string; size: string }>;
+  }> {
+    return this.fetchBook(marketId).catch(() => ({ bids: [], asks: [] }));
+  }
+
+  /** Raw book for the first outcome; throws instead of returning an empty book */
+  private async fetchBook(marketId: string): Promise<{
+    bids: Array<{ price: string; size: string }>;
+    asks: Array<{ price: string; size: string }>;
   }> {
     return this.withRetry(async () => {
-      try {
-        const response = await this.request<{
-          data?: { bids?: Array<[number, number]>; asks?: Array<[number, number]> };
-        }>('GET', `/v1/markets/${marketId}/orderbook`);
+      const response = await this.request<{
+        data?: { bids?: Array<[number, number]>; asks?: Array<[number, number]> };
+      }>('GET', `/v1/markets/${marketId}/orderbook`);
 
-        const data = response.data ?? {};
-        const rawBids = data.bids ?? [];
-        const rawAsks = data.asks ?? [];
+      const data = response.data ?? {};
+      const rawBids = data.bids ?? [];
+      const rawAsks = data.asks ?? [];
 
-        const bids: Array<{ price: string; size: string }> = [];
-        const asks: Array<{ price: string; size: string }> = [];
+      const bids: Array<{ price: string; size: string }> = [];
+      const asks: Array<{ price: string; size: string }> = [];
 
-        for (const entry of rawBids) {
-          if (entry.length >= 2) {
-            bids.push({ price: String(entry[0]), size: String(entry[1]) });
-          }
+      for (const entry of rawBids) {
+        if (entry.length >= 2) {
+          bids.push({ price: String(entry[0]), size: String(entry[1]) });
         }
+      }
 
-        for (const entry of rawAsks) {
-          if (entry.length >= 2) {
-            asks.push({ price: String(entry[0]), size: String(entry[1]) });
-          }
+      for (const entry of rawAsks) {
+        if (entry.length >= 2) {
+          asks.push({ price: String(entry[0]), size: String(entry[1]) });
         }
+      }
 
-        bids.sort((a, b) => Number(b.price) - Number(a.price));
-        asks.sort((a, b) => Number(a.price) - Number(b.price));
+      bids.sort((a, b) => Number(b.price) - Number(a.price));
+      asks.sort((a, b) => Number(a.price) - Number(b.price));
 
-        return { bids, asks };
-      } catch {
-        return { bids: [], asks: [] };
-      }
+      return { bids, asks };
     });
   }
 
   async fetchTokenIds(marketId: string): Promise<string[]> {
     const market = await this.fetchMarket(marketId);
-    const tokenIds = (market.metadata.clobTokenIds as string[]) ?? [];
+    const tokenIds = MarketUtils.getTokenIds(market);
     if (tokenIds.length === 0) {
       throw new ExchangeError(`No token IDs found for market ${marketId}`);
     }
@@ -538,6 +851,7 @@ export class PredictFun extends Exchange {
   }
 
   async createOrder(params: CreateOrderParams): Promise<Order> {
+    const { type } = this.resolveOrderOptions(params);
     await this.ensureAuth();
 
     if (!this.wallet || !this.address) {
@@ -545,17 +859,8 @@ export class PredictFun extends Exchange {
     }
 
     const market = await this.fetchMarket(params.marketId);
-    const outcomes = market.outcomes;
-    const tokenIds = (market.metadata.clobTokenIds as string[]) ?? [];
-
-    let tokenId = params.tokenId ?? params.params?.token_id;
-
-    if (!tokenId) {
-      const outcomeIndex = outcomes.indexOf(params.outcome);
-      if (outcomeIndex !== -1 && outcomeIndex < tokenIds.length) {
-        tokenId = tokenIds[outcomeIndex];
-      }
-    }
+    const tokenId =
+      params.tokenId ?? params.params?.token_id ?? MarketUtils.getTokenId(market, params.outcome);
 
     if (!tokenId) {
       throw new InvalidOrder(`Could not find token_id for outcome '${params.outcome}'`);
@@ -565,7 +870,7 @@ export class PredictFun extends Exchange {
       throw new InvalidOrder(`Price must be between 0 and 1, got: ${params.price}`);
     }
 
-    const feeRateBps = (market.metadata.feeRateBps as number) ?? 0;
+    const feeRateBps = market.feeRateBps ?? 0;
     const isYieldBearing = (market.metadata.isYieldBearing as boolean) ?? true;
     const isNegRisk = (market.metadata.isNegRisk as boolean) ?? false;
 
@@ -578,7 +883,7 @@ export class PredictFun extends Exchange {
       exchangeAddress = isNegRisk ? this.negRiskCtfExchange : this.ctfExchange;
     }
 
-    const strategy = (params.params?.strategy as string)?.toUpperCase() ?? 'LIMIT';
+    const strategy = type === OrderType.MARKET ? 'MARKET' : 'LIMIT';
 
     const signedOrder = await this.buildSignedOrder(
       String(tokenId),
@@ -589,8 +894,7 @@ export class PredictFun extends Exchange {
       exchangeAddress
     );
 
-    // Price in wei (1e18)
-    const pricePerShareWei = BigInt(Math.floor(params.price * 1e18));
+    const pricePerShareWei = toUnits(params.price, WEI_DECIMALS);
 
     const payload = {
       data: {
@@ -642,8 +946,8 @@ export class PredictFun extends Exchange {
     const salt = BigInt(Date.now()) * 1000000n + BigInt(Math.floor(Math.random() * 1_000_000));
 
     // Calculate amounts (all in wei, 18 decimals)
-    const sharesWei = BigInt(Math.floor(size * 1e18));
-    const priceWei = BigInt(Math.floor(price * 1e18));
+    const sharesWei = toUnits(size, WEI_DECIMALS, 'floor');
+    const priceWei = toUnits(price, WEI_DECIMALS);
 
     // side: 0 = BUY, 1 = SELL
     const sideInt = side === OrderSide.BUY ? 0 : 1;
@@ -653,12 +957,12 @@ export class PredictFun extends Exchange {
 
     if (side === OrderSide.BUY) {
       // BUY: maker provides collateral, receives shares
-      makerAmount = (sharesWei * priceWei) / BigInt(1e18);
+      makerAmount = mulDiv(sharesWei, priceWei, WEI);
       takerAmount = sharesWei;
     } else {
       // SELL: maker provides shares, receives collateral
       makerAmount = sharesWei;
-      takerAmount = (sharesWei * priceWei) / BigInt(1e18);
+      takerAmount = mulDiv(sharesWei, priceWei, WEI);
     }
 
     const order = {
@@ -805,6 +1109,86 @@ export class PredictFun extends Exchange {
     });
   }
 
+  async fetchMyTrades(params: FetchMyTradesParams = {}): Promise<Trade[]> {
+    await this.ensureAuth();
+
+    return this.collectTrades<string>(
+      (cursor) =>
+        this.withRetry(async () => {
+          const response = await this.request<{ data?: RawOrderMatch[]; cursor?: string | null }>(
+            'GET',
+            '/v1/orders/matches',
+            {
+              signerAddress: this.address,
+              marketId: params.marketId,
+              first: MATCHES_PAGE_SIZE,
+              after: cursor,
+            },
+            true
+          );
+
+          const matches = response.data ?? [];
+          const next = matches.length > 0 && response.cursor ? response.cursor : undefined;
+          return { items: matches.flatMap((m) => this.parseMatch(m)), next };
+        }),
+      params
+    );
+  }
+
+  protected override async fetchPublicTradesPage(
+    params: FetchPublicTradesParams,
+    cursor?: string
+  ): Promise<{ items: PublicTrade[]; next?: string }> {
+    const marketId = typeof params.market === 'string' ? params.market : params.market?.id;
+
+    const response = await this.withRetry(() =>
+      this.request<{ data?: RawOrderMatch[]; cursor?: string | null }>(
+        'GET',
+        '/v1/orders/matches',
+        {
+          marketId,
+          first: Math.min(params.limit ?? MATCHES_PAGE_SIZE, MATCHES_PAGE_SIZE),
+          after: cursor,
+        }
+      )
+    );
+
+    const matches = response.data ?? [];
+    const next = matches.length > 0 && response.cursor ? response.cursor : undefined;
+    return { items: matches.map((m) => this.parsePublicMatch(m)), next };
+  }
+
+  async fetchOrders(params: FetchOrdersParams = {}): Promise<Order[]> {
+    await this.ensureAuth();
+
+    // The API filters on one status at a time; wider queries are filtered after parsing
+    const statuses = params.status === undefined ? [] : [params.status].flat();
+    const venueStatuses = new Set(statuses.map((status) => ORDER_STATUSES[status]));
+    const venueStatus = venueStatuses.size === 1 ? [...venueStatuses][0] : undefined;
+
+    return this.collectOrders<string>(
+      (cursor) =>
+        this.withRetry(async () => {
+          const response = await this.request<{ data?: RawOrder[]; cursor?: string | null }>(
+            'GET',
+            '/v1/orders',
+            {
+              status: venueStatus,
+              marketId: params.marketId,
+              first: ORDERS_PAGE_SIZE,
+              after: cursor,
+            },
+            true
+          );
+
+          const ordersData = response.data ?? [];
+          const next = ordersData.length > 0 && response.cursor ? response.cursor : undefined;
+          return { items: ordersData.map((o) => this.parseOrder(o)), next };
+        }),
+      params
+    );
+  }
+
   async fetchPositions(marketId?: string): Promise<Position[]> {
     await this.ensureAuth();
 
@@ -826,7 +1210,7 @@ export class PredictFun extends Exchange {
     });
   }
 
-  async fetchBalance(): Promise<Record<string, number>> {
+  async fetchBalance(): Promise<Balance> {
     await this.ensureAuth();
 
     return this.withRetry(async () => {
@@ -835,34 +1219,19 @@ export class PredictFun extends Exchange {
       }>('GET', '/v1/balance', undefined, true);
 
       const data = response.data ?? {};
-      const balance = Number(data.availableBalance ?? data.balance ?? 0);
 
-      // Convert from wei to USDT (assuming 18 decimals)
-      const balanceUsdt = balance / 1e18;
+      // Convert from wei to USDT (assuming 18 decimals); the gap is held by open orders
+      const total = fromUnits(data.balance ?? data.availableBalance ?? 0, WEI_DECIMALS);
+      const free = Math.min(
+        fromUnits(data.availableBalance ?? data.balance ?? 0, WEI_DECIMALS),
+        total
+      );
 
-      return { USDT: balanceUsdt };
+      return { USDT: { free, used: total - free, total } };
     });
   }
 
   get walletAddress(): string | null {
     return this.address;
   }
-
-  override describe() {
-    return {
-      id: this.id,
-      name: this.name,
-      has: {
-        fetchMarkets: true,
-        fetchMarket: true,
-        createOrder: true,
-        cancelOrder: true,
-        fetchOrder: true,
-        fetchOpenOrders: true,
-        fetchPositions: true,
-        fetchBalance: true,
-        websocket: false,
-      },
-    };
-  }
 }
@@ -1,13 +1,29 @@
 export {
+  type Capability,
   Exchange,
   type ExchangeCapabilities,
   type ExchangeConfig,
+  type ExchangeDescription,
   OrderBookWebSocket,
   type OrderbookCallback,
+  type OrderbookStream,
   type OrderbookUpdate,
+  type OrderFlag,
+  PollingOrderBookStream,
+  type PollingStreamConfig,
+  parseRetryAfter,
+  RateLimiter,
+  type RateLimitRule,
+  type RateLimitScope,
+  type RateLimits,
+  type ResolvedOrderOptions,
   Strategy,
   type StrategyConfig,
   StrategyState,
+  SubscriptionStatus,
+  type SubscriptionStatusChange,
+  type Transport,
+  WebSocketChannel,
   type WebSocketConfig,
   WebSocketState,
 } from './core/index.js';
@@ -20,45 +36,115 @@ export {
   InvalidOrder,
   MarketNotFound,
   NetworkError,
+  NotSupported,
   RateLimitError,
 } from './errors/index.js';
 export {
   createExchange,
   Kalshi,
+  type KalshiFillCallback,
+  type KalshiTickerCallback,
+  type KalshiTickerUpdate,
+  type KalshiTradeCallback,
+  KalshiWebSocket,
+  type KalshiWsConfig,
   Limitless,
   LimitlessWebSocket,
   listExchanges,
+  type MarketRef,
+  type MarketRefKind,
   Opinion,
+  OpinionOrderbookStream,
+  type OpinionStreamConfig,
   Polymarket,
+  type PolymarketLastTrade,
+  type PolymarketTickSizeChange,
   PolymarketWebSocket,
   PredictFun,
+  PredictFunWebSocket,
+  type PredictFunWsConfig,
+  parseMarketRef,
+  type ResolvedMarket,
+  type ResolveMarketOptions,
+  resolveMarket,
 } from './exchanges/index.js';
 export {
+  ArbitrageKind,
+  type ArbitrageLeg,
+  type ArbitrageOpportunity,
+  ArbitrageScanner,
+  type ArbitrageScannerConfig,
+  type CompleteSetFill,
+  type CompleteSetLeg,
+  type FeeModel,
+  findCompleteSetArbitrage,
+  loadMatchOverrides,
+  type MarketMatch,
+  MarketMatcher,
+  type MarketMatcherConfig,
+  type MatchOverridePair,
+  type MatchOverrides,
+  type OrderbookSource,
+  type VenueMarket,
+} from './matching/index.js';
+export {
+  type Balance,
   type CreateOrderParams,
+  type CurrencyBalance,
   calculateDelta,
   type DeltaInfo,
+  type Event,
+  type FetchAllMarketsParams,
+  type FetchEventsParams,
   type FetchMarketsParams,
+  type FetchMyTradesParams,
+  type FetchOrderbookParams,
+  type FetchOrdersParams,
+  type FetchPriceHistoryParams,
+  type FetchPublicTradesParams,
+  LiquidityRole,
   type Market,
+  type MarketResolution,
+  MarketStatus,
   MarketUtils,
+  type OHLCV,
+  type OHLCVTimeframe,
+  OHLCVUtils,
   type Order,
   type Orderbook,
   OrderbookManager,
   OrderbookUtils,
+  type OrderResult,
   OrderSide,
   OrderStatus,
+  OrderType,
   OrderUtils,
   type OutcomeToken,
   type Position,
   PositionUtils,
+  type PriceHistoryInterval,
   type PriceLevel,
+  type PricePoint,
+  type PublicTrade,
+  TimeInForce,
+  type Trade,
 } from './types/index.js';
 
 export {
   Colors,
   clampPrice,
+  complementPrice,
   createLogger,
+  decimalPlaces,
+  divRound,
   formatPrice,
+  formatUnits,
   formatUsd,
+  fromUnits,
   logger,
+  mulDiv,
+  type Rounding,
   roundToTickSize,
+  toDecimalString,
+  toUnits,
 } from './utils/index.js';
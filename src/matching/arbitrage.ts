@@ -0,0 +1,318 @@
+import { EventEmitter } from 'node:events';
+import type { Exchange } from '../core/exchange.js';
+import type { Event } from '../types/event.js';
+import type { Market } from '../types/market.js';
+import type { Orderbook, PriceLevel } from '../types/orderbook.js';
+import type { MarketMatch, VenueMarket } from './matcher.js';
+
+/**
+ * Finds sets of outcomes that pay exactly 1 whatever happens and can be bought for less.
+ *
+ * Every opportunity is a complete set: Yes on one venue with the equivalent No on another, every
+ * outcome of one market, or Yes on every market of an exhaustive event. Asks are walked level by
+ * level, so the reported size is what the books can fill while each extra set still costs less
+ * than its payout after taker fees.
+ */
+
+export const ArbitrageKind = {
+  /** Complementary outcomes of equivalent markets on two exchanges */
+  CROSS: 'cross',
+  /** Every outcome of a single market */
+  INTRA: 'intra',
+  /** Yes on every market of an event where exactly one resolves Yes */
+  EVENT: 'event',
+} as const;
+export type ArbitrageKind = (typeof ArbitrageKind)[keyof typeof ArbitrageKind];
+
+/** One order of an opportunity */
+export interface ArbitrageLeg {
+  exchange: string;
+  market: Market;
+  outcome: string;
+  /** Size-weighted ask over the filled levels, before fees */
+  averagePrice: number;
+  /** Deepest ask level reached, i.e. the limit price that fills the whole size */
+  limitPrice: number;
+}
+
+export interface ArbitrageOpportunity {
+  kind: ArbitrageKind;
+  legs: ArbitrageLeg[];
+  /** Complete sets fillable at a profit, in shares per leg */
+  size: number;
+  /** Collateral needed to buy `size` sets, including taker fees */
+  cost: number;
+  /** `size` minus `cost`: the payout is 1 per set */
+  profit: number;
+  /** Profit per set */
+  edge: number;
+  /** When the books were read (ms since epoch) */
+  timestamp: number;
+}
+
+/** Taker fee per share bought at `price` on `market` */
+export type FeeModel = (market: Market, price: number) => number;
+
+/** Asks for one leg and the taker fee charged on them */
+export interface CompleteSetLeg {
+  asks: PriceLevel[];
+  /** Flat fee rate, used when `fee` is not given */
+  feeRateBps?: number;
+  /** Fee per share at a price, for venues whose fee depends on the price */
+  fee?: (price: number) => number;
+}
+
+export interface CompleteSetFill {
+  size: number;
+  cost: number;
+  legs: Array<{ averagePrice: number; limitPrice: number }>;
+}
+
+/** Loads the book of one outcome; swap in recorded books for tests and replays */
+export type OrderbookSource = (venue: VenueMarket, outcome: string) => Promise<Orderbook>;
+
+export interface ArbitrageScannerConfig {
+  /** Clients keyed by exchange ID, used by the default book source */
+  exchanges?: Record<string, Exchange>;
+  /** Book loader; defaults to `fetchOrderbook` on `exchanges` */
+  orderbookSource?: OrderbookSource;
+  /**
+   * Fee models keyed by exchange ID. Without one, a leg uses `takerFee` of its client in
+   * `exchanges`, then the market's `feeRateBps`.
+   */
+  fees?: Record<string, FeeModel>;
+  /** Minimum profit per set after fees (default: 0) */
+  minEdge?: number;
+  /** Cap on sets per opportunity */
+  maxSize?: number;
+  /** Milliseconds between scans once started (default: 5000) */
+  interval?: number;
+}
+
+/**
+ * Buy complete sets while the next set costs less than `1 - minEdge`, walking each leg's asks.
+ * Returns null when not even the best levels are profitable.
+ */
+export function findCompleteSetArbitrage(
+  legs: CompleteSetLeg[],
+  options: { minEdge?: number; maxSize?: number } = {}
+): CompleteSetFill | null {
+  const minEdge = options.minEdge ?? 0;
+  const maxSize = options.maxSize ?? Number.POSITIVE_INFINITY;
+  if (legs.length === 0) return null;
+
+  const fees = legs.map(
+    (leg) => leg.fee ?? ((price: number) => (price * (leg.feeRateBps ?? 0)) / 10_000)
+  );
+  const levels = legs.map(() => 0);
+  const remaining = legs.map((leg) => leg.asks[0]?.[1] ?? 0);
+  const notional = legs.map(() => 0);
+  const limits = legs.map(() => 0);
+  let size = 0;
+  let cost = 0;
+
+  while (size < maxSize) {
+    const prices = legs.map((leg, i) => leg.asks[levels[i] as number]?.[0]);
+    if (prices.some((price) => price === undefined)) break;
+
+    const setCost = prices.reduce<number>((sum, price, i) => {
+      return sum + (price as number) + (fees[i] as (price: number) => number)(price as number);
+    }, 0);
+    if (1 - setCost <= minEdge) break;
+
+    const step = Math.min(maxSize - size, ...remaining);
+    size += step;
+    cost += step * setCost;
+
+    for (let i = 0; i < legs.length; i++) {
+      notional[i] = (notional[i] as number) + step * (prices[i] as number);
+      limits[i] = prices[i] as number;
+      remaining[i] = (remaining[i] as number) - step;
+      if ((remaining[i] as number) <= 0) {
+        levels[i] = (levels[i] as number) + 1;
+        remaining[i] = legs[i]?.asks[levels[i] as number]?.[1] ?? 0;
+      }
+    }
+  }
+
+  if (size <= 0) return null;
+  return {
+    size,
+    cost,
+    legs: legs.map((_, i) => ({
+      averagePrice: (notional[i] as number) / size,
+      limitPrice: limits[i] as number,
+    })),
+  };
+}
+
+/**
+ * Polls orderbooks of linked markets and emits an `opportunity` event for every profitable
+ * complete set. Call `scan()` directly for a single pass.
+ */
+export class ArbitrageScanner extends EventEmitter {
+  private readonly config: ArbitrageScannerConfig;
+  private readonly matches: MarketMatch[] = [];
+  private readonly markets: VenueMarket[] = [];
+  private readonly events: Array<{ exchange: string; event: Event }> = [];
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private scanning = false;
+
+  constructor(config: ArbitrageScannerConfig = {}) {
+    super();
+    this.config = { interval: 5000, minEdge: 0, ...config };
+  }
+
+  /** Scan equivalent binary markets on two exchanges, e.g. from `MarketMatcher.match` */
+  addMatches(matches: MarketMatch[]): this {
+    this.matches.push(...matches);
+    return this;
+  }
+
+  /** Scan every outcome of single markets */
+  addMarkets(markets: VenueMarket[]): this {
+    this.markets.push(...markets);
+    return this;
+  }
+
+  /** Scan Yes across an event's markets; only add events where exactly one market resolves Yes */
+  addEvent(exchange: string, event: Event): this {
+    this.events.push({ exchange, event });
+    return this;
+  }
+
+  /** Read every book once and report what is profitable right now */
+  async scan(): Promise<ArbitrageOpportunity[]> {
+    const books = new Map<string, Promise<Orderbook>>();
+    const book = (venue: VenueMarket, outcome: string): Promise<Orderbook> => {
+      const key = `${venue.exchange}:${venue.market.id}:${outcome}`;
+      let pending = books.get(key);
+      if (!pending) {
+        pending = this.loadOrderbook(venue, outcome);
+        books.set(key, pending);
+      }
+      return pending;
+    };
+
+    const candidates: Array<{ kind: ArbitrageKind; legs: Array<[VenueMarket, string]> }> = [];
+
+    for (const { left, right, outcomeMap } of this.matches) {
+      if (left.market.outcomes.length !== 2 || right.market.outcomes.length !== 2) continue;
+      for (const outcome of left.market.outcomes) {
+        const equivalent = outcomeMap[outcome];
+        const complement = right.market.outcomes.find((o) => o !== equivalent);
+        if (!equivalent || !complement) continue;
+        candidates.push({
+          kind: ArbitrageKind.CROSS,
+          legs: [
+            [left, outcome],
+            [right, complement],
+          ],
+        });
+      }
+    }
+
+    for (const venue of this.markets) {
+      candidates.push({
+        kind: ArbitrageKind.INTRA,
+        legs: venue.market.outcomes.map((outcome) => [venue, outcome]),
+      });
+    }
+
+    for (const { exchange, event } of this.events) {
+      candidates.push({
+        kind: ArbitrageKind.EVENT,
+        legs: event.markets.map((market) => [
+          { exchange, market },
+          market.outcomes.find((o) => o.toLowerCase() === 'yes') ?? market.outcomes[0] ?? 'Yes',
+        ]),
+      });
+    }
+
+    const opportunities: ArbitrageOpportunity[] = [];
+    for (const { kind, legs } of candidates) {
+      try {
+        const orderbooks = await Promise.all(legs.map(([venue, outcome]) => book(venue, outcome)));
+        const fill = findCompleteSetArbitrage(
+          legs.map(([venue], i) => ({
+            asks: orderbooks[i]?.asks ?? [],
+            feeRateBps: venue.market.feeRateBps,
+            fee: this.feeModel(venue),
+          })),
+          { minEdge: this.config.minEdge, maxSize: this.config.maxSize }
+        );
+        if (!fill) continue;
+
+        const opportunity: ArbitrageOpportunity = {
+          kind,
+          legs: legs.map(([venue, outcome], i) => ({
+            exchange: venue.exchange,
+            market: venue.market,
+            outcome,
+            averagePrice: fill.legs[i]?.averagePrice ?? 0,
+            limitPrice: fill.legs[i]?.limitPrice ?? 0,
+          })),
+          size: fill.size,
+          cost: fill.cost,
+          profit: fill.size - fill.cost,
+          edge: (fill.size - fill.cost) / fill.size,
+          timestamp: Math.min(...orderbooks.map((b) => b.timestamp)),
+        };
+        opportunities.push(opportunity);
+        this.emit('opportunity', opportunity);
+      } catch (error) {
+        // An unhandled 'error' event would throw out of the scan and the interval tick
+        if (this.listenerCount('error') > 0) this.emit('error', error);
+      }
+    }
+
+    return opportunities.sort((a, b) => b.profit - a.profit);
+  }
+
+  /** Scan every `interval` milliseconds until `stop()` */
+  start(): void {
+    if (this.timer) return;
+
+    const tick = async () => {
+      if (this.scanning) return;
+      this.scanning = true;
+      try {
+        await this.scan();
+      } catch (error) {
+        if (this.listenerCount('error') > 0) this.emit('error', error);
+      } finally {
+        this.scanning = false;
+      }
+    };
+
+    this.timer = setInterval(tick, this.config.interval);
+    void tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private feeModel(venue: VenueMarket): ((price: number) => number) | undefined {
+    const model = this.config.fees?.[venue.exchange];
+    if (model) return (price) => model(venue.market, price);
+
+    const exchange = this.config.exchanges?.[venue.exchange];
+    if (exchange) return (price) => exchange.takerFee(venue.market, price);
+    return undefined;
+  }
+
+  private loadOrderbook(venue: VenueMarket, outcome: string): Promise<Orderbook> {
+    if (this.config.orderbookSource) {
+      return this.config.orderbookSource(venue, outcome);
+    }
+    const exchange = this.config.exchanges?.[venue.exchange];
+    if (!exchange) {
+      return Promise.reject(new Error(`No client for exchange '${venue.exchange}'`));
+    }
+    return exchange.fetchOrderbook(venue.market.id, { outcome });
+  }
+}
@@ -0,0 +1,21 @@
+export {
+  ArbitrageKind,
+  type ArbitrageLeg,
+  type ArbitrageOpportunity,
+  ArbitrageScanner,
+  type ArbitrageScannerConfig,
+  type CompleteSetFill,
+  type CompleteSetLeg,
+  type FeeModel,
+  findCompleteSetArbitrage,
+  type OrderbookSource,
+} from './arbitrage.js';
+export {
+  loadMatchOverrides,
+  type MarketMatch,
+  MarketMatcher,
+  type MarketMatcherConfig,
+  type MatchOverridePair,
+  type MatchOverrides,
+  type VenueMarket,
+} from './matcher.js';
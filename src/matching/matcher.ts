@@ -0,0 +1,369 @@
+import * as fs from 'node:fs';
+import type { Market } from '../types/market.js';
+
+/**
+ * Proposes pairs of markets on different exchanges that settle on the same question.
+ *
+ * Questions are compared as bags of normalized words. Antonyms such as below/above and negations
+ * are folded into a polarity flag first, so "BTC below 100k" pairs with "BTC above 100k" as an
+ * inverted match (Yes on one side is No on the other).
+ */
+
+/** A market together with the exchange it trades on */
+export interface VenueMarket {
+  exchange: string;
+  market: Market;
+}
+
+/** Two markets judged to settle on the same question */
+export interface MarketMatch {
+  left: VenueMarket;
+  right: VenueMarket;
+  /** 0-1, where 1 is a manual override */
+  confidence: number;
+  /** Yes on one side corresponds to No on the other */
+  inverted: boolean;
+  /** Outcome of `left` to the equivalent outcome of `right` */
+  outcomeMap: Record<string, string>;
+  /** Pair came from the override file rather than the heuristics */
+  manual: boolean;
+}
+
+/** One forced pair, referenced as `exchange:marketId` */
+export interface MatchOverridePair {
+  left: string;
+  right: string;
+  inverted?: boolean;
+  /** Outcome mapping for non-binary markets; binary markets map Yes/No from `inverted` */
+  outcomes?: Record<string, string>;
+}
+
+/** Hand-curated corrections applied on top of the heuristics */
+export interface MatchOverrides {
+  /** Pairs that always match */
+  pairs?: MatchOverridePair[];
+  /** Pairs that never match, in either order */
+  exclude?: Array<{ left: string; right: string }>;
+}
+
+export interface MarketMatcherConfig {
+  /** Drop proposals below this confidence (default: 0.6) */
+  minConfidence?: number;
+  /** Close times further apart than this never match (default: 7 days) */
+  maxCloseTimeDiffMs?: number;
+  /** Forced and forbidden pairs */
+  overrides?: MatchOverrides;
+  /** JSON file with `MatchOverrides`, read once on construction */
+  overridesPath?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEIGHTS = { question: 0.6, description: 0.15, closeTime: 0.15, outcomes: 0.1 } as const;
+
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'as',
+  'at',
+  'be',
+  'by',
+  'for',
+  'in',
+  'is',
+  'it',
+  'of',
+  'on',
+  'or',
+  'the',
+  'this',
+  'to',
+  'will',
+  'with',
+]);
+
+const NEGATIONS = new Set(['not', 'no', 'never', 'without', 'fail', 'fails']);
+
+/** Words folded onto their opposite, which flips the question's polarity */
+const ANTONYMS: Record<string, string> = {
+  below: 'above',
+  under: 'over',
+  lower: 'higher',
+  less: 'more',
+  fewer: 'more',
+  lose: 'win',
+  loses: 'wins',
+  decrease: 'increase',
+  down: 'up',
+  after: 'before',
+};
+
+const MONTHS = [
+  'january',
+  'february',
+  'march',
+  'april',
+  'may',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december',
+];
+
+const MAGNITUDES: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9, t: 1e12 };
+
+interface Features {
+  words: Set<string>;
+  numbers: Set<string>;
+  descriptionWords: Set<string>;
+  negated: boolean;
+  binary: boolean;
+}
+
+export class MarketMatcher {
+  private readonly minConfidence: number;
+  private readonly maxCloseTimeDiffMs: number;
+  private readonly overrides: MatchOverrides;
+
+  constructor(config: MarketMatcherConfig = {}) {
+    this.minConfidence = config.minConfidence ?? 0.6;
+    this.maxCloseTimeDiffMs = config.maxCloseTimeDiffMs ?? 7 * DAY_MS;
+    this.overrides = config.overridesPath
+      ? loadMatchOverrides(config.overridesPath)
+      : (config.overrides ?? {});
+  }
+
+  /**
+   * Propose equivalent pairs across exchanges, best first. Each market is paired at most once
+   * per other exchange; overrides win over heuristic proposals for the markets they name.
+   */
+  match(markets: VenueMarket[]): MarketMatch[] {
+    const byRef = new Map(markets.map((m) => [venueRef(m), m]));
+    const excluded = new Set(
+      (this.overrides.exclude ?? []).flatMap(({ left, right }) => [
+        `${left}|${right}`,
+        `${right}|${left}`,
+      ])
+    );
+
+    const manual: MarketMatch[] = [];
+    for (const pair of this.overrides.pairs ?? []) {
+      const left = byRef.get(pair.left);
+      const right = byRef.get(pair.right);
+      if (!left || !right) continue;
+      manual.push({
+        left,
+        right,
+        confidence: 1,
+        inverted: pair.inverted ?? false,
+        outcomeMap:
+          pair.outcomes ?? mapOutcomes(left.market, right.market, pair.inverted ?? false) ?? {},
+        manual: true,
+      });
+    }
+
+    const features = new Map(markets.map((m) => [m, extractFeatures(m.market)]));
+    const proposals: MarketMatch[] = [];
+    for (let i = 0; i < markets.length; i++) {
+      for (let j = i + 1; j < markets.length; j++) {
+        const left = markets[i] as VenueMarket;
+        const right = markets[j] as VenueMarket;
+        if (left.exchange === right.exchange) continue;
+        if (excluded.has(`${venueRef(left)}|${venueRef(right)}`)) continue;
+
+        const match = this.score(left, right, features);
+        if (match && match.confidence >= this.minConfidence) proposals.push(match);
+      }
+    }
+    proposals.sort((a, b) => b.confidence - a.confidence);
+
+    // Greedy one-to-one assignment per exchange pair, overrides first
+    const taken = new Set<string>();
+    const claim = (match: MarketMatch): boolean => {
+      const leftKey = `${venueRef(match.left)}>${match.right.exchange}`;
+      const rightKey = `${venueRef(match.right)}>${match.left.exchange}`;
+      if (taken.has(leftKey) || taken.has(rightKey)) return false;
+      taken.add(leftKey);
+      taken.add(rightKey);
+      return true;
+    };
+
+    return [...manual, ...proposals].filter(claim);
+  }
+
+  /** Score one pair, or null when the markets cannot be equivalent */
+  private score(
+    left: VenueMarket,
+    right: VenueMarket,
+    features: Map<VenueMarket, Features>
+  ): MarketMatch | null {
+    const a = features.get(left) as Features;
+    const b = features.get(right) as Features;
+
+    // Different thresholds or dates make otherwise identical questions different markets; one
+    // side may still omit a number the other spells out, typically the year
+    if (!isSubset(a.numbers, b.numbers) && !isSubset(b.numbers, a.numbers)) return null;
+
+    const closeTime = this.closeTimeScore(left.market.closeTime, right.market.closeTime);
+    if (closeTime === null) return null;
+
+    const inverted = a.negated !== b.negated;
+    const outcomeMap = mapOutcomes(left.market, right.market, inverted);
+    if (!outcomeMap) return null;
+
+    const description =
+      a.descriptionWords.size && b.descriptionWords.size
+        ? dice(a.descriptionWords, b.descriptionWords)
+        : dice(a.words, b.words);
+
+    const confidence =
+      WEIGHTS.question * dice(a.words, b.words) +
+      WEIGHTS.description * description +
+      WEIGHTS.closeTime * closeTime +
+      WEIGHTS.outcomes * (a.binary === b.binary ? 1 : 0);
+
+    return {
+      left,
+      right,
+      confidence: Math.round(confidence * 1000) / 1000,
+      inverted,
+      outcomeMap,
+      manual: false,
+    };
+  }
+
+  /** 1 for close times within a day, falling linearly to 0 at the limit; null beyond it */
+  private closeTimeScore(a?: Date, b?: Date): number | null {
+    if (!a || !b) return 0.5;
+    const diff = Math.abs(a.getTime() - b.getTime());
+    if (diff > this.maxCloseTimeDiffMs) return null;
+    if (diff <= DAY_MS) return 1;
+    return 1 - (diff - DAY_MS) / Math.max(this.maxCloseTimeDiffMs - DAY_MS, 1);
+  }
+}
+
+/** Read a JSON override file */
+export function loadMatchOverrides(path: string): MatchOverrides {
+  return JSON.parse(fs.readFileSync(path, 'utf-8')) as MatchOverrides;
+}
+
+function venueRef({ exchange, market }: VenueMarket): string {
+  return `${exchange}:${market.id}`;
+}
+
+function extractFeatures(market: Market): Features {
+  const question = tokenize(market.question);
+  return {
+    words: question.words,
+    numbers: question.numbers,
+    descriptionWords: tokenize(market.description).words,
+    negated: question.negated,
+    binary: isYesNo(market),
+  };
+}
+
+function tokenize(text: string): { words: Set<string>; numbers: Set<string>; negated: boolean } {
+  const words = new Set<string>();
+  const numbers = new Set<string>();
+  let negated = false;
+
+  const raw = text
+    .toLowerCase()
+    .replace(/(\d),(\d{3})/g, '$1$2')
+    .replace(/n't\b/g, ' not')
+    .split(/[^a-z0-9.%]+/);
+
+  for (const token of raw) {
+    const word = token.replace(/^\.+|\.+$/g, '');
+    if (!word || STOP_WORDS.has(word)) continue;
+
+    const number = parseNumber(word);
+    if (number !== null) {
+      numbers.add(number);
+      continue;
+    }
+    if (NEGATIONS.has(word)) {
+      negated = !negated;
+      continue;
+    }
+
+    const opposite = ANTONYMS[word];
+    if (opposite) negated = !negated;
+    words.add(stem(opposite ?? word));
+  }
+
+  return { words, numbers, negated };
+}
+
+/** Canonical form of numbers like "100k", "$1.5m" or "4.00%" */
+function parseNumber(word: string): string | null {
+  const match = /^(\d+(?:\.\d+)?)([kmbt])?%?$/.exec(word);
+  if (!match) return null;
+  const value = Number(match[1]) * (match[2] ? (MAGNITUDES[match[2]] ?? 1) : 1);
+  return String(value);
+}
+
+function stem(word: string): string {
+  const month = MONTHS.find((m) => word.length >= 3 && m.startsWith(word));
+  if (month) return month.slice(0, 3);
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+function normalizeOutcome(outcome: string): string {
+  return outcome.trim().toLowerCase();
+}
+
+function isYesNo(market: Market): boolean {
+  const outcomes = market.outcomes.map(normalizeOutcome).sort();
+  return outcomes.length === 2 && outcomes[0] === 'no' && outcomes[1] === 'yes';
+}
+
+/** Outcome of `left` to outcome of `right`, or null when some outcome has no counterpart */
+function mapOutcomes(
+  left: Market,
+  right: Market,
+  inverted: boolean
+): Record<string, string> | null {
+  const find = (name: string) => right.outcomes.find((o) => normalizeOutcome(o) === name);
+
+  if (isYesNo(left) && isYesNo(right)) {
+    const yes = find(inverted ? 'no' : 'yes') as string;
+    const no = find(inverted ? 'yes' : 'no') as string;
+    const leftYes = left.outcomes.find((o) => normalizeOutcome(o) === 'yes') as string;
+    const leftNo = left.outcomes.find((o) => normalizeOutcome(o) === 'no') as string;
+    return { [leftYes]: yes, [leftNo]: no };
+  }
+
+  if (inverted || left.outcomes.length !== right.outcomes.length) return null;
+
+  const map: Record<string, string> = {};
+  for (const outcome of left.outcomes) {
+    const counterpart = find(normalizeOutcome(outcome));
+    if (!counterpart) return null;
+    map[outcome] = counterpart;
+  }
+  return map;
+}
+
+/** Dice coefficient: shared words relative to the average set size */
+function dice(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared++;
+  }
+  return (2 * shared) / (a.size + b.size);
+}
+
+function isSubset(a: Set<string>, b: Set<string>): boolean {
+  for (const value of a) {
+    if (!b.has(value)) return false;
+  }
+  return true;
+}
@@ -0,0 +1,18 @@
+/**
+ * Balance types for account collateral.
+ */
+
+/** Amounts held in one currency */
+export interface CurrencyBalance {
+  /** Available for new orders */
+  free: number;
+  /** Reserved by resting orders, capped at total when orders commit more than the account holds */
+  used: number;
+  /** Free plus used */
+  total: number;
+  /** Amount the venue's exchange contract may spend on the account's behalf, for on-chain venues */
+  allowance?: number;
+}
+
+/** Account balances keyed by currency code (USDC, USD, USDT) */
+export type Balance = Record<string, CurrencyBalance>;
@@ -0,0 +1,32 @@
+/**
+ * Event types: groups of related markets traded together.
+ */
+
+import type { FetchMarketsParams, Market } from './market.js';
+
+/** A group of markets on one subject, e.g. every candidate in an election */
+export interface Event {
+  /** Unique event identifier */
+  id: string;
+  /** Event title */
+  title: string;
+  /** Event description or rules */
+  description: string;
+  /** Human-readable identifier used in venue URLs */
+  slug?: string;
+  /** Event page on the venue's website */
+  url?: string;
+  /** Venue category, e.g. "Politics" */
+  category?: string;
+  /** At most one child market can resolve Yes */
+  mutuallyExclusive: boolean;
+  /** Child markets settle through a neg-risk adapter, so No shares convert across markets */
+  negRisk: boolean;
+  /** Child markets */
+  markets: Market[];
+  /** Raw exchange-specific fields not covered above */
+  metadata: Record<string, unknown>;
+}
+
+/** Parameters for fetching events; `limit` and `offset` count events, not markets */
+export type FetchEventsParams = FetchMarketsParams;
@@ -1,3 +1,4 @@
+export type { Balance, CurrencyBalance } from './balance.js';
 export {
   type CryptoHourlyMarket,
   type CryptoMarketType,
@@ -6,16 +7,30 @@ export {
   TOKEN_ALIASES,
 } from './crypto-hourly.js';
 
-export { type FetchMarketsParams, type Market, MarketUtils, type OutcomeToken } from './market.js';
+export type { Event, FetchEventsParams } from './event.js';
+export {
+  type FetchAllMarketsParams,
+  type FetchMarketsParams,
+  type Market,
+  type MarketResolution,
+  MarketStatus,
+  MarketUtils,
+  type OutcomeToken,
+} from './market.js';
 export {
   type CreateOrderParams,
+  type FetchOrdersParams,
   type Order,
+  type OrderResult,
   OrderSide,
   OrderStatus,
+  OrderType,
   OrderUtils,
+  TimeInForce,
 } from './order.js';
 
 export {
+  type FetchOrderbookParams,
   type Orderbook,
   OrderbookManager,
   OrderbookUtils,
@@ -28,9 +43,17 @@ export {
   PositionUtils,
 } from './position.js';
 
-export type {
-  PriceHistoryInterval,
-  PricePoint,
-  PublicTrade,
-  Tag,
+export {
+  type FetchMyTradesParams,
+  type FetchPriceHistoryParams,
+  type FetchPublicTradesParams,
+  LiquidityRole,
+  type OHLCV,
+  type OHLCVTimeframe,
+  OHLCVUtils,
+  type PriceHistoryInterval,
+  type PricePoint,
+  type PublicTrade,
+  type Tag,
+  type Trade,
 } from './trade.js';
@@ -2,6 +2,29 @@
  * Market-related types for prediction markets.
  */
 
+/** Trading lifecycle of a market */
+export const MarketStatus = {
+  /** Accepting orders */
+  OPEN: 'open',
+  /** Trading has stopped but the outcome is not final yet */
+  CLOSED: 'closed',
+  /** Outcome is final */
+  RESOLVED: 'resolved',
+} as const;
+export type MarketStatus = (typeof MarketStatus)[keyof typeof MarketStatus];
+
+/** How a market settled, or the state of a settlement still being decided */
+export interface MarketResolution {
+  /** Winning outcome; undefined while pending, or when the market was voided or split */
+  outcome?: string;
+  /** When the outcome became final */
+  resolvedAt?: Date;
+  /** Collateral paid per share of each outcome (1 to the winner, fractions on a split); empty until final */
+  payouts: Record<string, number>;
+  /** The proposed outcome has been challenged and awaits arbitration */
+  disputed: boolean;
+}
+
 /** Represents a tradeable outcome with its token ID */
 export interface OutcomeToken {
   /** Outcome name (e.g., "Yes", "No") */
@@ -30,7 +53,25 @@ export interface Market {
   tickSize: number;
   /** Resolution criteria description */
   description: string;
-  /** Additional exchange-specific metadata */
+  /** Trading lifecycle status */
+  status: MarketStatus;
+  /** Token per outcome, in `outcomes` order; empty on venues that trade without token IDs */
+  outcomeTokens: OutcomeToken[];
+  /** Parent event or market group */
+  eventId?: string;
+  /** Venue category, e.g. "Politics" */
+  category?: string;
+  /** Human-readable identifier used in venue URLs */
+  slug?: string;
+  /** Market page on the venue's website */
+  url?: string;
+  /** Smallest order size the venue accepts, in shares */
+  minOrderSize?: number;
+  /** Taker fee rate in basis points */
+  feeRateBps?: number;
+  /** Settlement, once the market has resolved or its outcome is disputed */
+  resolution?: MarketResolution;
+  /** Raw exchange-specific fields not covered above */
   metadata: Record<string, unknown>;
 }
 
@@ -43,9 +84,7 @@ export const MarketUtils = {
 
   /** Check if market is still open for trading */
   isOpen(market: Market): boolean {
-    if ('closed' in market.metadata && market.metadata.closed) {
-      return false;
-    }
+    if (market.status !== MarketStatus.OPEN) return false;
     if (!market.closeTime) return true;
     return new Date() < market.closeTime;
   },
@@ -60,31 +99,24 @@ export const MarketUtils = {
     return Math.abs(1.0 - prices.reduce((a, b) => a + b, 0));
   },
 
-  /** Get token IDs from market metadata */
+  /** Get token IDs in outcome order */
   getTokenIds(market: Market): string[] {
-    const tokenIds = market.metadata.clobTokenIds;
-    if (!tokenIds) return [];
-    if (typeof tokenIds === 'string') {
-      try {
-        return JSON.parse(tokenIds) as string[];
-      } catch {
-        return [];
-      }
-    }
-    if (Array.isArray(tokenIds)) {
-      return tokenIds.map(String);
-    }
-    return [];
+    return market.outcomeTokens.map((token) => token.tokenId);
   },
 
-  /** Create OutcomeToken array from market */
+  /** Pair every outcome with its token ID ('' where the venue has none) */
   getOutcomeTokens(market: Market): OutcomeToken[] {
-    const tokenIds = MarketUtils.getTokenIds(market);
-    return market.outcomes.map((outcome, i) => ({
+    return market.outcomes.map((outcome) => ({
       outcome,
-      tokenId: tokenIds[i] ?? '',
+      tokenId: market.outcomeTokens.find((token) => token.outcome === outcome)?.tokenId ?? '',
     }));
   },
+
+  /** Token ID for an outcome, matched case-insensitively */
+  getTokenId(market: Market, outcome: string): string | undefined {
+    const name = outcome.toLowerCase();
+    return market.outcomeTokens.find((token) => token.outcome.toLowerCase() === name)?.tokenId;
+  },
 } as const;
 
 /** Parameters for fetching markets */
@@ -100,3 +132,8 @@ export interface FetchMarketsParams {
   /** Additional exchange-specific filters */
   [key: string]: unknown;
 }
+
+export interface FetchAllMarketsParams extends FetchMarketsParams {
+  /** Fail instead of loading more than this many markets (default: 10000) */
+  maxItems?: number;
+}
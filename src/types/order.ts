@@ -9,6 +9,26 @@ export const OrderSide = {
 } as const;
 export type OrderSide = (typeof OrderSide)[keyof typeof OrderSide];
 
+/** Order type */
+export const OrderType = {
+  LIMIT: 'limit',
+  MARKET: 'market',
+} as const;
+export type OrderType = (typeof OrderType)[keyof typeof OrderType];
+
+/** How long an order stays on the book */
+export const TimeInForce = {
+  /** Good till cancelled */
+  GTC: 'GTC',
+  /** Immediate or cancel: fill what is possible now, cancel the rest */
+  IOC: 'IOC',
+  /** Fill or kill: fill completely now or cancel */
+  FOK: 'FOK',
+  /** Good till date: rests until `expiresAt` */
+  GTD: 'GTD',
+} as const;
+export type TimeInForce = (typeof TimeInForce)[keyof typeof TimeInForce];
+
 /** Order status */
 export const OrderStatus = {
   PENDING: 'pending',
@@ -16,6 +36,7 @@ export const OrderStatus = {
   FILLED: 'filled',
   PARTIALLY_FILLED: 'partially_filled',
   CANCELLED: 'cancelled',
+  EXPIRED: 'expired',
   REJECTED: 'rejected',
 } as const;
 export type OrderStatus = (typeof OrderStatus)[keyof typeof OrderStatus];
@@ -44,6 +65,11 @@ export interface Order {
   updatedAt?: Date;
 }
 
+/** Outcome of one entry in a batch of order placements or cancellations */
+export type OrderResult =
+  | { success: true; order: Order }
+  | { success: false; error: Error; orderId?: string };
+
 /** Helper functions for Order */
 export const OrderUtils = {
   /** Get remaining unfilled amount */
@@ -68,6 +94,19 @@ export const OrderUtils = {
   },
 } as const;
 
+/** Filters for order-history queries */
+export interface FetchOrdersParams {
+  marketId?: string;
+  /** Only orders in this status, or in any of these statuses */
+  status?: OrderStatus | OrderStatus[];
+  /** Only orders created at or after this time */
+  since?: Date;
+  /** Only orders created before this time */
+  until?: Date;
+  /** Maximum number of orders to return */
+  limit?: number;
+}
+
 /** Parameters for creating a new order */
 export interface CreateOrderParams {
   marketId: string;
@@ -77,6 +116,16 @@ export interface CreateOrderParams {
   size: number;
   /** Token ID (required for some exchanges) */
   tokenId?: string;
+  /** Order type (default: limit). Market orders use `price` as the worst acceptable price */
+  type?: OrderType;
+  /** Time in force (default: GTC for limit orders, the venue's immediate fill for market orders) */
+  timeInForce?: TimeInForce;
+  /** Expiry of a GTD order; implies GTD when `timeInForce` is omitted */
+  expiresAt?: Date;
+  /** Only add liquidity: reject instead of matching on arrival */
+  postOnly?: boolean;
+  /** Only decrease an existing position */
+  reduceOnly?: boolean;
   /** Additional exchange-specific parameters */
   params?: Record<string, unknown>;
 }
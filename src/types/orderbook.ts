@@ -2,6 +2,8 @@
  * Orderbook-related types for market data.
  */
 
+import { complementPrice } from '../utils/price.js';
+
 /** Price level: [price, size] */
 export type PriceLevel = [price: number, size: number];
 
@@ -19,6 +21,16 @@ export interface Orderbook {
   marketId: string;
 }
 
+/** Parameters for fetching an orderbook */
+export interface FetchOrderbookParams {
+  /** Outcome name (e.g., "Yes"); defaults to the first outcome */
+  outcome?: string;
+  /** Outcome token ID; takes precedence over outcome */
+  tokenId?: string;
+  /** Maximum number of price levels per side */
+  depth?: number;
+}
+
 /** Helper functions for Orderbook */
 export const OrderbookUtils = {
   /** Get best bid price */
@@ -53,7 +65,8 @@ export const OrderbookUtils = {
       bids?: Array<{ price: string; size: string }>;
       asks?: Array<{ price: string; size: string }>;
     },
-    tokenId = ''
+    tokenId = '',
+    marketId = ''
   ): Orderbook {
     const bids: PriceLevel[] = [];
     const asks: PriceLevel[] = [];
@@ -82,9 +95,27 @@ export const OrderbookUtils = {
       asks,
       timestamp: Date.now(),
       assetId: tokenId,
-      marketId: '',
+      marketId,
     };
   },
+
+  /** Keep at most `depth` levels per side */
+  truncate(orderbook: Orderbook, depth?: number): Orderbook {
+    if (depth === undefined || depth <= 0) return orderbook;
+    return {
+      ...orderbook,
+      bids: orderbook.bids.slice(0, depth),
+      asks: orderbook.asks.slice(0, depth),
+    };
+  },
+
+  /** Derive the complementary outcome's book of a binary market (price -> 1 - price) */
+  invert(orderbook: Orderbook, assetId = orderbook.assetId): Orderbook {
+    const complement = ([price, size]: PriceLevel): PriceLevel => [complementPrice(price), size];
+    const bids = orderbook.asks.map(complement).sort((a, b) => b[0] - a[0]);
+    const asks = orderbook.bids.map(complement).sort((a, b) => a[0] - b[0]);
+    return { ...orderbook, bids, asks, assetId };
+  },
 } as const;
 
 /** Manages multiple orderbooks efficiently */
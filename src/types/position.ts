@@ -14,6 +14,8 @@ export interface Position {
   averagePrice: number;
   /** Current market price */
   currentPrice: number;
+  /** Profit/loss already realized by selling or redeeming, where the venue reports it */
+  realizedPnl?: number;
 }
 
 /** Helper functions for Position */
@@ -1,23 +1,38 @@
+import { complementPrice } from '../utils/price.js';
+import type { Market } from './market.js';
+import type { OrderSide } from './order.js';
+
+/** One execution on a market's public tape */
 export interface PublicTrade {
-  proxyWallet: string;
-  side: string;
-  asset: string;
-  conditionId: string;
-  size: number;
+  /** Venue trade identifier, when it has one */
+  id?: string;
+  /** Market identifier */
+  marketId: string;
+  /** Outcome traded */
+  outcome: string;
+  /** Side of the taker */
+  side: OrderSide;
+  /** Execution price (0-1) */
   price: number;
+  /** Shares traded */
+  size: number;
+  /** Execution time */
   timestamp: Date;
-  title?: string;
-  slug?: string;
-  icon?: string;
-  eventSlug?: string;
-  outcome?: string;
-  outcomeIndex?: number;
-  name?: string;
-  pseudonym?: string;
-  bio?: string;
-  profileImage?: string;
-  profileImageOptimized?: string;
+  /** Settlement transaction, for on-chain venues */
   transactionHash?: string;
+  /** Raw exchange-specific fields, e.g. trader profiles */
+  metadata: Record<string, unknown>;
+}
+
+export interface FetchPublicTradesParams {
+  /** Only trades in this market; some venues have no exchange-wide tape */
+  market?: Market | string;
+  /** Stop at trades older than this */
+  since?: Date;
+  /** Maximum number of trades, newest first (default: 100 for `fetchPublicTrades`) */
+  limit?: number;
+  /** Additional exchange-specific filters */
+  [key: string]: unknown;
 }
 
 export interface PricePoint {
@@ -39,4 +54,144 @@ export interface Tag {
   raw: Record<string, unknown>;
 }
 
+/** Window of price history ending now; `1m` is one month */
 export type PriceHistoryInterval = '1m' | '1h' | '6h' | '1d' | '1w' | 'max';
+
+export interface FetchPriceHistoryParams {
+  /** Outcome name or index (default: the first outcome) */
+  outcome?: number | string;
+  /** Window ending now, used when `since` is not set (default: '1m') */
+  interval?: PriceHistoryInterval;
+  /** Minutes between points (default: 10) */
+  fidelity?: number;
+  /** Start of the window; takes precedence over `interval` */
+  since?: Date;
+  /** End of the window (default: now) */
+  until?: Date;
+}
+
+/** Candle length; `1m` is one minute here */
+export type OHLCVTimeframe = '1m' | '5m' | '15m' | '30m' | '1h' | '4h' | '1d' | '1w';
+
+/** One candle of an outcome's price */
+export interface OHLCV {
+  /** Start of the candle */
+  timestamp: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  /** Shares traded; 0 when built from price points that carry no volume */
+  volume: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const TIMEFRAME_MS: Record<OHLCVTimeframe, number> = {
+  '1m': MINUTE_MS,
+  '5m': 5 * MINUTE_MS,
+  '15m': 15 * MINUTE_MS,
+  '30m': 30 * MINUTE_MS,
+  '1h': 60 * MINUTE_MS,
+  '4h': 240 * MINUTE_MS,
+  '1d': 1440 * MINUTE_MS,
+  '1w': 7 * 1440 * MINUTE_MS,
+};
+
+/** Helper functions for candles */
+export const OHLCVUtils = {
+  /** Length of a timeframe in milliseconds */
+  timeframeMs(timeframe: OHLCVTimeframe): number {
+    return TIMEFRAME_MS[timeframe];
+  },
+
+  /** Bucket price points into candles; buckets without points are skipped */
+  fromPricePoints(points: PricePoint[], timeframe: OHLCVTimeframe): OHLCV[] {
+    return OHLCVUtils.resample(
+      points.map((point) => ({
+        timestamp: point.timestamp,
+        open: point.price,
+        high: point.price,
+        low: point.price,
+        close: point.price,
+        volume: 0,
+      })),
+      timeframe
+    );
+  },
+
+  /** Merge shorter candles into `timeframe` candles, aligned to the Unix epoch */
+  resample(candles: OHLCV[], timeframe: OHLCVTimeframe): OHLCV[] {
+    const length = TIMEFRAME_MS[timeframe];
+    const buckets = new Map<number, OHLCV>();
+    const sorted = [...candles].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    for (const candle of sorted) {
+      const start = Math.floor(candle.timestamp.getTime() / length) * length;
+      const bucket = buckets.get(start);
+      if (!bucket) {
+        buckets.set(start, { ...candle, timestamp: new Date(start) });
+        continue;
+      }
+      bucket.high = Math.max(bucket.high, candle.high);
+      bucket.low = Math.min(bucket.low, candle.low);
+      bucket.close = candle.close;
+      bucket.volume += candle.volume;
+    }
+
+    return [...buckets.values()];
+  },
+
+  /** Candles of the complementary outcome of a binary market (price -> 1 - price) */
+  invert(candles: OHLCV[]): OHLCV[] {
+    return candles.map((candle) => ({
+      ...candle,
+      open: complementPrice(candle.open),
+      high: complementPrice(candle.low),
+      low: complementPrice(candle.high),
+      close: complementPrice(candle.close),
+    }));
+  },
+} as const;
+
+/** Whether an execution rested on the book or crossed it */
+export const LiquidityRole = {
+  MAKER: 'maker',
+  TAKER: 'taker',
+} as const;
+export type LiquidityRole = (typeof LiquidityRole)[keyof typeof LiquidityRole];
+
+/** One execution of the account's own orders */
+export interface Trade {
+  /** Venue fill identifier */
+  id: string;
+  /** Order the fill belongs to */
+  orderId?: string;
+  /** Market identifier */
+  marketId: string;
+  /** Outcome traded */
+  outcome: string;
+  /** Buy or sell */
+  side: OrderSide;
+  /** Execution price (0-1) */
+  price: number;
+  /** Shares filled */
+  size: number;
+  /** Fee charged, in the venue's collateral currency */
+  fee: number;
+  /** Maker or taker, when the venue reports it */
+  role?: LiquidityRole;
+  /** Settlement transaction, for on-chain venues */
+  transactionHash?: string;
+  /** Execution time */
+  timestamp: Date;
+}
+
+export interface FetchMyTradesParams {
+  /** Only fills in this market */
+  marketId?: string;
+  /** Only fills at or after this time */
+  since?: Date;
+  /** Maximum number of fills to return, newest first */
+  limit?: number;
+}
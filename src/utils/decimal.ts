@@ -0,0 +1,124 @@
+/**
+ * Exact fixed-point arithmetic for prices, sizes and on-chain amounts.
+ *
+ * Numbers are read through their shortest decimal representation, so `0.57` scales to exactly
+ * 57 cents instead of the 56 that `Math.floor(0.57 * 100)` produces.
+ */
+
+/** How to resolve digits beyond the target precision */
+export type Rounding = 'floor' | 'ceil' | 'round';
+
+interface ParsedDecimal {
+  negative: boolean;
+  /** All significant digits, as an integer */
+  digits: bigint;
+  /** Number of those digits after the decimal point (may be negative) */
+  scale: number;
+}
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+function parseDecimal(value: number | string): ParsedDecimal {
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    throw new RangeError(`Cannot convert ${value} to a decimal`);
+  }
+
+  const text = String(value).trim();
+  const match = DECIMAL_PATTERN.exec(text);
+  const [, sign, whole = '', fraction = '', exponent = '0'] = match ?? [];
+  if (!match || whole.length + fraction.length === 0) {
+    throw new RangeError(`Invalid decimal: "${text}"`);
+  }
+
+  return {
+    negative: sign === '-',
+    digits: BigInt(`${whole}${fraction}` || '0'),
+    scale: fraction.length - Number(exponent),
+  };
+}
+
+/** Divide with an explicit rounding rule; `round` sends halves away from zero */
+export function divRound(dividend: bigint, divisor: bigint, rounding: Rounding = 'floor'): bigint {
+  if (divisor === 0n) {
+    throw new RangeError('Division by zero');
+  }
+
+  const quotient = dividend / divisor;
+  const remainder = dividend % divisor;
+  if (remainder === 0n) return quotient;
+
+  const negative = dividend < 0n !== divisor < 0n;
+  switch (rounding) {
+    case 'floor':
+      return negative ? quotient - 1n : quotient;
+    case 'ceil':
+      return negative ? quotient : quotient + 1n;
+    case 'round': {
+      const twice = (remainder < 0n ? -remainder : remainder) * 2n;
+      const absDivisor = divisor < 0n ? -divisor : divisor;
+      if (twice < absDivisor) return quotient;
+      return negative ? quotient - 1n : quotient + 1n;
+    }
+  }
+}
+
+/** `a * b / divisor` without intermediate rounding */
+export function mulDiv(
+  a: bigint,
+  b: bigint,
+  divisor: bigint,
+  rounding: Rounding = 'floor'
+): bigint {
+  return divRound(a * b, divisor, rounding);
+}
+
+/** Number of fractional digits in a value's shortest decimal representation */
+export function decimalPlaces(value: number | string): number {
+  const { digits, scale } = parseDecimal(value);
+  if (digits === 0n || scale <= 0) return 0;
+
+  let places = scale;
+  let rest = digits;
+  while (places > 0 && rest % 10n === 0n) {
+    rest /= 10n;
+    places--;
+  }
+  return places;
+}
+
+/** Scale a decimal to an integer count of `10^-decimals` units, e.g. USDC to micro-USDC */
+export function toUnits(
+  value: number | string,
+  decimals: number,
+  rounding: Rounding = 'round'
+): bigint {
+  const { negative, digits, scale } = parseDecimal(value);
+  const signed = negative ? -digits : digits;
+  const shift = decimals - scale;
+
+  if (shift >= 0) return signed * 10n ** BigInt(shift);
+  return divRound(signed, 10n ** BigInt(-shift), rounding);
+}
+
+/** Plain decimal string for an integer count of `10^-decimals` units */
+export function formatUnits(units: bigint | number | string, decimals: number): string {
+  const value = typeof units === 'bigint' ? units : toUnits(units, 0);
+  const negative = value < 0n;
+  const digits = (negative ? -value : value).toString().padStart(decimals + 1, '0');
+
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  const text = fraction ? `${whole}.${fraction}` : whole;
+  return negative ? `-${text}` : text;
+}
+
+/** Nearest number to an integer count of `10^-decimals` units */
+export function fromUnits(units: bigint | number | string, decimals: number): number {
+  return Number(formatUnits(units, decimals));
+}
+
+/** Plain decimal string for a number, without exponent notation */
+export function toDecimalString(value: number | string): string {
+  const places = decimalPlaces(value);
+  return formatUnits(toUnits(value, places), places);
+}
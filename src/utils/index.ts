@@ -1,2 +1,18 @@
+export {
+  decimalPlaces,
+  divRound,
+  formatUnits,
+  fromUnits,
+  mulDiv,
+  type Rounding,
+  toDecimalString,
+  toUnits,
+} from './decimal.js';
 export { Colors, createLogger, logger } from './logger.js';
-export { clampPrice, formatPrice, formatUsd, roundToTickSize } from './price.js';
+export {
+  clampPrice,
+  complementPrice,
+  formatPrice,
+  formatUsd,
+  roundToTickSize,
+} from './price.js';
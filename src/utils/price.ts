@@ -1,5 +1,23 @@
-export function roundToTickSize(price: number, tickSize: number): number {
-  return Math.round(price / tickSize) * tickSize;
+import { decimalPlaces, divRound, fromUnits, type Rounding, toUnits } from './decimal.js';
+
+/** Snap a price to the nearest multiple of `tickSize`, exactly: 0.57 stays 0.57 */
+export function roundToTickSize(
+  price: number,
+  tickSize: number,
+  rounding: Rounding = 'round'
+): number {
+  const decimals = Math.max(decimalPlaces(price), decimalPlaces(tickSize));
+  const tick = toUnits(tickSize, decimals);
+  if (tick === 0n) return price;
+
+  const ticks = divRound(toUnits(price, decimals), tick, rounding);
+  return fromUnits(ticks * tick, decimals);
+}
+
+/** Price of the opposite outcome in a binary market (1 - price), without float residue */
+export function complementPrice(price: number | string): number {
+  const decimals = decimalPlaces(price);
+  return fromUnits(10n ** BigInt(decimals) - toUnits(price, decimals), decimals);
 }
 
 export function clampPrice(price: number, min = 0, max = 1): number {
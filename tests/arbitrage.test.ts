@@ -0,0 +1,214 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  ArbitrageKind,
+  type ArbitrageOpportunity,
+  ArbitrageScanner,
+  findCompleteSetArbitrage,
+  Kalshi,
+  type Orderbook,
+  type PriceLevel,
+  type VenueMarket,
+} from '../src/index.js';
+import { market } from './helpers.js';
+
+const book = (asks: PriceLevel[]): Orderbook => ({
+  bids: [],
+  asks,
+  timestamp: 1_700_000_000_000,
+  assetId: '',
+  marketId: '',
+});
+
+/** Recorded books keyed by `exchange:marketId:outcome` */
+const recorded =
+  (books: Record<string, PriceLevel[]>) => async (venue: VenueMarket, outcome: string) =>
+    book(books[`${venue.exchange}:${venue.market.id}:${outcome}`] ?? []);
+
+describe('findCompleteSetArbitrage', () => {
+  it('should fill only the depth that stays profitable', () => {
+    // #given
+    const legs = [
+      {
+        asks: [
+          [0.4, 100],
+          [0.45, 100],
+        ] as PriceLevel[],
+      },
+      {
+        asks: [
+          [0.5, 50],
+          [0.58, 500],
+        ] as PriceLevel[],
+      },
+    ];
+
+    // #when
+    const fill = findCompleteSetArbitrage(legs);
+
+    // #then
+    expect(fill?.size).toBe(100);
+    expect(fill?.cost).toBeCloseTo(94);
+    expect(fill?.legs[0]).toEqual({ averagePrice: 0.4, limitPrice: 0.4 });
+    expect(fill?.legs[1]?.averagePrice).toBeCloseTo(0.54);
+    expect(fill?.legs[1]?.limitPrice).toBe(0.58);
+  });
+
+  it('should account for taker fees', () => {
+    // #given
+    const legs = [
+      { asks: [[0.49, 10]] as PriceLevel[], feeRateBps: 300 },
+      { asks: [[0.49, 10]] as PriceLevel[], feeRateBps: 300 },
+    ];
+
+    // #when
+    const fill = findCompleteSetArbitrage(legs);
+
+    // #then
+    expect(fill).toBeNull();
+  });
+});
+
+describe('ArbitrageScanner', () => {
+  it('should report cross-exchange and intra-market opportunities', async () => {
+    // #given
+    const kalshi: VenueMarket = { exchange: 'kalshi', market: market('KX') };
+    const polymarket: VenueMarket = { exchange: 'polymarket', market: market('0x1') };
+    const scanner = new ArbitrageScanner({
+      orderbookSource: recorded({
+        'kalshi:KX:Yes': [[0.42, 30]],
+        'kalshi:KX:No': [[0.6, 30]],
+        'polymarket:0x1:Yes': [[0.5, 100]],
+        'polymarket:0x1:No': [[0.55, 10]],
+      }),
+    });
+    scanner
+      .addMatches([
+        {
+          left: kalshi,
+          right: polymarket,
+          confidence: 1,
+          inverted: false,
+          outcomeMap: { Yes: 'Yes', No: 'No' },
+          manual: true,
+        },
+      ])
+      .addMarkets([polymarket]);
+    const emitted: ArbitrageOpportunity[] = [];
+    scanner.on('opportunity', (o: ArbitrageOpportunity) => emitted.push(o));
+
+    // #when
+    const opportunities = await scanner.scan();
+
+    // #then
+    expect(opportunities).toHaveLength(1);
+    expect(emitted).toEqual(opportunities);
+    expect(opportunities[0]).toMatchObject({
+      kind: ArbitrageKind.CROSS,
+      size: 10,
+      legs: [
+        { exchange: 'kalshi', outcome: 'Yes', limitPrice: 0.42 },
+        { exchange: 'polymarket', outcome: 'No', limitPrice: 0.55 },
+      ],
+    });
+    expect(opportunities[0]?.profit).toBeCloseTo(0.3);
+  });
+
+  it('should sum Yes across the markets of an event', async () => {
+    // #given
+    const candidates = ['a', 'b', 'c'].map((id) => market(id));
+    const orderbookSource = vi.fn(
+      recorded({
+        'polymarket:a:Yes': [[0.3, 20]],
+        'polymarket:b:Yes': [[0.3, 20]],
+        'polymarket:c:Yes': [[0.3, 5]],
+      })
+    );
+    const scanner = new ArbitrageScanner({ orderbookSource, minEdge: 0.05 });
+    scanner.addEvent('polymarket', {
+      id: 'e',
+      title: 'Winner',
+      description: '',
+      mutuallyExclusive: true,
+      negRisk: true,
+      markets: candidates,
+      metadata: {},
+    });
+
+    // #when
+    const [opportunity] = await scanner.scan();
+
+    // #then
+    expect(orderbookSource).toHaveBeenCalledTimes(3);
+    expect(opportunity?.kind).toBe(ArbitrageKind.EVENT);
+    expect(opportunity?.size).toBe(5);
+    expect(opportunity?.edge).toBeCloseTo(0.1);
+  });
+
+  it('should charge Kalshi legs its price-dependent taker fee', async () => {
+    // #given
+    const kalshi: VenueMarket = { exchange: 'kalshi', market: market('KX') };
+    const opinion: VenueMarket = { exchange: 'opinion', market: market('42') };
+    const match = {
+      left: kalshi,
+      right: opinion,
+      confidence: 1,
+      inverted: false,
+      outcomeMap: { Yes: 'Yes', No: 'No' },
+      manual: true,
+    };
+    const orderbookSource = recorded({
+      'kalshi:KX:Yes': [[0.5, 10]],
+      'opinion:42:No': [[0.485, 10]],
+    });
+
+    // #when
+    const feeFree = await new ArbitrageScanner({ orderbookSource }).addMatches([match]).scan();
+    const withFees = await new ArbitrageScanner({
+      orderbookSource,
+      exchanges: { kalshi: new Kalshi() },
+      fees: { opinion: () => 0 },
+    })
+      .addMatches([match])
+      .scan();
+
+    // #then
+    expect(new Kalshi().takerFee(kalshi.market, 0.5)).toBeCloseTo(0.0175);
+    expect(feeFree).toHaveLength(1);
+    expect(withFees).toEqual([]);
+  });
+
+  it('should not throw when nobody listens for errors', async () => {
+    // #given
+    const scanner = new ArbitrageScanner({
+      orderbookSource: async () => {
+        throw new Error('offline');
+      },
+    });
+    scanner.addMarkets([{ exchange: 'kalshi', market: market('KX') }]);
+
+    // #when
+    const opportunities = await scanner.scan();
+
+    // #then
+    expect(opportunities).toEqual([]);
+  });
+
+  it('should emit book errors without stopping the scan', async () => {
+    // #given
+    const scanner = new ArbitrageScanner({
+      orderbookSource: async () => {
+        throw new Error('offline');
+      },
+    });
+    scanner.addMarkets([{ exchange: 'kalshi', market: market('KX') }]);
+    const errors: unknown[] = [];
+    scanner.on('error', (error) => errors.push(error));
+
+    // #when
+    const opportunities = await scanner.scan();
+
+    // #then
+    expect(opportunities).toEqual([]);
+    expect(errors).toHaveLength(1);
+  });
+});
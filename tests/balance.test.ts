@@ -0,0 +1,145 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Kalshi, Limitless, NetworkError, Opinion, Polymarket } from '../src/index.js';
+import { json, kalshiPrivateKeyPem } from './helpers.js';
+
+describe('fetchBalance', () => {
+  it('should count collateral held by resting Kalshi buy orders as used', async () => {
+    // #given
+    const privateKeyPem = kalshiPrivateKeyPem();
+    const transport = vi.fn(async (url: string | URL) => {
+      if (String(url).includes('/portfolio/balance')) return json({ balance: 10_000 });
+      return json({
+        orders: [
+          { order_id: 'b', action: 'buy', side: 'yes', yes_price: 40, initial_count: 50 },
+          { order_id: 's', action: 'sell', side: 'yes', yes_price: 70, initial_count: 20 },
+        ],
+      });
+    });
+    const exchange = new Kalshi({ apiKeyId: 'key', privateKeyPem, transport });
+
+    // #when
+    const balance = await exchange.fetchBalance();
+
+    // #then
+    expect(balance).toEqual({ USD: { free: 100, used: 20, total: 120 } });
+  });
+
+  it('should read frozen Opinion collateral', async () => {
+    // #given
+    const transport = vi.fn(async () =>
+      json({
+        code: 0,
+        result: { balances: [{ available_balance: '75.5', frozen_balance: '24.5' }] },
+      })
+    );
+    const exchange = new Opinion({
+      apiKey: 'key',
+      privateKey: `0x${'1'.repeat(64)}`,
+      multiSigAddr: '0x1',
+      transport,
+    });
+
+    // #when
+    const balance = await exchange.fetchBalance();
+
+    // #then
+    expect(balance.USDC).toEqual({ free: 75.5, used: 24.5, total: 100 });
+  });
+
+  it('should keep total equal to free plus used when orders commit more than the wallet holds', async () => {
+    // #given
+    const exchange = new Polymarket({ privateKey: `0x${'11'.repeat(32)}` });
+    Object.assign(exchange as unknown as Record<string, unknown>, {
+      clobClient: { getBalanceAllowance: async () => ({ balance: '100000000', allowance: '0' }) },
+      clobClientAuthenticated: true,
+    });
+    vi.spyOn(
+      exchange as unknown as { openOrderCollateral(): Promise<number> },
+      'openOrderCollateral'
+    ).mockResolvedValue(150);
+
+    // #when
+    const balance = await exchange.fetchBalance();
+
+    // #then
+    expect(balance.USDC).toMatchObject({ free: 0, used: 100, total: 100 });
+  });
+
+  describe('Limitless', () => {
+    const limitless = (transport: (url: string | URL) => Promise<Response>) => {
+      const exchange = new Limitless({ privateKey: `0x${'11'.repeat(32)}`, transport });
+      Object.assign(exchange as unknown as Record<string, unknown>, { authenticated: true });
+      return exchange;
+    };
+
+    it('should fall back to the API balance when the RPC read fails', async () => {
+      // #given
+      const exchange = limitless(async (url) => {
+        if (String(url).includes('mainnet.base.org')) return new Response('down', { status: 503 });
+        if (String(url).includes('/portfolio/trading/allowance')) {
+          return json({ balance: 40, allowance: 1000 });
+        }
+        return json([]);
+      });
+
+      // #when
+      const balance = await exchange.fetchBalance();
+
+      // #then
+      expect(balance.USDC).toEqual({ free: 40, used: 0, total: 40, allowance: 1000 });
+    });
+
+    it('should throw instead of reporting zero when no balance source answers', async () => {
+      // #given
+      const exchange = limitless(async (url) => {
+        if (String(url).includes('mainnet.base.org')) {
+          return json({ jsonrpc: '2.0', id: 1, error: { message: 'rate limited' } });
+        }
+        if (String(url).includes('/portfolio/trading/allowance')) return json({});
+        return json([]);
+      });
+
+      // #when
+      const result = exchange.fetchBalance();
+
+      // #then
+      await expect(result).rejects.toThrow(NetworkError);
+    });
+
+    it('should keep the on-chain balance when the allowance endpoint fails', async () => {
+      // #given
+      const exchange = limitless(async (url) => {
+        if (String(url).includes('mainnet.base.org')) {
+          return json({ result: `0x${(25_000_000).toString(16)}` });
+        }
+        if (String(url).includes('/portfolio/trading/allowance')) {
+          return new Response('boom', { status: 500 });
+        }
+        return json([]);
+      });
+
+      // #when
+      const balance = await exchange.fetchBalance();
+
+      // #then
+      expect(balance.USDC).toEqual({ free: 25, used: 0, total: 25, allowance: undefined });
+    });
+
+    it('should throw when both balance sources fail', async () => {
+      // #given
+      const exchange = limitless(async (url) => {
+        if (String(url).includes('mainnet.base.org')) return new Response('down', { status: 503 });
+        if (String(url).includes('/portfolio/trading/allowance')) {
+          return new Response('boom', { status: 500 });
+        }
+        return json([]);
+      });
+
+      // #when
+      const result = exchange.fetchBalance();
+
+      // #then
+      await expect(result).rejects.toThrow(NetworkError);
+    });
+  });
+});
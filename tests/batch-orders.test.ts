@@ -0,0 +1,287 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  type Balance,
+  type CreateOrderParams,
+  Exchange,
+  InvalidOrder,
+  Kalshi,
+  type Market,
+  NetworkError,
+  type Order,
+  type Orderbook,
+  OrderSide,
+  OrderStatus,
+  Polymarket,
+  type Position,
+  Strategy,
+  type Trade,
+} from '../src/index.js';
+import { kalshiPrivateKeyPem } from './helpers.js';
+
+const buy = (overrides: Partial<CreateOrderParams> = {}): CreateOrderParams => ({
+  marketId: 'm1',
+  outcome: 'Yes',
+  side: OrderSide.BUY,
+  price: 0.5,
+  size: 10,
+  ...overrides,
+});
+
+const toOrder = (id: string, params: Partial<CreateOrderParams> = {}): Order => ({
+  id,
+  marketId: params.marketId ?? 'm1',
+  outcome: params.outcome ?? 'Yes',
+  side: params.side ?? OrderSide.BUY,
+  price: params.price ?? 0.5,
+  size: params.size ?? 10,
+  filled: 0,
+  status: OrderStatus.OPEN,
+  createdAt: new Date(),
+});
+
+class LoopExchange extends Exchange {
+  readonly id = 'loop';
+  readonly name = 'Loop';
+  inFlight = 0;
+  maxInFlight = 0;
+  open: Order[] = [];
+
+  async fetchMarkets(): Promise<Market[]> {
+    return [];
+  }
+  async fetchMarket(): Promise<Market> {
+    throw new Error('unused');
+  }
+  async fetchOrderbook(): Promise<Orderbook> {
+    throw new Error('unused');
+  }
+  async createOrder(params: CreateOrderParams): Promise<Order> {
+    this.inFlight++;
+    this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+    await new Promise((resolve) => setTimeout(resolve, 1));
+    this.inFlight--;
+    if (params.price >= 1) throw new InvalidOrder('Price must be below 1');
+    return toOrder(`o-${params.price}`, params);
+  }
+  async cancelOrder(orderId: string): Promise<Order> {
+    if (orderId === 'gone') throw new Error('Order not found');
+    return { ...toOrder(orderId), status: OrderStatus.CANCELLED };
+  }
+  async fetchOrder(orderId: string): Promise<Order> {
+    return toOrder(orderId);
+  }
+  async fetchOpenOrders(): Promise<Order[]> {
+    return this.open;
+  }
+  async fetchOrders(): Promise<Order[]> {
+    return this.open;
+  }
+  async fetchMyTrades(): Promise<Trade[]> {
+    return [];
+  }
+  async fetchPositions(): Promise<Position[]> {
+    return [];
+  }
+  async fetchBalance(): Promise<Balance> {
+    return {};
+  }
+}
+
+describe('Exchange batch fallbacks', () => {
+  it('should report per-order results in request order', async () => {
+    // #given
+    const exchange = new LoopExchange();
+    const orders = [buy({ price: 0.4 }), buy({ price: 1.2 }), buy({ price: 0.6 })];
+
+    // #when
+    const results = await exchange.createOrders(orders);
+
+    // #then
+    expect(results.map((r) => r.success)).toEqual([true, false, true]);
+    expect(results[0]?.success && results[0].order.id).toBe('o-0.4');
+    expect(!results[1]?.success && results[1]?.error).toBeInstanceOf(InvalidOrder);
+  });
+
+  it('should bound the number of concurrent calls', async () => {
+    // #given
+    const exchange = new LoopExchange();
+    const orders = Array.from({ length: 12 }, (_, i) => buy({ price: (i + 1) / 20 }));
+
+    // #when
+    await exchange.createOrders(orders);
+
+    // #then
+    expect(exchange.maxInFlight).toBeLessThanOrEqual(5);
+  });
+
+  it('should cancel every open order and keep failures', async () => {
+    // #given
+    const exchange = new LoopExchange();
+    exchange.open = [toOrder('a'), toOrder('gone')];
+
+    // #when
+    const results = await exchange.cancelAllOrders('m1');
+
+    // #then
+    expect(results[0]).toMatchObject({ success: true });
+    expect(results[1]).toMatchObject({ success: false, orderId: 'gone' });
+  });
+});
+
+describe('Strategy stop', () => {
+  class IdleStrategy extends Strategy {
+    async onTick(): Promise<void> {}
+    track(orders: Order[]): void {
+      this.openOrders = orders;
+    }
+  }
+
+  it('should stop when cancels fail and nobody listens for errors', async () => {
+    // #given
+    const exchange = new LoopExchange();
+    const strategy = new IdleStrategy(exchange, 'm1');
+    Object.assign(strategy, { state: 'running' });
+    strategy.track([toOrder('a'), toOrder('gone')]);
+    const stopped = vi.fn();
+    strategy.on('stopped', stopped);
+
+    // #when
+    await strategy.stop();
+
+    // #then
+    expect(stopped).toHaveBeenCalledOnce();
+  });
+
+  it('should stop when the batch cancel itself throws', async () => {
+    // #given
+    const exchange = new LoopExchange();
+    exchange.cancelOrders = async () => {
+      throw new NetworkError('socket hang up');
+    };
+    const strategy = new IdleStrategy(exchange, 'm1');
+    Object.assign(strategy, { state: 'running' });
+    strategy.track([toOrder('a')]);
+    const errors: unknown[] = [];
+    strategy.on('error', (error) => errors.push(error));
+
+    // #when
+    await strategy.stop();
+
+    // #then
+    expect(errors).toEqual([expect.any(NetworkError)]);
+  });
+});
+
+describe('Kalshi batch endpoints', () => {
+  const privateKeyPem = kalshiPrivateKeyPem();
+
+  it('should place orders through the batched endpoint', async () => {
+    // #given
+    const transport = vi.fn(
+      async () =>
+        new Response(
+          JSON.stringify({
+            orders: [
+              { order: { order_id: 'k1', ticker: 'm1', status: 'resting' } },
+              { error: { code: 'invalid', message: 'insufficient balance' } },
+            ],
+          }),
+          { status: 201 }
+        )
+    );
+    const exchange = new Kalshi({ apiKeyId: 'key', privateKeyPem, transport });
+
+    // #when
+    const results = await exchange.createOrders([
+      buy(),
+      buy({ outcome: 'Maybe' }),
+      buy({ outcome: 'No' }),
+    ]);
+
+    // #then
+    expect(transport).toHaveBeenCalledOnce();
+    const [url, init] = transport.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toContain('/portfolio/orders/batched');
+    expect(JSON.parse(String(init.body)).orders).toHaveLength(2);
+    expect(results[0]).toMatchObject({ success: true, order: { id: 'k1' } });
+    expect(!results[1]?.success && results[1]?.error).toBeInstanceOf(InvalidOrder);
+    expect(!results[2]?.success && results[2]?.error.message).toBe('insufficient balance');
+  });
+
+  it('should cancel in batches of 20', async () => {
+    // #given
+    const transport = vi.fn(async (_url: string | URL, init?: RequestInit) => {
+      const { ids } = JSON.parse(String(init?.body)) as { ids: string[] };
+      const orders = ids.map((id) => ({ order: { order_id: id, status: 'canceled' } }));
+      return new Response(JSON.stringify({ orders }), { status: 200 });
+    });
+    const exchange = new Kalshi({ apiKeyId: 'key', privateKeyPem, transport });
+    const ids = Array.from({ length: 25 }, (_, i) => `id-${i}`);
+
+    // #when
+    const results = await exchange.cancelOrders(ids);
+
+    // #then
+    expect(transport).toHaveBeenCalledTimes(2);
+    expect(results).toHaveLength(25);
+    expect(results.every((r) => r.success)).toBe(true);
+  });
+});
+
+describe('Polymarket batch orders', () => {
+  const withClient = (postOrders: (orders: unknown[]) => Promise<unknown>) => {
+    const exchange = new Polymarket({ privateKey: `0x${'11'.repeat(32)}` });
+    Object.assign(exchange as unknown as Record<string, unknown>, {
+      clobClient: {
+        createOrder: async ({ tokenID }: { tokenID: string }) => ({ tokenID }),
+        postOrders,
+      },
+      clobClientAuthenticated: true,
+    });
+    return exchange;
+  };
+
+  it('should post signed orders and map rejections', async () => {
+    // #given
+    const postOrders = vi.fn(async () => [
+      { success: true, orderID: 'p1', status: 'live' },
+      { success: false, errorMsg: 'not enough balance' },
+    ]);
+    const exchange = withClient(postOrders);
+
+    // #when
+    const results = await exchange.createOrders([
+      buy({ tokenId: 't1' }),
+      buy(),
+      buy({ tokenId: 't2' }),
+    ]);
+
+    // #then
+    expect(postOrders).toHaveBeenCalledOnce();
+    expect(results[0]).toMatchObject({ success: true, order: { id: 'p1' } });
+    expect(!results[1]?.success && results[1]?.error).toBeInstanceOf(InvalidOrder);
+    expect(!results[2]?.success && results[2]?.error.message).toBe('not enough balance');
+  });
+
+  it('should keep earlier batches when a later one fails, without retrying it', async () => {
+    // #given
+    const postOrders = vi.fn(async (orders: unknown[]) => {
+      if (postOrders.mock.calls.length > 1) throw new NetworkError('socket hang up');
+      return orders.map((_, i) => ({ success: true, orderID: `p${i}` }));
+    });
+    const exchange = withClient(postOrders);
+    const orders = Array.from({ length: 17 }, (_, i) => buy({ tokenId: `t${i}` }));
+
+    // #when
+    const results = await exchange.createOrders(orders);
+
+    // #then
+    expect(postOrders).toHaveBeenCalledTimes(2);
+    expect(results).toHaveLength(17);
+    expect(results.slice(0, 15).every((r) => r.success)).toBe(true);
+    expect(results.slice(15).map((r) => !r.success && r.error)).toEqual([
+      expect.any(NetworkError),
+      expect.any(NetworkError),
+    ]);
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  type Balance,
+  type CreateOrderParams,
+  Exchange,
+  type ExchangeCapabilities,
+  Kalshi,
+  Limitless,
+  type Market,
+  NotSupported,
+  Opinion,
+  type Order,
+  type Orderbook,
+  OrderSide,
+  Polymarket,
+  type Position,
+  PredictFun,
+  type Trade,
+} from '../src/index.js';
+
+const transport = () => vi.fn(async () => new Response('{}', { status: 200 }));
+
+const exchanges: Exchange[] = [
+  new Polymarket({ transport: transport(), maxRetries: 0 }),
+  new Kalshi({ transport: transport(), maxRetries: 0 }),
+  new Limitless({ transport: transport(), maxRetries: 0 }),
+  new Opinion({ apiKey: 'key', transport: transport(), maxRetries: 0 }),
+  new PredictFun({ transport: transport(), maxRetries: 0 }),
+];
+
+const order: CreateOrderParams = {
+  marketId: 'm1',
+  outcome: 'Yes',
+  side: OrderSide.BUY,
+  price: 0.5,
+  size: 1,
+  tokenId: 't1',
+};
+
+const calls: Record<Exclude<keyof ExchangeCapabilities, 'websocket'>, unknown[]> = {
+  fetchMarkets: [],
+  fetchMarket: ['m1'],
+  paginateMarkets: [],
+  searchMarkets: [{}],
+  fetchEvents: [{}],
+  fetchEvent: ['e1'],
+  fetchResolution: ['m1'],
+  fetchOrderbook: ['m1', { tokenId: 't1' }],
+  fetchPriceHistory: ['t1'],
+  fetchOHLCV: ['t1', 'Yes', '1h'],
+  fetchPublicTrades: [{}],
+  createOrder: [order],
+  createOrders: [[order]],
+  cancelOrder: ['o1', 'm1'],
+  cancelOrders: [['o1'], 'm1'],
+  cancelAllOrders: ['m1'],
+  fetchOrder: ['o1', 'm1'],
+  fetchOpenOrders: [],
+  fetchOrders: [{}],
+  fetchClosedOrders: [{}],
+  fetchMyTrades: [{}],
+  fetchPositions: [],
+  fetchBalance: [],
+};
+
+const invoke = async (exchange: Exchange, method: string, args: unknown[]): Promise<void> => {
+  const fn = (exchange as unknown as Record<string, (...a: unknown[]) => unknown>)[method];
+  const result = fn?.apply(exchange, args);
+  if (result && typeof result === 'object' && Symbol.asyncIterator in result) {
+    await (result as AsyncIterator<unknown>).next();
+    return;
+  }
+  await result;
+};
+
+describe('capability conformance', () => {
+  for (const exchange of exchanges) {
+    const { has } = exchange.describe();
+
+    for (const [method, args] of Object.entries(calls)) {
+      const capability = has[method as keyof ExchangeCapabilities];
+      if (!capability) continue;
+
+      it(`${exchange.id}.${method} should be implemented when declared`, async () => {
+        // #given
+        let error: unknown;
+
+        // #when
+        try {
+          await invoke(exchange, method, args);
+        } catch (e) {
+          error = e;
+        }
+
+        // #then
+        expect(error).not.toBeInstanceOf(NotSupported);
+      });
+    }
+  }
+});
+
+describe('describe', () => {
+  class MinimalExchange extends Exchange {
+    readonly id = 'minimal';
+    readonly name = 'Minimal';
+
+    async fetchMarkets(): Promise<Market[]> {
+      return [];
+    }
+    async fetchMarket(): Promise<Market> {
+      throw new NotSupported('fetchMarket');
+    }
+    async fetchOrderbook(): Promise<Orderbook> {
+      throw new NotSupported('fetchOrderbook');
+    }
+    async createOrder(): Promise<Order> {
+      throw new NotSupported('createOrder');
+    }
+    async cancelOrder(): Promise<Order> {
+      throw new NotSupported('cancelOrder');
+    }
+    async fetchOrder(): Promise<Order> {
+      throw new NotSupported('fetchOrder');
+    }
+    async fetchOpenOrders(): Promise<Order[]> {
+      return [];
+    }
+    async fetchOrders(): Promise<Order[]> {
+      return [];
+    }
+    async fetchMyTrades(): Promise<Trade[]> {
+      return [];
+    }
+    async fetchPositions(): Promise<Position[]> {
+      return [];
+    }
+    async fetchBalance(): Promise<Balance> {
+      return {};
+    }
+  }
+
+  it('should report inherited fallbacks as emulated', () => {
+    // #given
+    const exchange = new MinimalExchange();
+
+    // #when
+    const { has } = exchange.describe();
+
+    // #then
+    expect(has.paginateMarkets).toBe('emulated');
+    expect(has.fetchEvents).toBe('emulated');
+    expect(has.fetchMarkets).toBe(true);
+  });
+
+  it('should report methods a class lacks as unsupported', () => {
+    // #given
+    const exchange = new MinimalExchange();
+
+    // #when
+    const desc = exchange.describe();
+
+    // #then
+    expect(desc.has.searchMarkets).toBe(false);
+    expect(desc.has.fetchPublicTrades).toBe(false);
+    expect(desc.has.fetchPriceHistory).toBe(false);
+    expect(desc.has.fetchOHLCV).toBe(false);
+    expect(desc.has.websocket).toBe(false);
+    expect(desc.websocketChannels).toEqual([]);
+    expect(desc.orderTypes).toEqual(['limit']);
+  });
+
+  it('should describe Polymarket extras', () => {
+    // #given
+    const exchange = new Polymarket();
+
+    // #when
+    const desc = exchange.describe();
+
+    // #then
+    expect(desc.has.fetchPositions).toBe(true);
+    expect(desc.has.searchMarkets).toBe(true);
+    expect(desc.has.fetchOrders).toBe('emulated');
+    expect(desc.websocketChannels).toEqual(['orderbook', 'trades']);
+  });
+});
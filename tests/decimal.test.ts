@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import {
+  complementPrice,
+  divRound,
+  formatUnits,
+  fromUnits,
+  mulDiv,
+  type Orderbook,
+  OrderbookUtils,
+  roundToTickSize,
+  toDecimalString,
+  toUnits,
+} from '../src/index.js';
+
+describe('decimal arithmetic', () => {
+  it('should scale prices to units without float residue', () => {
+    // #given
+    const price = 0.57;
+
+    // #when
+    const units = toUnits(price, 6);
+
+    // #then
+    expect(units).toBe(570000n);
+    expect(toUnits(price, 2, 'floor')).toBe(57n);
+  });
+
+  it('should apply the requested rounding beyond the target precision', () => {
+    // #given
+    const size = '1.2345678';
+
+    // #when
+    const floor = toUnits(size, 6, 'floor');
+    const ceil = toUnits(size, 6, 'ceil');
+    const round = toUnits(size, 6);
+
+    // #then
+    expect([floor, ceil, round]).toEqual([1234567n, 1234568n, 1234568n]);
+    expect(divRound(-5n, 2n, 'round')).toBe(-3n);
+    expect(divRound(-5n, 2n, 'floor')).toBe(-3n);
+    expect(divRound(-5n, 2n, 'ceil')).toBe(-2n);
+  });
+
+  it('should keep 18-decimal amounts exact', () => {
+    // #given
+    const wei = 123456789012345678901234n;
+
+    // #when
+    const text = formatUnits(wei, 18);
+
+    // #then
+    expect(text).toBe('123456.789012345678901234');
+    expect(fromUnits('1500000000000000000', 18)).toBe(1.5);
+    expect(mulDiv(toUnits(10, 18), toUnits(0.57, 18), 10n ** 18n)).toBe(toUnits(5.7, 18));
+  });
+
+  it('should print numbers without exponent notation', () => {
+    // #given
+    const tiny = 1e-7;
+
+    // #when
+    const text = toDecimalString(tiny);
+
+    // #then
+    expect(text).toBe('0.0000001');
+    expect(toDecimalString(2.5e21)).toBe('2500000000000000000000');
+  });
+
+  it('should reject values that are not decimals', () => {
+    // #given
+    const inputs = ['abc', '', Number.NaN];
+
+    // #when / #then
+    for (const input of inputs) {
+      expect(() => toUnits(input, 6)).toThrow(RangeError);
+    }
+  });
+});
+
+describe('price helpers', () => {
+  it('should snap to the tick exactly', () => {
+    // #given
+    const price = 0.57;
+
+    // #when
+    const rounded = roundToTickSize(price, 0.01);
+
+    // #then
+    expect(rounded).toBe(0.57);
+    expect(roundToTickSize(0.5749, 0.01)).toBe(0.57);
+    expect(roundToTickSize(0.5712, 0.005, 'ceil')).toBe(0.575);
+  });
+
+  it('should invert binary prices exactly', () => {
+    // #given
+    const book: Orderbook = {
+      bids: [[0.123, 5]],
+      asks: [[0.7, 2]],
+      timestamp: 0,
+      assetId: 'yes',
+      marketId: 'm1',
+    };
+
+    // #when
+    const inverted = OrderbookUtils.invert(book, 'no');
+
+    // #then
+    expect(complementPrice(0.123)).toBe(0.877);
+    expect(inverted.bids).toEqual([[0.3, 2]]);
+    expect(inverted.asks).toEqual([[0.877, 5]]);
+  });
+});
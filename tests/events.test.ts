@@ -0,0 +1,282 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  type Balance,
+  Exchange,
+  Kalshi,
+  Limitless,
+  type Market,
+  MarketNotFound,
+  MarketStatus,
+  Opinion,
+  type Order,
+  type Orderbook,
+  Polymarket,
+  type Position,
+  type Trade,
+} from '../src/index.js';
+import { json } from './helpers.js';
+
+describe('fetchEvents', () => {
+  it('should expose a Polymarket event with its child markets', async () => {
+    // #given
+    const transport = vi.fn().mockResolvedValue(
+      json([
+        {
+          id: '903',
+          slug: 'fed-decision-in-march',
+          title: 'Fed decision in March?',
+          negRisk: true,
+          tags: [{ label: 'Economy' }],
+          markets: [
+            { id: '1', question: 'Cut?', outcomes: '["Yes","No"]', clobTokenIds: '["a","b"]' },
+            { id: '2', question: 'Hold?', outcomes: '["Yes","No"]', clobTokenIds: '["c","d"]' },
+          ],
+        },
+      ])
+    );
+    const exchange = new Polymarket({ transport });
+
+    // #when
+    const event = await exchange.fetchEvent('https://polymarket.com/event/fed-decision-in-march');
+
+    // #then
+    expect(event).toMatchObject({
+      id: '903',
+      title: 'Fed decision in March?',
+      url: 'https://polymarket.com/event/fed-decision-in-march',
+      category: 'Economy',
+      mutuallyExclusive: true,
+      negRisk: true,
+    });
+    expect(event.markets.map((m) => [m.id, m.eventId, m.status])).toEqual([
+      ['1', '903', MarketStatus.OPEN],
+      ['2', '903', MarketStatus.OPEN],
+    ]);
+    expect(event.metadata).not.toHaveProperty('markets');
+    expect(String(transport.mock.calls[0]?.[0])).toContain('slug=fed-decision-in-march');
+  });
+
+  it('should read Kalshi mutual exclusivity from the event', async () => {
+    // #given
+    const transport = vi.fn().mockResolvedValue(
+      json({
+        events: [
+          {
+            event_ticker: 'KXFED-25MAR',
+            series_ticker: 'KXFED',
+            title: 'Fed rate in March',
+            category: 'Economics',
+            mutually_exclusive: true,
+            markets: [{ ticker: 'KXFED-25MAR-T4.25', status: 'active' }],
+          },
+        ],
+      })
+    );
+    const exchange = new Kalshi({ transport });
+
+    // #when
+    const [event] = await exchange.fetchEvents({ limit: 5 });
+
+    // #then
+    expect(event).toMatchObject({
+      id: 'KXFED-25MAR',
+      mutuallyExclusive: true,
+      negRisk: false,
+      url: 'https://kalshi.com/markets/kxfed',
+    });
+    expect(event?.markets[0]).toMatchObject({ id: 'KXFED-25MAR-T4.25', eventId: 'KXFED-25MAR' });
+    expect(event?.markets[0]?.category).toBe('Economics');
+    expect(String(transport.mock.calls[0]?.[0])).toContain('with_nested_markets=true');
+  });
+
+  it('should turn Opinion child markets into event markets', async () => {
+    // #given
+    const transport = vi.fn().mockResolvedValue(
+      json({
+        code: 0,
+        result: {
+          data: {
+            marketId: 77,
+            marketTitle: 'Who wins the league?',
+            childMarkets: [
+              { marketId: 78, marketTitle: 'Team A', yesTokenId: 'a1', noTokenId: 'a2' },
+              { marketId: 79, marketTitle: 'Team B', yesTokenId: 'b1', noTokenId: 'b2' },
+            ],
+          },
+        },
+      })
+    );
+    const exchange = new Opinion({ apiKey: 'key', transport });
+
+    // #when
+    const event = await exchange.fetchEvent('77');
+
+    // #then
+    expect(event).toMatchObject({
+      id: '77',
+      title: 'Who wins the league?',
+      mutuallyExclusive: true,
+    });
+    expect(event.markets.map((m) => [m.id, m.eventId])).toEqual([
+      ['78', '77'],
+      ['79', '77'],
+    ]);
+    expect(String(transport.mock.calls[0]?.[0])).toContain('/openapi/market/categorical/77');
+  });
+
+  it('should fall back to the binary Opinion market when the categorical lookup fails', async () => {
+    // #given
+    const transport = vi.fn(async (url: string | URL) =>
+      String(url).includes('/categorical/')
+        ? new Response('not found', { status: 404 })
+        : json({ code: 0, result: { data: { marketId: 80, marketTitle: 'Rain tomorrow?' } } })
+    );
+    const exchange = new Opinion({ apiKey: 'key', transport, maxRetries: 0 });
+
+    // #when
+    const event = await exchange.fetchEvent('80');
+
+    // #then
+    expect(event).toMatchObject({ id: '80', title: 'Rain tomorrow?' });
+    expect(event.markets.map((m) => m.id)).toEqual(['80']);
+    expect(transport).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fail with MarketNotFound for an unknown Polymarket event', async () => {
+    // #given
+    const transport = vi.fn().mockResolvedValue(json([]));
+    const exchange = new Polymarket({ transport });
+
+    // #when
+    const result = exchange.fetchEvent('no-such-event');
+
+    // #then
+    await expect(result).rejects.toThrow(MarketNotFound);
+  });
+});
+
+describe('fetchEvents paging', () => {
+  it('should start Limitless at the page holding the offset and skip into it', async () => {
+    // #given
+    const transport = vi.fn(async (url: string | URL) => {
+      const page = Number(new URL(String(url)).searchParams.get('page'));
+      const start = (page - 1) * 25;
+      return json({
+        data: Array.from({ length: 25 }, (_, i) => ({ slug: `g${start + i}`, title: 'Group' })),
+      });
+    });
+    const exchange = new Limitless({ transport });
+
+    // #when
+    const events = await exchange.fetchEvents({ offset: 48, limit: 4 });
+
+    // #then
+    expect(events.map((e) => e.id)).toEqual(['g48', 'g49', 'g50', 'g51']);
+    expect(
+      transport.mock.calls.map(([url]) => new URL(String(url)).searchParams.get('page'))
+    ).toEqual(['2', '3']);
+  });
+
+  it('should follow Kalshi event cursors past the offset', async () => {
+    // #given
+    const event = (n: number) => ({ event_ticker: `E${n}`, title: `Event ${n}`, markets: [] });
+    const transport = vi.fn(async (url: string | URL) =>
+      new URL(String(url)).searchParams.get('cursor')
+        ? json({ events: [event(3), event(4)] })
+        : json({ events: [event(1), event(2)], cursor: 'c2' })
+    );
+    const exchange = new Kalshi({ transport });
+
+    // #when
+    const events = await exchange.fetchEvents({ offset: 1, limit: 2 });
+
+    // #then
+    expect(events.map((e) => e.id)).toEqual(['E2', 'E3']);
+    expect(transport).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('emulated fetchEvent', () => {
+  /** Lists `total` markets in pages, every tenth one in event `e<n>` */
+  class PagedExchange extends Exchange {
+    readonly id = 'paged';
+    readonly name = 'Paged';
+    calls = 0;
+
+    async fetchMarkets({ offset = 0, limit = 100 } = {}): Promise<Market[]> {
+      this.calls++;
+      return Array.from({ length: Math.max(0, Math.min(limit, 250 - offset)) }, (_, i) => {
+        const n = offset + i;
+        return {
+          id: `m${n}`,
+          question: `Market ${n}`,
+          outcomes: ['Yes', 'No'],
+          volume: 0,
+          liquidity: 0,
+          prices: {},
+          tickSize: 0.01,
+          description: '',
+          status: MarketStatus.OPEN,
+          outcomeTokens: [],
+          eventId: `e${Math.floor(n / 10)}`,
+          metadata: {},
+        };
+      });
+    }
+    async fetchMarket(): Promise<Market> {
+      throw new Error('unused');
+    }
+    async fetchOrderbook(): Promise<Orderbook> {
+      throw new Error('unused');
+    }
+    async createOrder(): Promise<Order> {
+      throw new Error('unused');
+    }
+    async cancelOrder(): Promise<Order> {
+      throw new Error('unused');
+    }
+    async fetchOrder(): Promise<Order> {
+      throw new Error('unused');
+    }
+    async fetchOpenOrders(): Promise<Order[]> {
+      return [];
+    }
+    async fetchOrders(): Promise<Order[]> {
+      return [];
+    }
+    async fetchMyTrades(): Promise<Trade[]> {
+      return [];
+    }
+    async fetchPositions(): Promise<Position[]> {
+      return [];
+    }
+    async fetchBalance(): Promise<Balance> {
+      return {};
+    }
+  }
+
+  it('should find an event beyond the first page of markets', async () => {
+    // #given
+    const exchange = new PagedExchange();
+
+    // #when
+    const event = await exchange.fetchEvent('e23');
+
+    // #then
+    expect(event.markets.map((m) => m.id)).toEqual(
+      Array.from({ length: 10 }, (_, i) => `m${230 + i}`)
+    );
+    expect(exchange.calls).toBeGreaterThan(1);
+  });
+
+  it('should fail with MarketNotFound once every page is searched', async () => {
+    // #given
+    const exchange = new PagedExchange();
+
+    // #when
+    const result = exchange.fetchEvent('e99');
+
+    // #then
+    await expect(result).rejects.toThrow(MarketNotFound);
+  });
+});
@@ -1,13 +1,15 @@
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
 import {
   createExchange,
   Kalshi,
   Limitless,
   listExchanges,
+  NetworkError,
   Opinion,
   Polymarket,
   PredictFun,
 } from '../src/index.js';
+import { market } from './helpers.js';
 
 describe('listExchanges', () => {
   it('should return all available exchange ids', () => {
@@ -119,6 +121,7 @@ describe('Exchange instances', () => {
       expect(desc.name).toBe('Polymarket');
       expect(desc.has.fetchMarkets).toBe(true);
       expect(desc.has.createOrder).toBe(true);
+      expect(desc.websocketChannels).toEqual(['orderbook', 'trades']);
     });
 
     it('should have correct id and name', () => {
@@ -219,7 +222,8 @@ describe('Exchange instances', () => {
       expect(desc.has.fetchOpenOrders).toBe(true);
       expect(desc.has.fetchPositions).toBe(true);
       expect(desc.has.fetchBalance).toBe(true);
-      expect(desc.has.websocket).toBe(false);
+      expect(desc.has.websocket).toBe(true);
+      expect(desc.websocketChannels).toEqual(['orderbook', 'prices', 'trades', 'fills']);
     });
 
     it('should accept custom configuration', () => {
@@ -249,6 +253,27 @@ describe('Exchange instances', () => {
   });
 
   describe('PredictFun', () => {
+    it('should throw instead of returning an empty book when the orderbook request fails', async () => {
+      // #given
+      const transport = vi.fn(async () => new Response('unavailable', { status: 503 }));
+      const exchange = new PredictFun({ transport, maxRetries: 0 });
+      vi.spyOn(exchange, 'fetchMarket').mockResolvedValue(
+        market('42', {
+          outcomeTokens: [
+            { outcome: 'Yes', tokenId: '1' },
+            { outcome: 'No', tokenId: '2' },
+          ],
+        })
+      );
+
+      // #when
+      const result = exchange.fetchOrderbook('42');
+
+      // #then
+      await expect(result).rejects.toThrow(NetworkError);
+      await expect(exchange.getOrderbook('42')).resolves.toEqual({ bids: [], asks: [] });
+    });
+
     it('should have correct id and name', () => {
       // #given / #when
       const exchange = new PredictFun();
@@ -276,7 +301,8 @@ describe('Exchange instances', () => {
       expect(desc.has.fetchOpenOrders).toBe(true);
       expect(desc.has.fetchPositions).toBe(true);
       expect(desc.has.fetchBalance).toBe(true);
-      expect(desc.has.websocket).toBe(false);
+      expect(desc.has.websocket).toBe(true);
+      expect(desc.websocketChannels).toEqual(['orderbook']);
     });
 
     it('should accept custom configuration', () => {
@@ -305,3 +331,31 @@ describe('Exchange instances', () => {
     });
   });
 });
+
+describe('transport', () => {
+  it('should route Kalshi requests through the configured transport', async () => {
+    // #given
+    const transport = vi.fn().mockResolvedValue(new Response('{"markets":[]}', { status: 200 }));
+    const exchange = new Kalshi({ transport });
+
+    // #when
+    const markets = await exchange.fetchMarkets();
+
+    // #then
+    expect(markets).toEqual([]);
+    expect(transport).toHaveBeenCalledOnce();
+    expect(String(transport.mock.calls[0]?.[0])).toContain('/markets');
+  });
+
+  it('should route Limitless requests through the configured transport', async () => {
+    // #given
+    const transport = vi.fn().mockResolvedValue(new Response('{"data":[]}', { status: 200 }));
+    const exchange = new Limitless({ host: 'http://localhost:8080', transport });
+
+    // #when
+    await exchange.fetchMarkets();
+
+    // #then
+    expect(String(transport.mock.calls[0]?.[0])).toMatch(/^http:\/\/localhost:8080\//);
+  });
+});
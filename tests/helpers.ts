@@ -0,0 +1,35 @@
+/**
+ * Fixtures shared by the test suites.
+ */
+
+import { generateKeyPairSync } from 'node:crypto';
+import { type Market, MarketStatus } from '../src/index.js';
+
+/** 200 response with a JSON body, for faking venue transports */
+export const json = (body: unknown) => new Response(JSON.stringify(body), { status: 200 });
+
+/** Open binary market whose question defaults to its id */
+export const market = (id = 'm1', overrides: Partial<Market> = {}): Market => ({
+  id,
+  question: id,
+  outcomes: ['Yes', 'No'],
+  volume: 0,
+  liquidity: 0,
+  prices: {},
+  tickSize: 0.01,
+  description: '',
+  status: MarketStatus.OPEN,
+  outcomeTokens: [],
+  metadata: {},
+  ...overrides,
+});
+
+let kalshiKey: string | undefined;
+
+/** RSA key in PKCS#8 PEM for signing Kalshi requests, generated once per suite */
+export const kalshiPrivateKeyPem = (): string => {
+  kalshiKey ??= generateKeyPairSync('rsa', { modulusLength: 2048 })
+    .privateKey.export({ type: 'pkcs8', format: 'pem' })
+    .toString();
+  return kalshiKey;
+};
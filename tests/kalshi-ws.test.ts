@@ -0,0 +1,243 @@
+import * as crypto from 'node:crypto';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  AuthenticationError,
+  KalshiWebSocket,
+  LiquidityRole,
+  type OrderbookUpdate,
+  OrderSide,
+  SubscriptionStatus,
+} from '../src/index.js';
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+});
+
+const connected = () => {
+  const ws = new KalshiWebSocket({ apiKeyId: 'key-id', privateKeyPem: privateKey });
+  const sent: Array<Record<string, unknown>> = [];
+  const internals = ws as unknown as {
+    ws: unknown;
+    state: string;
+    handleMessage(data: Buffer): void;
+  };
+  internals.ws = { readyState: 1, send: (data: string) => sent.push(JSON.parse(data)) };
+  internals.state = 'connected';
+  const receive = (message: unknown) =>
+    internals.handleMessage(Buffer.from(JSON.stringify(message)));
+  return { ws, sent, receive };
+};
+
+describe('KalshiWebSocket', () => {
+  it('should sign the handshake like REST requests', () => {
+    // #given
+    const ws = new KalshiWebSocket({ apiKeyId: 'key-id', privateKeyPem: privateKey });
+
+    // #when
+    const headers = (
+      ws as unknown as { handshakeHeaders(): Record<string, string> }
+    ).handshakeHeaders();
+
+    // #then
+    const message = `${headers['KALSHI-ACCESS-TIMESTAMP']}GET/trade-api/ws/v2`;
+    const valid = crypto.verify(
+      'sha256',
+      Buffer.from(message),
+      {
+        key: publicKey,
+        padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+        saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST,
+      },
+      Buffer.from(headers['KALSHI-ACCESS-SIGNATURE'] ?? '', 'base64')
+    );
+    expect(headers['KALSHI-ACCESS-KEY']).toBe('key-id');
+    expect(valid).toBe(true);
+  });
+
+  it('should refuse to connect without credentials', async () => {
+    // #given
+    const ws = new KalshiWebSocket();
+
+    // #when
+    const result = ws.connect();
+
+    // #then
+    await expect(result).rejects.toBeInstanceOf(AuthenticationError);
+  });
+
+  it('should build the book from a snapshot and sequenced deltas', async () => {
+    // #given
+    const { ws, sent, receive } = connected();
+    const updates: OrderbookUpdate[] = [];
+    await ws.watchOrderbook('KXBTC-25-T1', (_id, update) => {
+      updates.push(update);
+    });
+
+    // #when
+    receive({ id: 1, type: 'subscribed', msg: { channel: 'orderbook_delta', sid: 7 } });
+    receive({
+      type: 'orderbook_snapshot',
+      sid: 7,
+      seq: 1,
+      msg: {
+        market_ticker: 'KXBTC-25-T1',
+        yes: [
+          [40, 100],
+          [38, 50],
+        ],
+        no: [[55, 20]],
+      },
+    });
+    receive({
+      type: 'orderbook_delta',
+      sid: 7,
+      seq: 2,
+      msg: { market_ticker: 'KXBTC-25-T1', price: 40, delta: -100, side: 'yes' },
+    });
+
+    // #then
+    expect(sent[0]).toEqual({
+      id: 1,
+      cmd: 'subscribe',
+      params: { channels: ['orderbook_delta'], market_tickers: ['KXBTC-25-T1'] },
+    });
+    expect(updates).toHaveLength(2);
+    expect(updates[1]).toMatchObject({ bids: [[0.38, 50]], asks: [[0.45, 20]] });
+    expect(ws.getOrderbook('KXBTC-25-T1', 'No')).toMatchObject({
+      assetId: 'KXBTC-25-T1:no',
+      bids: [[0.55, 20]],
+      asks: [[0.62, 50]],
+    });
+  });
+
+  it('should resubscribe for a fresh snapshot when a sequence number is skipped', async () => {
+    // #given
+    const { ws, sent, receive } = connected();
+    const callback = vi.fn();
+    await ws.watchOrderbook('T1', callback);
+    receive({ id: 1, type: 'subscribed', msg: { channel: 'orderbook_delta', sid: 7 } });
+    receive({ type: 'orderbook_snapshot', sid: 7, seq: 1, msg: { market_ticker: 'T1' } });
+
+    // #when
+    receive({
+      type: 'orderbook_delta',
+      sid: 7,
+      seq: 3,
+      msg: { market_ticker: 'T1', price: 40, delta: 5, side: 'yes' },
+    });
+    receive({
+      type: 'orderbook_delta',
+      sid: 7,
+      seq: 4,
+      msg: { market_ticker: 'T1', price: 41, delta: 5, side: 'yes' },
+    });
+
+    // #then
+    await vi.waitFor(() =>
+      expect(sent.slice(1)).toEqual([
+        { id: 2, cmd: 'unsubscribe', params: { sids: [7] } },
+        {
+          id: 3,
+          cmd: 'subscribe',
+          params: { channels: ['orderbook_delta'], market_tickers: ['T1'] },
+        },
+      ])
+    );
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(ws.getOrderbook('T1')).toBeNull();
+    expect(ws.getSubscriptionStatus('T1')).toBe(SubscriptionStatus.RESYNCING);
+  });
+
+  it('should parse trades and fills', async () => {
+    // #given
+    const { ws, receive } = connected();
+    const trades = vi.fn();
+    const fills = vi.fn();
+    await ws.watchTrades('T1', trades);
+    await ws.watchFills(fills);
+
+    // #when
+    receive({
+      type: 'trade',
+      sid: 1,
+      msg: {
+        trade_id: 'tr1',
+        market_ticker: 'T1',
+        yes_price: 36,
+        no_price: 64,
+        count: 4,
+        taker_side: 'no',
+        ts: 1735689600,
+      },
+    });
+    receive({
+      type: 'fill',
+      sid: 2,
+      msg: {
+        trade_id: 'tr2',
+        order_id: 'o1',
+        market_ticker: 'T1',
+        is_taker: false,
+        side: 'yes',
+        action: 'sell',
+        yes_price: 37,
+        no_price: 63,
+        count: 2,
+        ts: 1735689601,
+      },
+    });
+
+    // #then
+    expect(trades).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: 'tr1',
+        outcome: 'No',
+        side: OrderSide.BUY,
+        price: 0.64,
+        size: 4,
+        timestamp: new Date('2025-01-01T00:00:00Z'),
+      })
+    );
+    expect(fills).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: 'tr2',
+        orderId: 'o1',
+        outcome: 'Yes',
+        side: OrderSide.SELL,
+        price: 0.37,
+        role: LiquidityRole.MAKER,
+      })
+    );
+  });
+
+  it('should drop a rejected subscription without throwing when no error listener is attached', async () => {
+    // #given
+    const { ws, sent, receive } = connected();
+    await ws.watchTrades('UNKNOWN', vi.fn());
+    const id = sent.at(-1)?.id;
+
+    // #when
+    const result = () => receive({ type: 'error', id, msg: { code: 6, msg: 'Params required' } });
+
+    // #then
+    expect(result).not.toThrow();
+  });
+
+  it('should report a rejected subscription to error listeners', async () => {
+    // #given
+    const { ws, sent, receive } = connected();
+    const errors = vi.fn();
+    ws.on('error', errors);
+    await ws.watchTrades('UNKNOWN', vi.fn());
+
+    // #when
+    receive({ type: 'error', id: sent.at(-1)?.id, msg: { code: 6, msg: 'Params required' } });
+
+    // #then
+    expect(errors).toHaveBeenCalledWith(
+      expect.objectContaining({ message: expect.stringContaining('Params required') })
+    );
+  });
+});
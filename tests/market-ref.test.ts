@@ -0,0 +1,138 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Kalshi, MarketNotFound, Polymarket, parseMarketRef, resolveMarket } from '../src/index.js';
+import { json } from './helpers.js';
+
+describe('parseMarketRef', () => {
+  it('should recognize each venue from its web URL', () => {
+    // #given
+    const urls = [
+      'https://polymarket.com/event/fed-decision-in-december?tid=1',
+      'https://polymarket.com/event/fed-decision-in-december/fed-cuts-25bps',
+      'https://kalshi.com/markets/kxfed/fed-meeting/kxfed-25dec',
+      'https://limitless.exchange/markets/eth-above-4k',
+      'https://app.opinion.trade/detail?topicId=217',
+      'https://predict.fun/market/btc-100k',
+    ];
+
+    // #when
+    const refs = urls.map(parseMarketRef);
+
+    // #then
+    expect(refs).toEqual([
+      { exchange: 'polymarket', id: 'fed-decision-in-december', kind: 'event' },
+      { exchange: 'polymarket', id: 'fed-cuts-25bps', kind: 'market' },
+      { exchange: 'kalshi', id: 'KXFED-25DEC', kind: 'unknown' },
+      { exchange: 'limitless', id: 'eth-above-4k', kind: 'event' },
+      { exchange: 'opinion', id: '217', kind: 'event' },
+      { exchange: 'predictfun', id: 'btc-100k', kind: 'event' },
+    ]);
+  });
+
+  it('should detect namespaced references, condition IDs and tickers', () => {
+    // #given
+    const conditionId = `0x${'ab'.repeat(32)}`;
+
+    // #when
+    const namespaced = parseMarketRef('kalshi:INXD-24DEC31-B5000');
+    const condition = parseMarketRef(conditionId);
+    const ticker = parseMarketRef('INXD-24DEC31-B5000');
+    const slug = parseMarketRef('will-it-rain');
+
+    // #then
+    expect(namespaced).toEqual({ exchange: 'kalshi', id: 'INXD-24DEC31-B5000', kind: 'unknown' });
+    expect(condition).toEqual({ exchange: 'polymarket', id: conditionId, kind: 'market' });
+    expect(ticker.exchange).toBe('kalshi');
+    expect(slug).toEqual({ id: 'will-it-rain', kind: 'unknown' });
+  });
+});
+
+describe('resolveMarket', () => {
+  it('should fetch every market of a Polymarket event URL', async () => {
+    // #given
+    const transport = vi.fn().mockResolvedValue(
+      json([
+        {
+          id: '9',
+          slug: 'fed-decision',
+          title: 'Fed decision',
+          markets: [
+            {
+              id: '1',
+              conditionId: '0xc1',
+              question: 'Cut?',
+              outcomes: '["Yes","No"]',
+              clobTokenIds: '["11","12"]',
+            },
+            {
+              id: '2',
+              conditionId: '0xc2',
+              question: 'Hold?',
+              outcomes: '["Yes","No"]',
+              clobTokenIds: '["21","22"]',
+            },
+          ],
+        },
+      ])
+    );
+    const polymarket = new Polymarket({ transport });
+
+    // #when
+    const resolved = await resolveMarket('https://polymarket.com/event/fed-decision', {
+      exchanges: { polymarket },
+    });
+
+    // #then
+    expect(resolved.exchange).toBe(polymarket);
+    expect(resolved.event?.id).toBe('9');
+    expect(resolved.markets.map((m) => m.id)).toEqual(['0xc1', '0xc2']);
+    expect(resolved.markets.map((m) => m.metadata.gammaId)).toEqual(['1', '2']);
+  });
+
+  it('should key a Polymarket market found by slug by its condition ID', async () => {
+    // #given
+    const transport = vi
+      .fn()
+      .mockResolvedValue(
+        json([{ id: '512', conditionId: '0xc1', slug: 'fed-cuts', question: 'Cut?' }])
+      );
+    const polymarket = new Polymarket({ transport });
+
+    // #when
+    const market = await polymarket.fetchMarket('fed-cuts');
+
+    // #then
+    expect(market.id).toBe('0xc1');
+    expect(market.metadata.gammaId).toBe('512');
+  });
+
+  it('should fall back to the event when a Kalshi ticker is not a market', async () => {
+    // #given
+    const transport = vi.fn(async (input: RequestInfo | URL) =>
+      String(input).includes('/markets/')
+        ? new Response(JSON.stringify({ error: { message: 'market not found' } }), { status: 404 })
+        : json({
+            event: { event_ticker: 'KXFED-25DEC', title: 'Fed in December' },
+            markets: [{ ticker: 'KXFED-25DEC-T4.00', event_ticker: 'KXFED-25DEC', title: 'Cut' }],
+          })
+    );
+    const kalshi = new Kalshi({ transport });
+
+    // #when
+    const resolved = await resolveMarket('kalshi:KXFED-25DEC', { exchanges: { kalshi } });
+
+    // #then
+    expect(resolved.event?.id).toBe('KXFED-25DEC');
+    expect(resolved.markets.map((m) => m.id)).toEqual(['KXFED-25DEC-T4.00']);
+  });
+
+  it('should need a default exchange for a bare slug', async () => {
+    // #given
+    const ref = 'will-it-rain';
+
+    // #when
+    const resolving = resolveMarket(ref);
+
+    // #then
+    await expect(resolving).rejects.toThrow(MarketNotFound);
+  });
+});
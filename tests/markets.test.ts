@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Kalshi, Limitless, MarketStatus, MarketUtils, Polymarket } from '../src/index.js';
+import { json } from './helpers.js';
+
+describe('normalized market fields', () => {
+  it('should map a resolved Polymarket CLOB market', async () => {
+    // #given
+    const transport = vi.fn().mockResolvedValue(
+      json({
+        condition_id: '0xabc',
+        question: 'Will it rain?',
+        market_slug: 'will-it-rain',
+        closed: true,
+        minimum_order_size: 5,
+        taker_base_fee: 0,
+        tags: ['Weather'],
+        tokens: [
+          { token_id: '111', outcome: 'Yes', price: 1, winner: true },
+          { token_id: '222', outcome: 'No', price: 0, winner: false },
+        ],
+      })
+    );
+    const exchange = new Polymarket({ transport });
+
+    // #when
+    const market = await exchange.fetchMarket('0xabc');
+
+    // #then
+    expect(market).toMatchObject({
+      status: MarketStatus.RESOLVED,
+      outcomeTokens: [
+        { outcome: 'Yes', tokenId: '111' },
+        { outcome: 'No', tokenId: '222' },
+      ],
+      category: 'Weather',
+      slug: 'will-it-rain',
+      url: 'https://polymarket.com/market/will-it-rain',
+      minOrderSize: 5,
+      feeRateBps: 0,
+      resolution: { outcome: 'Yes' },
+    });
+    expect(MarketUtils.isOpen(market)).toBe(false);
+  });
+
+  it('should map a Kalshi market to its event without tokens', async () => {
+    // #given
+    const transport = vi.fn().mockResolvedValue(
+      json({
+        market: {
+          ticker: 'KXBTC-25',
+          event_ticker: 'KXBTC',
+          title: 'Bitcoin above 100k?',
+          status: 'active',
+          category: 'Crypto',
+          yes_ask: 40,
+        },
+      })
+    );
+    const exchange = new Kalshi({ transport });
+
+    // #when
+    const market = await exchange.fetchMarket('KXBTC-25');
+
+    // #then
+    expect(market).toMatchObject({
+      status: MarketStatus.OPEN,
+      outcomeTokens: [],
+      eventId: 'KXBTC',
+      category: 'Crypto',
+      minOrderSize: 1,
+    });
+    expect(market.resolution).toBeUndefined();
+  });
+
+  it('should look up Limitless tokens by outcome', async () => {
+    // #given
+    const transport = vi.fn().mockResolvedValue(
+      json({
+        slug: 'eth-above-4k',
+        title: 'ETH above 4k?',
+        tokens: { yes: '1', no: '2' },
+        status: 'RESOLVED',
+        winningOutcomeIndex: 1,
+        categories: ['Crypto'],
+      })
+    );
+    const exchange = new Limitless({ transport });
+
+    // #when
+    const market = await exchange.fetchMarket('eth-above-4k');
+
+    // #then
+    expect(MarketUtils.getTokenId(market, 'no')).toBe('2');
+    expect(market).toMatchObject({
+      status: MarketStatus.RESOLVED,
+      category: 'Crypto',
+      url: 'https://limitless.exchange/markets/eth-above-4k',
+      resolution: { outcome: 'No' },
+    });
+    expect(market.metadata).not.toHaveProperty('clobTokenIds');
+  });
+});
@@ -0,0 +1,96 @@
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { type Market, MarketMatcher, type VenueMarket } from '../src/index.js';
+import { market } from './helpers.js';
+
+const closeTime = new Date('2025-12-31T23:59:00Z');
+
+const venue = (
+  exchange: string,
+  id: string,
+  question: string,
+  overrides: Partial<Market> = {}
+): VenueMarket => ({ exchange, market: market(id, { question, closeTime, ...overrides }) });
+
+describe('MarketMatcher', () => {
+  it('should pair the same question across exchanges', () => {
+    // #given
+    const markets = [
+      venue('kalshi', 'KXBTC-25DEC31-T100000', 'Bitcoin above $100,000 on Dec 31, 2025?'),
+      venue('polymarket', '0x1', 'Will Bitcoin be above 100k on December 31?'),
+      venue('polymarket', '0x2', 'Will Bitcoin be above 120k on December 31?'),
+    ];
+
+    // #when
+    const matches = new MarketMatcher().match(markets);
+
+    // #then
+    expect(matches).toHaveLength(1);
+    expect(matches[0]?.left.market.id).toBe('KXBTC-25DEC31-T100000');
+    expect(matches[0]?.right.market.id).toBe('0x1');
+    expect(matches[0]?.inverted).toBe(false);
+    expect(matches[0]?.outcomeMap).toEqual({ Yes: 'Yes', No: 'No' });
+    expect(matches[0]?.confidence).toBeGreaterThan(0.8);
+  });
+
+  it('should map Yes to No for opposite phrasings', () => {
+    // #given
+    const markets = [
+      venue('predictfun', '7', 'Will ETH close below $4,000 in December?'),
+      venue('polymarket', '0x3', 'ETH above $4000 at close in December?'),
+    ];
+
+    // #when
+    const [match] = new MarketMatcher().match(markets);
+
+    // #then
+    expect(match?.inverted).toBe(true);
+    expect(match?.outcomeMap).toEqual({ Yes: 'No', No: 'Yes' });
+  });
+
+  it('should reject pairs whose close times are far apart', () => {
+    // #given
+    const markets = [
+      venue('kalshi', 'A', 'Fed cuts rates in 2025?'),
+      venue('polymarket', 'B', 'Fed cuts rates in 2025?', { closeTime: new Date('2025-06-30') }),
+    ];
+
+    // #when
+    const matches = new MarketMatcher().match(markets);
+
+    // #then
+    expect(matches).toEqual([]);
+  });
+
+  it('should apply forced and excluded pairs from the override file', () => {
+    // #given
+    const path = join(mkdtempSync(join(tmpdir(), 'matcher-')), 'overrides.json');
+    writeFileSync(
+      path,
+      JSON.stringify({
+        pairs: [{ left: 'kalshi:PRES-DEM', right: 'polymarket:0x9', inverted: true }],
+        exclude: [{ left: 'polymarket:0x1', right: 'limitless:btc' }],
+      })
+    );
+    const markets = [
+      venue('kalshi', 'PRES-DEM', 'Democrat wins the presidency?'),
+      venue('polymarket', '0x9', 'Republican wins the presidency?'),
+      venue('polymarket', '0x1', 'Bitcoin above 100k?'),
+      venue('limitless', 'btc', 'Bitcoin above 100k?'),
+    ];
+
+    // #when
+    const matches = new MarketMatcher({ overridesPath: path }).match(markets);
+
+    // #then
+    expect(matches).toHaveLength(1);
+    expect(matches[0]).toMatchObject({
+      manual: true,
+      confidence: 1,
+      inverted: true,
+      outcomeMap: { Yes: 'No', No: 'Yes' },
+    });
+  });
+});
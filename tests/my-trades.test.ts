@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Kalshi, LiquidityRole, Opinion, OrderSide } from '../src/index.js';
+import { json, kalshiPrivateKeyPem } from './helpers.js';
+
+describe('fetchMyTrades', () => {
+  const privateKeyPem = kalshiPrivateKeyPem();
+
+  const fill = (id: string, createdTime: string) => ({
+    fill_id: id,
+    order_id: `o-${id}`,
+    ticker: 'KXBTC-25',
+    side: 'no',
+    action: 'sell',
+    count: 5,
+    yes_price: 70,
+    no_price: 30,
+    is_taker: false,
+    fee_cost: '0.02',
+    created_time: createdTime,
+  });
+
+  it('should map Kalshi fills to trades', async () => {
+    // #given
+    const transport = vi
+      .fn()
+      .mockResolvedValue(json({ fills: [fill('f1', '2026-01-02T00:00:00Z')] }));
+    const exchange = new Kalshi({ apiKeyId: 'key', privateKeyPem, transport });
+
+    // #when
+    const trades = await exchange.fetchMyTrades({ marketId: 'KXBTC-25' });
+
+    // #then
+    expect(trades).toEqual([
+      {
+        id: 'f1',
+        orderId: 'o-f1',
+        marketId: 'KXBTC-25',
+        outcome: 'No',
+        side: OrderSide.SELL,
+        price: 0.3,
+        size: 5,
+        fee: 0.02,
+        role: LiquidityRole.MAKER,
+        timestamp: new Date('2026-01-02T00:00:00Z'),
+      },
+    ]);
+    expect(String(transport.mock.calls[0]?.[0])).toContain('ticker=KXBTC-25');
+  });
+
+  it('should stop paging once fills are older than since', async () => {
+    // #given
+    const transport = vi.fn().mockResolvedValueOnce(
+      json({
+        fills: [fill('new', '2026-01-03T00:00:00Z'), fill('old', '2025-12-01T00:00:00Z')],
+        cursor: 'c1',
+      })
+    );
+    const exchange = new Kalshi({ apiKeyId: 'key', privateKeyPem, transport });
+
+    // #when
+    const trades = await exchange.fetchMyTrades({ since: new Date('2026-01-01T00:00:00Z') });
+
+    // #then
+    expect(trades.map((t) => t.id)).toEqual(['new']);
+    expect(transport).toHaveBeenCalledOnce();
+    expect(String(transport.mock.calls[0]?.[0])).toContain('min_ts=1767225600');
+  });
+
+  it('should walk Opinion pages up to limit', async () => {
+    // #given
+    const page = (start: number) =>
+      Array.from({ length: 100 }, (_, i) => ({
+        trade_no: `t${start + i}`,
+        side_enum: 'Buy',
+        price: '0.55',
+        shares: '10',
+        created_at: 1767225600,
+      }));
+    const transport = vi
+      .fn()
+      .mockResolvedValueOnce(json({ code: 0, result: { list: page(0) } }))
+      .mockResolvedValueOnce(json({ code: 0, result: { list: page(100) } }));
+    const exchange = new Opinion({
+      apiKey: 'key',
+      privateKey: `0x${'1'.repeat(64)}`,
+      multiSigAddr: '0x1',
+      transport,
+    });
+
+    // #when
+    const trades = await exchange.fetchMyTrades({ limit: 150 });
+
+    // #then
+    expect(trades).toHaveLength(150);
+    expect(trades[149]).toMatchObject({ id: 't149', side: OrderSide.BUY, price: 0.55, size: 10 });
+    expect(String(transport.mock.calls[1]?.[0])).toContain('page=2');
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Kalshi, OrderStatus, Polymarket } from '../src/index.js';
+import { json, kalshiPrivateKeyPem } from './helpers.js';
+
+describe('order history', () => {
+  const privateKeyPem = kalshiPrivateKeyPem();
+
+  const order = (id: string, status: string, fillCount: number) => ({
+    order_id: id,
+    ticker: 'KXBTC-25',
+    action: 'buy',
+    side: 'no',
+    status,
+    yes_price: 60,
+    no_price: 40,
+    initial_count: 10,
+    fill_count: fillCount,
+    remaining_count: status === 'resting' ? 10 - fillCount : 0,
+    created_time: '2026-01-02T00:00:00Z',
+    last_update_time: '2026-01-02T01:00:00Z',
+  });
+
+  it('should pass a single status and time window to Kalshi', async () => {
+    // #given
+    const transport = vi.fn().mockResolvedValue(json({ orders: [order('a', 'executed', 10)] }));
+    const exchange = new Kalshi({ apiKeyId: 'key', privateKeyPem, transport });
+
+    // #when
+    const orders = await exchange.fetchOrders({
+      status: OrderStatus.FILLED,
+      since: new Date('2026-01-01T00:00:00Z'),
+      until: new Date('2026-02-01T00:00:00Z'),
+    });
+
+    // #then
+    const url = String(transport.mock.calls[0]?.[0]);
+    expect(url).toContain('status=executed');
+    expect(url).toContain('min_ts=1767225600');
+    expect(url).toContain('max_ts=1769904000');
+    expect(orders[0]).toEqual({
+      id: 'a',
+      marketId: 'KXBTC-25',
+      outcome: 'No',
+      side: 'buy',
+      price: 0.4,
+      size: 10,
+      filled: 10,
+      status: OrderStatus.FILLED,
+      createdAt: new Date('2026-01-02T00:00:00Z'),
+      updatedAt: new Date('2026-01-02T01:00:00Z'),
+    });
+  });
+
+  it('should return only closed orders from fetchClosedOrders', async () => {
+    // #given
+    const transport = vi.fn().mockResolvedValue(
+      json({
+        orders: [
+          order('live', 'resting', 0),
+          order('partial', 'resting', 4),
+          order('done', 'executed', 10),
+          order('gone', 'canceled', 2),
+        ],
+      })
+    );
+    const exchange = new Kalshi({ apiKeyId: 'key', privateKeyPem, transport });
+
+    // #when
+    const orders = await exchange.fetchClosedOrders();
+
+    // #then
+    expect(String(transport.mock.calls[0]?.[0])).not.toContain('status=');
+    expect(orders.map((o) => [o.id, o.status])).toEqual([
+      ['done', OrderStatus.FILLED],
+      ['gone', OrderStatus.CANCELLED],
+    ]);
+  });
+
+  it('should report partially filled resting orders', async () => {
+    // #given
+    const transport = vi.fn().mockResolvedValue(json({ orders: [order('partial', 'resting', 4)] }));
+    const exchange = new Kalshi({ apiKeyId: 'key', privateKeyPem, transport });
+
+    // #when
+    const orders = await exchange.fetchOrders({
+      status: [OrderStatus.OPEN, OrderStatus.PARTIALLY_FILLED],
+      limit: 1,
+    });
+
+    // #then
+    expect(String(transport.mock.calls[0]?.[0])).toContain('status=resting');
+    expect(orders).toMatchObject([
+      { id: 'partial', status: OrderStatus.PARTIALLY_FILLED, filled: 4 },
+    ]);
+  });
+});
+
+describe('Polymarket order history', () => {
+  const trade = (i: number) => ({
+    id: `t${i}`,
+    taker_order_id: `o${i}`,
+    market: 'cond-1',
+    side: 'BUY',
+    price: '0.5',
+    size: '10',
+    fee_rate_bps: '0',
+    outcome: 'Yes',
+    trader_side: 'TAKER',
+    match_time: String(1_767_225_600 - i),
+    maker_orders: [],
+  });
+
+  it('should stop looking up filled orders once the limit is reached', async () => {
+    // #given
+    const getOrder = vi.fn(async (id: string) => ({
+      id,
+      market: 'cond-1',
+      side: 'BUY',
+      price: '0.5',
+      original_size: '10',
+      size_matched: '10',
+      status: 'MATCHED',
+      created_at: 1_767_225_600 - Number(id.slice(1)),
+    }));
+    const getTradesPaginated = vi.fn(async (_params: unknown, cursor?: string) => {
+      const start = cursor ? Number(cursor) : 0;
+      return {
+        trades: Array.from({ length: 100 }, (_, i) => trade(start + i)),
+        next_cursor: String(start + 100),
+      };
+    });
+    const exchange = new Polymarket({ privateKey: `0x${'11'.repeat(32)}` });
+    Object.assign(exchange as unknown as Record<string, unknown>, {
+      clobClient: { getOpenOrders: async () => [], getTradesPaginated, getOrder },
+      clobClientAuthenticated: true,
+    });
+
+    // #when
+    const orders = await exchange.fetchOrders({ limit: 10 });
+
+    // #then
+    expect(getTradesPaginated).toHaveBeenCalledOnce();
+    expect(getOrder).toHaveBeenCalledTimes(10);
+    expect(orders.map((order) => order.id)).toEqual(Array.from({ length: 10 }, (_, i) => `o${i}`));
+  });
+});
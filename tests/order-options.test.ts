@@ -0,0 +1,147 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  type CreateOrderParams,
+  InvalidOrder,
+  Kalshi,
+  Limitless,
+  Opinion,
+  OrderSide,
+  OrderType,
+  TimeInForce,
+} from '../src/index.js';
+import { kalshiPrivateKeyPem } from './helpers.js';
+
+const privateKeyPem = kalshiPrivateKeyPem();
+
+const order = (overrides: Partial<CreateOrderParams> = {}): CreateOrderParams => ({
+  marketId: 'KXBTC-25',
+  outcome: 'Yes',
+  side: OrderSide.BUY,
+  price: 0.42,
+  size: 10,
+  ...overrides,
+});
+
+const kalshi = () => {
+  const transport = vi.fn(
+    async () =>
+      new Response(JSON.stringify({ order: { order_id: 'k1', status: 'resting' } }), {
+        status: 201,
+      })
+  );
+  return { exchange: new Kalshi({ apiKeyId: 'key', privateKeyPem, transport }), transport };
+};
+
+const sentBody = (transport: ReturnType<typeof vi.fn>): Record<string, unknown> => {
+  const init = transport.mock.calls[0]?.[1] as RequestInit;
+  return JSON.parse(String(init.body));
+};
+
+describe('order options', () => {
+  it('should map time in force and flags onto the Kalshi payload', async () => {
+    // #given
+    const { exchange, transport } = kalshi();
+
+    // #when
+    await exchange.createOrder(
+      order({ timeInForce: TimeInForce.IOC, reduceOnly: true, outcome: 'No' })
+    );
+
+    // #then
+    expect(sentBody(transport)).toMatchObject({
+      type: 'limit',
+      side: 'no',
+      no_price: 42,
+      time_in_force: 'immediate_or_cancel',
+      reduce_only: true,
+    });
+  });
+
+  it('should treat expiresAt as GTD', async () => {
+    // #given
+    const { exchange, transport } = kalshi();
+    const expiresAt = new Date(Date.now() + 3_600_000);
+
+    // #when
+    await exchange.createOrder(order({ expiresAt, postOnly: true }));
+
+    // #then
+    expect(sentBody(transport)).toMatchObject({
+      expiration_ts: Math.floor(expiresAt.getTime() / 1000),
+      post_only: true,
+    });
+  });
+
+  it('should cap Kalshi market buys by cost', async () => {
+    // #given
+    const { exchange, transport } = kalshi();
+
+    // #when
+    await exchange.createOrder(order({ type: OrderType.MARKET }));
+
+    // #then
+    expect(sentBody(transport)).toMatchObject({ type: 'market', buy_max_cost: 420 });
+  });
+
+  it('should reject GTD without expiresAt', async () => {
+    // #given
+    const { exchange, transport } = kalshi();
+
+    // #when
+    const result = exchange.createOrder(order({ timeInForce: TimeInForce.GTD }));
+
+    // #then
+    await expect(result).rejects.toThrow(InvalidOrder);
+    expect(transport).not.toHaveBeenCalled();
+  });
+
+  it('should reject post-only orders that cannot rest', async () => {
+    // #given
+    const { exchange } = kalshi();
+
+    // #when
+    const result = exchange.createOrder(order({ timeInForce: TimeInForce.FOK, postOnly: true }));
+
+    // #then
+    await expect(result).rejects.toThrow('Post-only');
+  });
+
+  it('should reject options a venue does not support', async () => {
+    // #given
+    const exchange = new Opinion({
+      apiKey: 'key',
+      privateKey: `0x${'1'.repeat(64)}`,
+      multiSigAddr: '0x1',
+    });
+
+    // #when
+    const result = exchange.createOrder(order({ reduceOnly: true, tokenId: 't1' }));
+
+    // #then
+    await expect(result).rejects.toThrow('does not support reduce-only');
+  });
+
+  it('should reject time in force a venue does not support before authenticating', async () => {
+    // #given
+    const exchange = new Limitless();
+
+    // #when
+    const result = exchange.createOrder(order({ timeInForce: TimeInForce.IOC }));
+
+    // #then
+    await expect(result).rejects.toThrow(InvalidOrder);
+  });
+
+  it('should describe order support', () => {
+    // #given
+    const exchange = new Limitless();
+
+    // #when
+    const desc = exchange.describe();
+
+    // #then
+    expect(desc.orderTypes).toEqual(['limit', 'market']);
+    expect(desc.timeInForce).toEqual(['GTC', 'FOK']);
+    expect(desc.orderFlags).toEqual([]);
+  });
+});
@@ -143,6 +143,60 @@ describe('OrderbookUtils', () => {
       expect(result.asks[0]).toEqual([0.52, 250]);
     });
   });
+
+  describe('truncate', () => {
+    it('should keep at most depth levels per side', () => {
+      // #given
+      const orderbook: Orderbook = {
+        bids: [
+          [0.5, 100],
+          [0.49, 100],
+          [0.48, 100],
+        ],
+        asks: [
+          [0.52, 100],
+          [0.53, 100],
+        ],
+        timestamp: Date.now(),
+        assetId: 'token1',
+        marketId: 'm1',
+      };
+
+      // #when
+      const result = OrderbookUtils.truncate(orderbook, 1);
+
+      // #then
+      expect(result.bids).toEqual([[0.5, 100]]);
+      expect(result.asks).toEqual([[0.52, 100]]);
+    });
+  });
+
+  describe('invert', () => {
+    it('should derive the complementary outcome book', () => {
+      // #given
+      const orderbook: Orderbook = {
+        bids: [
+          [0.6, 100],
+          [0.55, 50],
+        ],
+        asks: [[0.65, 200]],
+        timestamp: Date.now(),
+        assetId: 'yes-token',
+        marketId: 'm1',
+      };
+
+      // #when
+      const result = OrderbookUtils.invert(orderbook, 'no-token');
+
+      // #then
+      expect(result.assetId).toBe('no-token');
+      expect(result.bids).toEqual([[0.35, 200]]);
+      expect(result.asks).toEqual([
+        [0.4, 100],
+        [0.45, 50],
+      ]);
+    });
+  });
 });
 
 describe('OrderbookManager', () => {
@@ -0,0 +1,114 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ExchangeError, Kalshi, Limitless, type Market, Polymarket } from '../src/index.js';
+import { json } from './helpers.js';
+
+const collect = async (iterable: AsyncIterable<Market>): Promise<Market[]> => {
+  const markets: Market[] = [];
+  for await (const market of iterable) markets.push(market);
+  return markets;
+};
+
+describe('paginateMarkets', () => {
+  it('should follow Kalshi cursors until the cursor is empty', async () => {
+    // #given
+    const transport = vi
+      .fn()
+      .mockResolvedValueOnce(json({ markets: [{ ticker: 'A' }, { ticker: 'B' }], cursor: 'c1' }))
+      .mockResolvedValueOnce(json({ markets: [{ ticker: 'C' }], cursor: '' }));
+    const exchange = new Kalshi({ transport });
+
+    // #when
+    const markets = await collect(exchange.paginateMarkets());
+
+    // #then
+    expect(markets.map((m) => m.id)).toEqual(['A', 'B', 'C']);
+    expect(transport).toHaveBeenCalledTimes(2);
+    expect(String(transport.mock.calls[1]?.[0])).toContain('cursor=c1');
+  });
+
+  it('should stop requesting pages once limit is reached', async () => {
+    // #given
+    const transport = vi
+      .fn()
+      .mockResolvedValue(json({ markets: [{ ticker: 'A' }, { ticker: 'B' }], cursor: 'more' }));
+    const exchange = new Kalshi({ transport });
+
+    // #when
+    const markets = await collect(exchange.paginateMarkets({ limit: 2 }));
+
+    // #then
+    expect(markets).toHaveLength(2);
+    expect(transport).toHaveBeenCalledOnce();
+  });
+
+  it('should stop Polymarket paging at the end cursor', async () => {
+    // #given
+    const market = (id: string) => ({ condition_id: id, tokens: [], closed: false });
+    const transport = vi
+      .fn()
+      .mockResolvedValueOnce(json({ data: [market('0x1')], next_cursor: 'MTAwMA==' }))
+      .mockResolvedValueOnce(json({ data: [market('0x2')], next_cursor: 'LTE=' }));
+    const exchange = new Polymarket({ transport });
+
+    // #when
+    const markets = await collect(exchange.paginateMarkets());
+
+    // #then
+    expect(markets.map((m) => m.id)).toEqual(['0x1', '0x2']);
+    expect(String(transport.mock.calls[1]?.[0])).toContain('next_cursor=MTAwMA%3D%3D');
+  });
+
+  it('should walk Limitless pages until a short page', async () => {
+    // #given
+    const page = (count: number, start: number) =>
+      Array.from({ length: count }, (_, i) => ({ slug: `m-${start + i}` }));
+    const transport = vi
+      .fn()
+      .mockResolvedValueOnce(json({ data: page(25, 0) }))
+      .mockResolvedValueOnce(json({ data: page(3, 25) }));
+    const exchange = new Limitless({ transport });
+
+    // #when
+    const markets = await collect(exchange.paginateMarkets());
+
+    // #then
+    expect(markets).toHaveLength(28);
+    expect(String(transport.mock.calls[1]?.[0])).toContain('page=2');
+  });
+});
+
+describe('fetchAllMarkets', () => {
+  it('should return every market across pages', async () => {
+    // #given
+    const transport = vi
+      .fn()
+      .mockResolvedValueOnce(json({ markets: [{ ticker: 'A' }], cursor: 'c1' }))
+      .mockResolvedValueOnce(json({ markets: [{ ticker: 'B' }] }));
+    const exchange = new Kalshi({ transport });
+
+    // #when
+    const markets = await exchange.fetchAllMarkets();
+
+    // #then
+    expect(markets.map((m) => m.id)).toEqual(['A', 'B']);
+  });
+
+  it('should throw when more than maxItems markets exist', async () => {
+    // #given
+    let page = 0;
+    const transport = vi.fn().mockImplementation(async () => {
+      page++;
+      return json({
+        markets: [{ ticker: `A${page}` }, { ticker: `B${page}` }],
+        cursor: `c${page}`,
+      });
+    });
+    const exchange = new Kalshi({ transport });
+
+    // #when
+    const result = exchange.fetchAllMarkets({ maxItems: 3 });
+
+    // #then
+    await expect(result).rejects.toThrow(ExchangeError);
+  });
+});
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  type Exchange,
+  type Orderbook,
+  PollingOrderBookStream,
+  RateLimitError,
+} from '../src/index.js';
+
+const book = (bid: number): Orderbook => ({
+  bids: [[bid, 10]],
+  asks: [[0.6, 10]],
+  timestamp: Date.now(),
+  assetId: 't1',
+  marketId: 'm1',
+});
+
+const exchangeWith = (fetchOrderbook: ReturnType<typeof vi.fn>) =>
+  ({ fetchOrderbook }) as unknown as Exchange;
+
+describe('PollingOrderBookStream', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should only call back on changes and slow down while the book is quiet', async () => {
+    // #given
+    const fetchOrderbook = vi
+      .fn()
+      .mockResolvedValueOnce(book(0.4))
+      .mockResolvedValueOnce(book(0.4))
+      .mockResolvedValueOnce(book(0.4))
+      .mockResolvedValue(book(0.41));
+    const stream = new PollingOrderBookStream(exchangeWith(fetchOrderbook), {
+      pollInterval: 100,
+      idleBackoff: 2,
+    });
+    const callback = vi.fn();
+
+    // #when
+    await stream.watchOrderbook('m1', callback, { outcome: 'Yes' });
+    await vi.advanceTimersByTimeAsync(750);
+    await stream.disconnect();
+
+    // #then
+    expect(fetchOrderbook).toHaveBeenCalledWith('m1', { outcome: 'Yes' });
+    // Polls at 0, 100, 300 and 700ms
+    expect(fetchOrderbook).toHaveBeenCalledTimes(4);
+    expect(callback.mock.calls.map(([, update]) => update.bids[0][0])).toEqual([0.4, 0.41]);
+  });
+
+  it('should wait out rate limits and report errors', async () => {
+    // #given
+    const fetchOrderbook = vi
+      .fn()
+      .mockRejectedValueOnce(new RateLimitError('Rate limited', 5000))
+      .mockResolvedValue(book(0.4));
+    const stream = new PollingOrderBookStream(exchangeWith(fetchOrderbook), { pollInterval: 100 });
+    const errors: unknown[] = [];
+    stream.on('error', (error) => errors.push(error));
+    const callback = vi.fn();
+
+    // #when
+    await stream.watchOrderbook('m1', callback);
+    await vi.advanceTimersByTimeAsync(4900);
+    const callsDuringPause = fetchOrderbook.mock.calls.length;
+    await vi.advanceTimersByTimeAsync(200);
+    await stream.unwatchOrderbook('m1');
+
+    // #then
+    expect(callsDuringPause).toBe(1);
+    expect(errors[0]).toBeInstanceOf(RateLimitError);
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop polling a market once unwatched', async () => {
+    // #given
+    const fetchOrderbook = vi.fn().mockResolvedValue(book(0.4));
+    const stream = new PollingOrderBookStream(exchangeWith(fetchOrderbook), { pollInterval: 100 });
+    await stream.watchOrderbook('m1', vi.fn());
+
+    // #when
+    await stream.unwatchOrderbook('m1');
+    await vi.advanceTimersByTimeAsync(1000);
+
+    // #then
+    expect(fetchOrderbook).toHaveBeenCalledTimes(1);
+    expect(stream.isConnected).toBe(true);
+  });
+
+  it('should keep a single poll loop when reconnected during a request', async () => {
+    // #given
+    let release: (value: Orderbook) => void = () => {};
+    const fetchOrderbook = vi
+      .fn()
+      .mockImplementationOnce(() => new Promise<Orderbook>((resolve) => (release = resolve)))
+      .mockResolvedValue(book(0.4));
+    const stream = new PollingOrderBookStream(exchangeWith(fetchOrderbook), {
+      pollInterval: 100,
+      idleBackoff: 1,
+    });
+    await stream.watchOrderbook('m1', vi.fn());
+
+    // #when
+    await stream.disconnect();
+    await stream.connect();
+    release(book(0.4));
+    await vi.advanceTimersByTimeAsync(1000);
+    await stream.disconnect();
+
+    // #then
+    // One loop: the held request, then a poll every 100ms
+    expect(fetchOrderbook).toHaveBeenCalledTimes(11);
+  });
+});
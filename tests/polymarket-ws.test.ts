@@ -0,0 +1,252 @@
+import { createHash } from 'node:crypto';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  type Orderbook,
+  type OrderbookUpdate,
+  OrderSide,
+  type PolymarketLastTrade,
+  PolymarketWebSocket,
+  SubscriptionStatus,
+  type SubscriptionStatusChange,
+} from '../src/index.js';
+
+const connected = async (config: ConstructorParameters<typeof PolymarketWebSocket>[0] = {}) => {
+  const ws = new PolymarketWebSocket(config);
+  const sent: Array<Record<string, unknown>> = [];
+  const internals = ws as unknown as {
+    ws: unknown;
+    state: string;
+    handleMessage(data: Buffer): void;
+    handleClose(): void;
+  };
+  internals.ws = { readyState: 1, send: (data: string) => sent.push(JSON.parse(data)) };
+  internals.state = 'connected';
+  const receive = (message: unknown) =>
+    internals.handleMessage(Buffer.from(JSON.stringify(message)));
+
+  const updates: OrderbookUpdate[] = [];
+  await ws.watchOrderbookWithAsset('m1', '111', (_id, update) => {
+    updates.push(update);
+  });
+  return { ws, sent, receive, updates, internals };
+};
+
+const snapshot = {
+  event_type: 'book',
+  asset_id: '111',
+  market: '0xabc',
+  bids: [
+    { price: '0.48', size: '100' },
+    { price: '0.47', size: '50' },
+  ],
+  asks: [{ price: '0.52', size: '80' }],
+  timestamp: '1735689600000',
+};
+
+describe('PolymarketWebSocket deltas', () => {
+  it('should apply price changes to the snapshot', async () => {
+    // #given
+    const { ws, receive, updates } = await connected();
+
+    // #when
+    receive([snapshot]);
+    receive({
+      event_type: 'price_change',
+      market: '0xabc',
+      price_changes: [
+        { asset_id: '111', price: '0.48', size: '0', side: 'BUY', best_bid: '0.47' },
+        { asset_id: '111', price: '0.51', size: '20', side: 'SELL', best_ask: '0.51' },
+      ],
+      timestamp: '1735689601000',
+    });
+
+    // #then
+    expect(updates).toHaveLength(2);
+    expect(updates[1]).toEqual({
+      marketId: 'm1',
+      bids: [[0.47, 50]],
+      asks: [
+        [0.51, 20],
+        [0.52, 80],
+      ],
+      timestamp: 1735689601000,
+    });
+    expect(ws.getOrderbook('111')?.asks[0]).toEqual([0.51, 20]);
+  });
+
+  it('should request a new snapshot when the book disagrees with the server', async () => {
+    // #given
+    const { ws, sent, receive, updates } = await connected();
+    receive(snapshot);
+
+    // #when
+    receive({
+      event_type: 'price_change',
+      asset_id: '111',
+      changes: [{ price: '0.46', size: '10', side: 'BUY' }],
+    });
+    receive({
+      event_type: 'price_change',
+      price_changes: [{ asset_id: '111', price: '0.45', size: '5', side: 'BUY', best_bid: '0.5' }],
+    });
+    receive({
+      event_type: 'price_change',
+      price_changes: [{ asset_id: '111', price: '0.44', size: '5', side: 'BUY' }],
+    });
+
+    // #then
+    expect(updates).toHaveLength(2);
+    await vi.waitFor(() =>
+      expect(sent.slice(1)).toEqual([
+        { assets_ids: ['111'], operation: 'unsubscribe' },
+        { assets_ids: ['111'], operation: 'subscribe' },
+      ])
+    );
+    expect(ws.getOrderbook('111')).toBeNull();
+    expect(ws.getSubscriptionStatus('m1')).toBe(SubscriptionStatus.RESYNCING);
+  });
+
+  it('should emit tick size changes and trades', async () => {
+    // #given
+    const { ws, receive } = await connected();
+    const tickSizes = vi.fn();
+    const trades: PolymarketLastTrade[] = [];
+    ws.on('tickSizeChange', tickSizes);
+    ws.on('trade', (trade) => trades.push(trade));
+
+    // #when
+    receive({
+      event_type: 'tick_size_change',
+      asset_id: '111',
+      old_tick_size: '0.01',
+      new_tick_size: '0.001',
+      timestamp: '1735689600000',
+    });
+    receive({
+      event_type: 'last_trade_price',
+      asset_id: '111',
+      price: '0.49',
+      size: '12',
+      side: 'SELL',
+      fee_rate_bps: '0',
+      timestamp: '1735689602000',
+    });
+
+    // #then
+    expect(tickSizes).toHaveBeenCalledWith(
+      expect.objectContaining({ marketId: 'm1', oldTickSize: 0.01, newTickSize: 0.001 })
+    );
+    expect(ws.getTickSize('111')).toBe(0.001);
+    expect(trades).toEqual([
+      {
+        marketId: 'm1',
+        assetId: '111',
+        price: 0.49,
+        size: 12,
+        side: OrderSide.SELL,
+        feeRateBps: 0,
+        timestamp: 1735689602000,
+      },
+    ]);
+  });
+});
+
+describe('PolymarketWebSocket resync', () => {
+  it('should restore a REST snapshot and replay the deltas received meanwhile', async () => {
+    // #given
+    let resolveSnapshot: (book: Orderbook) => void = () => {};
+    const fetchSnapshot = vi.fn(
+      () => new Promise<Orderbook>((resolve) => (resolveSnapshot = resolve))
+    );
+    const { ws, sent, receive, updates } = await connected({ fetchSnapshot });
+    receive(snapshot);
+
+    // #when
+    receive({
+      event_type: 'price_change',
+      price_changes: [{ asset_id: '111', price: '0.45', size: '5', side: 'BUY', best_bid: '0.5' }],
+    });
+    receive({
+      event_type: 'price_change',
+      price_changes: [{ asset_id: '111', price: '0.49', size: '7', side: 'BUY' }],
+      timestamp: '1735689605000',
+    });
+    const status = ws.getSubscriptionStatus('m1');
+    resolveSnapshot({
+      marketId: 'm1',
+      assetId: '111',
+      bids: [
+        [0.48, 100],
+        [0.45, 5],
+      ],
+      asks: [[0.52, 80]],
+      timestamp: 1735689604000,
+    });
+    await vi.waitFor(() => expect(updates).toHaveLength(2));
+
+    // #then
+    expect(status).toBe(SubscriptionStatus.RESYNCING);
+    expect(fetchSnapshot).toHaveBeenCalledWith('m1', '111');
+    expect(sent).toHaveLength(1);
+    expect(updates[1]).toEqual({
+      marketId: 'm1',
+      bids: [
+        [0.49, 7],
+        [0.48, 100],
+        [0.45, 5],
+      ],
+      asks: [[0.52, 80]],
+      timestamp: 1735689605000,
+    });
+    expect(ws.getSubscriptionStatus('m1')).toBe(SubscriptionStatus.LIVE);
+  });
+
+  it('should resync a snapshot that fails its hash', async () => {
+    // #given
+    const { ws, sent, receive, updates } = await connected({ verifyChecksums: true });
+    const summary = {
+      market: snapshot.market,
+      asset_id: snapshot.asset_id,
+      timestamp: snapshot.timestamp,
+      bids: snapshot.bids,
+      asks: snapshot.asks,
+      min_order_size: null,
+      neg_risk: null,
+      tick_size: null,
+      hash: '',
+    };
+    const hash = createHash('sha1').update(JSON.stringify(summary)).digest('hex');
+
+    // #when
+    receive({ ...snapshot, hash });
+    receive({ ...snapshot, bids: [], hash });
+
+    // #then
+    expect(updates).toHaveLength(1);
+    await vi.waitFor(() => expect(sent).toHaveLength(3));
+    expect(ws.getOrderbook('111')).toBeNull();
+    expect(ws.getSubscriptionStatus('m1')).toBe(SubscriptionStatus.RESYNCING);
+  });
+
+  it('should mark books stale on disconnect until a new snapshot arrives', async () => {
+    // #given
+    const { ws, receive, internals } = await connected({ autoReconnect: false });
+    const changes: SubscriptionStatusChange[] = [];
+    ws.on('status', (change) => changes.push(change));
+    receive(snapshot);
+
+    // #when
+    internals.handleClose();
+    const stale = ws.getSubscriptionStatus('m1');
+    internals.state = 'connected';
+    receive(snapshot);
+
+    // #then
+    expect(stale).toBe(SubscriptionStatus.STALE);
+    expect(changes.map(({ status, reason }) => [status, reason])).toEqual([
+      [SubscriptionStatus.LIVE, 'updated'],
+      [SubscriptionStatus.STALE, 'disconnected'],
+      [SubscriptionStatus.LIVE, 'updated'],
+    ]);
+  });
+});
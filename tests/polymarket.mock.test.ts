@@ -1,7 +1,9 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import {
+  AuthenticationError,
   type Market,
   MarketNotFound,
+  MarketStatus,
   MarketUtils,
   NetworkError,
   Polymarket,
@@ -17,12 +19,13 @@ const createMockMarket = (overrides: Partial<Market> = {}): Market => ({
   liquidity: 50000,
   tickSize: 0.01,
   closeTime: new Date('2030-12-31T00:00:00Z'),
-  metadata: {
-    active: true,
-    closed: false,
-    clobTokenIds: ['token-yes-123', 'token-no-123'],
-    market_slug: 'btc-100k',
-  },
+  status: MarketStatus.OPEN,
+  outcomeTokens: [
+    { outcome: 'Yes', tokenId: 'token-yes-123' },
+    { outcome: 'No', tokenId: 'token-no-123' },
+  ],
+  slug: 'btc-100k',
+  metadata: {},
   ...overrides,
 });
 
@@ -68,7 +71,7 @@ describe('MarketUtils', () => {
     it('should return false for closed market', () => {
       // #given
       const market = createMockMarket({
-        metadata: { closed: true },
+        status: MarketStatus.CLOSED,
       });
 
       // #when
@@ -82,7 +85,6 @@ describe('MarketUtils', () => {
       // #given
       const market = createMockMarket({
         closeTime: new Date('2020-01-01'),
-        metadata: { closed: false },
       });
 
       // #when
@@ -135,40 +137,21 @@ describe('MarketUtils', () => {
   });
 
   describe('getTokenIds', () => {
-    it('should extract token ids from metadata array', () => {
+    it('should extract token ids in outcome order', () => {
       // #given
-      const market = createMockMarket({
-        metadata: {
-          clobTokenIds: ['token-1', 'token-2'],
-        },
-      });
-
-      // #when
-      const tokenIds = MarketUtils.getTokenIds(market);
-
-      // #then
-      expect(tokenIds).toEqual(['token-1', 'token-2']);
-    });
-
-    it('should parse JSON string token ids', () => {
-      // #given
-      const market = createMockMarket({
-        metadata: {
-          clobTokenIds: '["token-a", "token-b"]',
-        },
-      });
+      const market = createMockMarket();
 
       // #when
       const tokenIds = MarketUtils.getTokenIds(market);
 
       // #then
-      expect(tokenIds).toEqual(['token-a', 'token-b']);
+      expect(tokenIds).toEqual(['token-yes-123', 'token-no-123']);
     });
 
     it('should return empty array when no token ids', () => {
       // #given
       const market = createMockMarket({
-        metadata: {},
+        outcomeTokens: [],
       });
 
       // #when
@@ -184,9 +167,10 @@ describe('MarketUtils', () => {
       // #given
       const market = createMockMarket({
         outcomes: ['Yes', 'No'],
-        metadata: {
-          clobTokenIds: ['token-yes', 'token-no'],
-        },
+        outcomeTokens: [
+          { outcome: 'No', tokenId: 'token-no' },
+          { outcome: 'Yes', tokenId: 'token-yes' },
+        ],
       });
 
       // #when
@@ -322,6 +306,115 @@ describe('Polymarket with mocked fetch', () => {
       await expect(polymarket.fetchMarket('test-id')).rejects.toThrow(NetworkError);
     });
   });
+
+  describe('fetchOrderbook', () => {
+    it('should return a normalized orderbook for the given token', async () => {
+      // #given
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({
+          bids: [
+            { price: '0.48', size: '100' },
+            { price: '0.50', size: '20' },
+          ],
+          asks: [
+            { price: '0.55', size: '10' },
+            { price: '0.52', size: '30' },
+          ],
+        }),
+      });
+
+      // #when
+      const orderbook = await polymarket.fetchOrderbook('cond-123', {
+        tokenId: 'token-yes-123',
+        depth: 1,
+      });
+
+      // #then
+      expect(orderbook.marketId).toBe('cond-123');
+      expect(orderbook.assetId).toBe('token-yes-123');
+      expect(orderbook.bids).toEqual([[0.5, 20]]);
+      expect(orderbook.asks).toEqual([[0.52, 30]]);
+    });
+
+    it('should throw instead of returning an empty book when the CLOB fails', async () => {
+      // #given
+      global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 503 });
+      const exchange = new Polymarket({ maxRetries: 0 });
+
+      // #when
+      const result = exchange.fetchOrderbook('cond-123', { tokenId: 'token-yes-123' });
+
+      // #then
+      await expect(result).rejects.toThrow(NetworkError);
+      await expect(exchange.getOrderbook('token-yes-123')).resolves.toEqual({ bids: [], asks: [] });
+    });
+  });
+
+  describe('fetchPositions', () => {
+    const privateKey = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+    const funder = '0x00000000000000000000000000000000000f00d5';
+
+    it('should read positions of the funder wallet with cost basis', async () => {
+      // #given
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => [
+          {
+            conditionId: 'cond-123',
+            outcome: 'Yes',
+            size: 120,
+            avgPrice: 0.41,
+            curPrice: 0.55,
+            realizedPnl: 3.5,
+          },
+          { conditionId: 'cond-456', outcome: 'No', size: 0, avgPrice: 0.2, curPrice: 0.1 },
+        ],
+      });
+      const exchange = new Polymarket({ privateKey, funder, maxRetries: 0 });
+
+      // #when
+      const positions = await exchange.fetchPositions('cond-123');
+
+      // #then
+      expect(positions).toEqual([
+        {
+          marketId: 'cond-123',
+          outcome: 'Yes',
+          size: 120,
+          averagePrice: 0.41,
+          currentPrice: 0.55,
+          realizedPnl: 3.5,
+        },
+      ]);
+      const url = String(vi.mocked(global.fetch).mock.calls[0]?.[0]);
+      expect(url).toContain(`user=${funder}`);
+      expect(url).toContain('market=cond-123');
+    });
+
+    it('should read the funder wallet without a private key', async () => {
+      // #given
+      global.fetch = vi.fn().mockResolvedValue({ ok: true, status: 200, json: async () => [] });
+      const exchange = new Polymarket({ funder, maxRetries: 0 });
+
+      // #when
+      const positions = await exchange.fetchPositions();
+
+      // #then
+      expect(positions).toEqual([]);
+      expect(String(vi.mocked(global.fetch).mock.calls[0]?.[0])).toContain(`user=${funder}`);
+    });
+
+    it('should require a wallet', async () => {
+      // #when
+      const result = polymarket.fetchPositions();
+
+      // #then
+      await expect(result).rejects.toThrow(AuthenticationError);
+    });
+  });
 });
 
 describe('Error classes', () => {
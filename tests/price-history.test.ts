@@ -0,0 +1,233 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  Kalshi,
+  Limitless,
+  OHLCVUtils,
+  Polymarket,
+  PredictFun,
+  type PricePoint,
+} from '../src/index.js';
+import { json, market } from './helpers.js';
+
+const binary = market('m1', {
+  outcomeTokens: [
+    { outcome: 'Yes', tokenId: '111' },
+    { outcome: 'No', tokenId: '222' },
+  ],
+});
+
+const point = (iso: string, price: number): PricePoint => ({
+  timestamp: new Date(iso),
+  price,
+  raw: {},
+});
+
+describe('OHLCVUtils', () => {
+  it('should bucket price points into aligned candles', () => {
+    // #given
+    const points = [
+      point('2025-01-01T00:10:00Z', 0.5),
+      point('2025-01-01T00:40:00Z', 0.62),
+      point('2025-01-01T00:50:00Z', 0.45),
+      point('2025-01-01T02:05:00Z', 0.55),
+    ];
+
+    // #when
+    const candles = OHLCVUtils.fromPricePoints(points, '1h');
+
+    // #then
+    expect(candles).toEqual([
+      {
+        timestamp: new Date('2025-01-01T00:00:00Z'),
+        open: 0.5,
+        high: 0.62,
+        low: 0.45,
+        close: 0.45,
+        volume: 0,
+      },
+      {
+        timestamp: new Date('2025-01-01T02:00:00Z'),
+        open: 0.55,
+        high: 0.55,
+        low: 0.55,
+        close: 0.55,
+        volume: 0,
+      },
+    ]);
+  });
+});
+
+describe('fetchPriceHistory', () => {
+  it('should pass explicit bounds to the Polymarket CLOB', async () => {
+    // #given
+    const transport = vi.fn().mockResolvedValue(
+      json({
+        history: [
+          { t: 1735693200, p: 0.6 },
+          { t: 1735689600, p: 0.5 },
+        ],
+      })
+    );
+    const exchange = new Polymarket({ transport });
+
+    // #when
+    const points = await exchange.fetchPriceHistory(binary, {
+      outcome: 'No',
+      since: new Date('2025-01-01T00:00:00Z'),
+      until: new Date('2025-01-02T00:00:00Z'),
+    });
+
+    // #then
+    const url = new URL(String(transport.mock.calls[0]?.[0]));
+    expect(url.searchParams.get('market')).toBe('222');
+    expect(url.searchParams.get('startTs')).toBe('1735689600');
+    expect(url.searchParams.get('endTs')).toBe('1735776000');
+    expect(url.searchParams.has('interval')).toBe(false);
+    expect(points.map((p) => p.price)).toEqual([0.5, 0.6]);
+  });
+
+  it('should build Polymarket candles from sampled points', async () => {
+    // #given
+    const transport = vi.fn().mockResolvedValue(
+      json({
+        history: [
+          { t: 1735689600, p: 0.5 },
+          { t: 1735691400, p: 0.7 },
+        ],
+      })
+    );
+    const exchange = new Polymarket({ transport });
+
+    // #when
+    const candles = await exchange.fetchOHLCV(
+      binary,
+      'Yes',
+      '1h',
+      new Date('2025-01-01T00:00:00Z'),
+      new Date('2025-01-01T01:00:00Z')
+    );
+
+    // #then
+    expect(new URL(String(transport.mock.calls[0]?.[0])).searchParams.get('fidelity')).toBe('10');
+    expect(candles).toMatchObject([{ open: 0.5, high: 0.7, low: 0.5, close: 0.7 }]);
+  });
+});
+
+describe('venue price units', () => {
+  it('should read Limitless chart points as percentages stamped in milliseconds', async () => {
+    // #given
+    const transport = vi.fn().mockResolvedValue(
+      json([
+        {
+          title: 'Yes',
+          prices: [
+            { price: 1, timestamp: 1735689600000 },
+            { price: 62.5, timestamp: 1735693200000 },
+          ],
+        },
+      ])
+    );
+    const exchange = new Limitless({ transport });
+
+    // #when
+    const points = await exchange.fetchPriceHistory(binary, {
+      outcome: 'No',
+      since: new Date('2025-01-01T00:00:00Z'),
+    });
+
+    // #then
+    expect(points.map((p) => [p.timestamp.toISOString(), p.price])).toEqual([
+      ['2025-01-01T00:00:00.000Z', 0.99],
+      ['2025-01-01T01:00:00.000Z', 0.375],
+    ]);
+  });
+
+  it('should read Predict.fun points as decimals stamped in seconds', async () => {
+    // #given
+    const transport = vi
+      .fn()
+      .mockResolvedValue(json({ data: [{ timestamp: 1735689600, price: '0.01' }] }));
+    const exchange = new PredictFun({ apiKey: 'key', transport });
+
+    // #when
+    const points = await exchange.fetchPriceHistory(binary);
+
+    // #then
+    expect(points.map((p) => [p.timestamp.toISOString(), p.price])).toEqual([
+      ['2025-01-01T00:00:00.000Z', 0.01],
+    ]);
+  });
+});
+
+describe('Kalshi candles', () => {
+  const kalshiMarket = market('KXBTC-25-T1', { eventId: 'KXBTC-25' });
+
+  it('should merge native hourly candles with volume', async () => {
+    // #given
+    const transport = vi.fn(async (input: RequestInfo | URL) =>
+      String(input).includes('/events/')
+        ? json({ event: { event_ticker: 'KXBTC-25', series_ticker: 'KXBTC' } })
+        : json({
+            candlesticks: [
+              {
+                end_period_ts: 1735693200,
+                price: { open: 40, high: 45, low: 38, close: 44 },
+                volume: 10,
+              },
+              {
+                end_period_ts: 1735696800,
+                price: { open: null, high: null, low: null, close: null },
+                yes_bid: { open: 46, high: 48, low: 44, close: 47 },
+                yes_ask: { open: 48, high: 50, low: 46, close: 49 },
+                volume: 0,
+              },
+            ],
+          })
+    );
+    const exchange = new Kalshi({ transport });
+
+    // #when
+    const candles = await exchange.fetchOHLCV(
+      kalshiMarket,
+      'Yes',
+      '4h',
+      new Date('2025-01-01T00:00:00Z'),
+      new Date('2025-01-01T04:00:00Z')
+    );
+
+    // #then
+    const url = String(transport.mock.calls[1]?.[0]);
+    expect(url).toContain('/series/KXBTC/markets/KXBTC-25-T1/candlesticks');
+    expect(url).toContain('period_interval=60');
+    expect(candles).toEqual([
+      {
+        timestamp: new Date('2025-01-01T00:00:00Z'),
+        open: 0.4,
+        high: 0.49,
+        low: 0.38,
+        close: 0.48,
+        volume: 10,
+      },
+    ]);
+  });
+
+  it('should invert candles for No', async () => {
+    // #given
+    const transport = vi.fn(async (input: RequestInfo | URL) =>
+      String(input).includes('/events/')
+        ? json({ event: { series_ticker: 'KXBTC' } })
+        : json({
+            candlesticks: [
+              { end_period_ts: 1735776000, price: { open: 40, high: 45, low: 38, close: 44 } },
+            ],
+          })
+    );
+    const exchange = new Kalshi({ transport });
+
+    // #when
+    const [candle] = await exchange.fetchOHLCV(kalshiMarket, 'No', '1d');
+
+    // #then
+    expect(candle).toMatchObject({ open: 0.6, high: 0.62, low: 0.55, close: 0.56 });
+  });
+});
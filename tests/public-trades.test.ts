@@ -0,0 +1,164 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Kalshi, Limitless, OrderSide, Polymarket, PredictFun } from '../src/index.js';
+import { json } from './helpers.js';
+
+describe('fetchPublicTrades', () => {
+  it('should page the Polymarket tape by offset and keep profiles in metadata', async () => {
+    // #given
+    const row = (i: number) => ({
+      conditionId: '0xabc',
+      outcome: 'Yes',
+      side: i % 2 ? 'SELL' : 'BUY',
+      price: 0.5,
+      size: 10,
+      timestamp: 1735689600 - i,
+      transactionHash: `0x${i}`,
+      pseudonym: 'trader',
+    });
+    const transport = vi
+      .fn()
+      .mockResolvedValueOnce(json(Array.from({ length: 500 }, (_, i) => row(i))))
+      .mockResolvedValueOnce(json([row(500), row(501)]));
+    const exchange = new Polymarket({ transport });
+
+    // #when
+    const trades = await exchange.fetchPublicTrades({ market: '0xabc', limit: 600 });
+
+    // #then
+    const second = new URL(String(transport.mock.calls[1]?.[0]));
+    expect(second.searchParams.get('offset')).toBe('500');
+    expect(second.searchParams.get('market')).toBe('0xabc');
+    expect(trades).toHaveLength(502);
+    expect(trades[1]).toMatchObject({
+      marketId: '0xabc',
+      side: OrderSide.SELL,
+      timestamp: new Date('2024-12-31T23:59:59Z'),
+      metadata: { pseudonym: 'trader' },
+    });
+  });
+
+  it('should start the Polymarket tape at a caller offset', async () => {
+    // #given
+    const transport = vi.fn().mockResolvedValue(json([]));
+    const exchange = new Polymarket({ transport });
+
+    // #when
+    await exchange.fetchPublicTrades({ market: '0xabc', offset: 200 });
+
+    // #then
+    const url = new URL(String(transport.mock.calls[0]?.[0]));
+    expect(url.searchParams.get('offset')).toBe('200');
+  });
+
+  it('should not use a shared Polymarket settlement hash as the trade id', async () => {
+    // #given
+    const fill = (size: number) => ({
+      conditionId: '0xabc',
+      outcome: 'Yes',
+      side: 'BUY',
+      price: 0.5,
+      size,
+      timestamp: 1735689600,
+      transactionHash: '0xsettle',
+    });
+    const exchange = new Polymarket({
+      transport: vi.fn().mockResolvedValue(json([fill(3), fill(7)])),
+    });
+
+    // #when
+    const trades = await exchange.fetchPublicTrades({ market: '0xabc' });
+
+    // #then
+    expect(trades).toHaveLength(2);
+    expect(trades.map((trade) => trade.id)).toEqual([undefined, undefined]);
+    expect(trades.map((trade) => trade.transactionHash)).toEqual(['0xsettle', '0xsettle']);
+  });
+
+  it('should follow Kalshi cursors and stop at since', async () => {
+    // #given
+    const trade = (id: string, created: string) => ({
+      trade_id: id,
+      ticker: 'KXBTC-25-T1',
+      count: 3,
+      yes_price: 40,
+      no_price: 60,
+      taker_side: 'no',
+      created_time: created,
+    });
+    const transport = vi
+      .fn()
+      .mockResolvedValueOnce(
+        json({ trades: [trade('a', '2025-01-03T00:00:00Z')], cursor: 'next-page' })
+      )
+      .mockResolvedValueOnce(
+        json({
+          trades: [trade('b', '2025-01-02T00:00:00Z'), trade('c', '2024-12-31T00:00:00Z')],
+          cursor: 'more',
+        })
+      );
+    const exchange = new Kalshi({ transport });
+
+    // #when
+    const trades = await exchange.fetchPublicTrades({
+      market: 'KXBTC-25-T1',
+      since: new Date('2025-01-01T00:00:00Z'),
+    });
+
+    // #then
+    expect(String(transport.mock.calls[1]?.[0])).toContain('cursor=next-page');
+    expect(transport).toHaveBeenCalledTimes(2);
+    expect(trades.map((t) => t.id)).toEqual(['a', 'b']);
+    expect(trades[0]).toMatchObject({ outcome: 'No', side: OrderSide.BUY, price: 0.6, size: 3 });
+  });
+
+  it('should read the Predict.fun taker leg from wei', async () => {
+    // #given
+    const transport = vi.fn().mockResolvedValue(
+      json({
+        data: [
+          {
+            id: 7,
+            marketId: 42,
+            taker: {
+              side: 1,
+              amount: '5000000000000000000',
+              price: '450000000000000000',
+              outcome: { name: 'Yes' },
+            },
+            makers: [],
+            transactionHash: '0xdef',
+            executedAt: '2025-01-01T00:00:00Z',
+          },
+        ],
+        cursor: null,
+      })
+    );
+    const exchange = new PredictFun({ transport });
+
+    // #when
+    const [trade] = await exchange.fetchPublicTrades({ market: '42' });
+
+    // #then
+    expect(String(transport.mock.calls[0]?.[0])).toContain('marketId=42');
+    expect(trade).toMatchObject({
+      id: '7',
+      marketId: '42',
+      outcome: 'Yes',
+      side: OrderSide.SELL,
+      price: 0.45,
+      size: 5,
+      transactionHash: '0xdef',
+    });
+  });
+
+  it('should require a market on Limitless', async () => {
+    // #given
+    const exchange = new Limitless({ transport: vi.fn() });
+
+    // #when
+    const result = exchange.fetchPublicTrades();
+
+    // #then
+    await expect(result).rejects.toThrow('pass `market`');
+  });
+});
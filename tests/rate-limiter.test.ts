@@ -0,0 +1,200 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Kalshi, NetworkError, Polymarket, parseRetryAfter, RateLimiter } from '../src/index.js';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should resolve immediately while tokens are available', async () => {
+    // #given
+    const limiter = new RateLimiter({ rate: 2, capacity: 2 });
+
+    // #when
+    await limiter.acquire();
+    await limiter.acquire();
+
+    // #then
+    expect(limiter.available).toBeCloseTo(0);
+  });
+
+  it('should queue callers instead of throwing when the bucket is empty', async () => {
+    // #given
+    const limiter = new RateLimiter({ rate: 1, capacity: 1 });
+    await limiter.acquire();
+    let resolved = false;
+
+    // #when
+    const waiting = limiter.acquire().then(() => {
+      resolved = true;
+    });
+
+    // #then
+    expect(limiter.pending).toBe(1);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(resolved).toBe(false);
+    await vi.advanceTimersByTimeAsync(500);
+    await waiting;
+    expect(resolved).toBe(true);
+  });
+
+  it('should serve waiters in FIFO order regardless of cost', async () => {
+    // #given
+    const limiter = new RateLimiter({ rate: 10, capacity: 10 });
+    await limiter.acquire(10);
+    const order: string[] = [];
+
+    // #when
+    const heavy = limiter.acquire(5).then(() => order.push('heavy'));
+    const light = limiter.acquire(1).then(() => order.push('light'));
+    await vi.advanceTimersByTimeAsync(1000);
+    await Promise.all([heavy, light]);
+
+    // #then
+    expect(order).toEqual(['heavy', 'light']);
+  });
+
+  it('should hold waiters while paused', async () => {
+    // #given
+    const limiter = new RateLimiter({ rate: 100 });
+    limiter.pause(2000);
+    let resolved = false;
+
+    // #when
+    const waiting = limiter.acquire().then(() => {
+      resolved = true;
+    });
+    await vi.advanceTimersByTimeAsync(1999);
+
+    // #then
+    expect(resolved).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    await waiting;
+    expect(resolved).toBe(true);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse delta seconds', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+  });
+
+  it('should parse an HTTP date', () => {
+    // #given
+    const date = new Date(Date.now() + 5000).toUTCString();
+
+    // #when
+    const result = parseRetryAfter(date);
+
+    // #then
+    expect(result).toBeGreaterThan(3000);
+    expect(result).toBeLessThanOrEqual(5000);
+  });
+
+  it('should return undefined for missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('Exchange rate limiting', () => {
+  let exchange: Polymarket;
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    exchange = new Polymarket({ maxRetries: 1, retryDelay: 1 });
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    vi.useRealTimers();
+  });
+
+  it('should retry a 429 after the Retry-After delay', async () => {
+    // #given
+    vi.useFakeTimers();
+    global.fetch = vi
+      .fn()
+      .mockResolvedValueOnce(
+        new Response('slow down', { status: 429, headers: { 'Retry-After': '2' } })
+      )
+      .mockResolvedValueOnce(new Response('[]', { status: 200 }));
+
+    // #when
+    const result = exchange.fetchMarkets();
+    await vi.advanceTimersByTimeAsync(1999);
+
+    // #then
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toEqual([]);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep network errors separate from rate limiting', async () => {
+    // #given
+    global.fetch = vi.fn().mockResolvedValue(new Response('boom', { status: 500 }));
+
+    // #when
+    const result = exchange.fetchMarkets();
+
+    // #then
+    await expect(result).rejects.toThrow(NetworkError);
+  });
+});
+
+describe('endpoint weights', () => {
+  it('should charge Gamma market listings without charging CLOB market reads', () => {
+    // #given
+    const polymarket = new Polymarket() as unknown as {
+      endpointWeight(url: string, method?: string): number;
+    };
+
+    // #when
+    const gamma = polymarket.endpointWeight('https://gamma-api.polymarket.com/markets?limit=100');
+    const clob = polymarket.endpointWeight('https://clob.polymarket.com/markets/0xabc');
+
+    // #then
+    expect(gamma).toBe(5);
+    expect(clob).toBe(1);
+  });
+
+  it('should prefer a method-qualified key over a bare path', () => {
+    // #given
+    const exchange = new Polymarket() as unknown as {
+      rateLimits: { weights: Record<string, number> };
+      endpointWeight(url: string, method?: string): number;
+    };
+    exchange.rateLimits.weights = { '/orders': 2, 'POST /orders': 4 };
+
+    // #when
+    const read = exchange.endpointWeight('/orders?status=open', 'GET');
+    const write = exchange.endpointWeight('/orders', 'POST');
+
+    // #then
+    expect(read).toBe(2);
+    expect(write).toBe(4);
+  });
+
+  it('should keep Kalshi portfolio reads out of the write bucket', async () => {
+    // #given
+    const kalshi = new Kalshi({
+      transport: vi.fn().mockImplementation(async () => new Response('{}', { status: 200 })),
+    });
+    const throttle = vi.spyOn(kalshi as unknown as { throttle(): Promise<void> }, 'throttle');
+    const request = (
+      kalshi as unknown as { request(method: string, path: string): Promise<unknown> }
+    ).request;
+
+    // #when
+    await request.call(kalshi, 'GET', '/portfolio/balance');
+    await request.call(kalshi, 'DELETE', '/portfolio/orders/abc');
+
+    // #then
+    expect(throttle.mock.calls.map(([scope]) => scope)).toEqual(['public', 'private']);
+  });
+});
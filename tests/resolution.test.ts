@@ -0,0 +1,144 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Kalshi, Limitless, MarketStatus, Polymarket, PredictFun } from '../src/index.js';
+import { json } from './helpers.js';
+
+describe('fetchResolution', () => {
+  it('should report a Polymarket UMA dispute', async () => {
+    // #given
+    const transport = vi.fn().mockResolvedValue(
+      json([
+        {
+          id: '12',
+          outcomes: '["Yes","No"]',
+          outcomePrices: '["0.97","0.03"]',
+          closed: true,
+          umaResolutionStatus: 'disputed',
+        },
+      ])
+    );
+    const exchange = new Polymarket({ transport });
+
+    // #when
+    const resolution = await exchange.fetchResolution('0xabc');
+
+    // #then
+    expect(resolution).toEqual({ payouts: {}, disputed: true });
+    expect(String(transport.mock.calls[0]?.[0])).toContain('condition_ids=0xabc');
+  });
+
+  it('should pay out a Polymarket 50/50 split without a winner', async () => {
+    // #given
+    const transport = vi.fn().mockResolvedValue(
+      json([
+        {
+          id: '12',
+          outcomes: '["Yes","No"]',
+          outcomePrices: '["0.5","0.5"]',
+          closed: true,
+          closedTime: '2026-03-01T12:00:00Z',
+          umaResolutionStatus: 'resolved',
+        },
+      ])
+    );
+    const exchange = new Polymarket({ transport });
+
+    // #when
+    const resolution = await exchange.fetchResolution('12');
+
+    // #then
+    expect(resolution).toEqual({
+      outcome: undefined,
+      resolvedAt: new Date('2026-03-01T12:00:00Z'),
+      payouts: { Yes: 0.5, No: 0.5 },
+      disputed: false,
+    });
+  });
+
+  it('should settle a Kalshi scalar market at its settlement value', async () => {
+    // #given
+    const transport = vi.fn().mockResolvedValue(
+      json({
+        market: {
+          ticker: 'KXGDP-26Q1',
+          status: 'settled',
+          result: 'yes',
+          settlement_value: 37,
+          settlement_ts: '2026-04-30T14:00:00Z',
+        },
+      })
+    );
+    const exchange = new Kalshi({ transport });
+
+    // #when
+    const resolution = await exchange.fetchResolution('KXGDP-26Q1');
+
+    // #then
+    expect(resolution).toEqual({
+      outcome: 'Yes',
+      resolvedAt: new Date('2026-04-30T14:00:00Z'),
+      payouts: { Yes: 0.37, No: 0.63 },
+      disputed: false,
+    });
+  });
+
+  it('should pay the winning Predict.fun outcome', async () => {
+    // #given
+    const transport = vi.fn(async () =>
+      json({
+        data: {
+          id: 5,
+          status: 'RESOLVED',
+          outcomes: [
+            { name: 'Up', onChainId: '1', status: 'LOST' },
+            { name: 'Down', onChainId: '2', status: 'WON' },
+          ],
+        },
+      })
+    );
+    const exchange = new PredictFun({ transport });
+
+    // #when
+    const market = await exchange.fetchMarket('5');
+    const resolution = await exchange.fetchResolution('5');
+
+    // #then
+    expect(market.status).toBe(MarketStatus.RESOLVED);
+    expect(resolution).toMatchObject({ outcome: 'Down', payouts: { Up: 0, Down: 1 } });
+  });
+
+  it('should keep a resolved Limitless market closed until the winner is known', async () => {
+    // #given
+    const transport = vi.fn(async () =>
+      json({
+        slug: 'eth-above-4k',
+        title: 'ETH above 4k?',
+        tokens: { yes: '1', no: '2' },
+        status: 'RESOLVED',
+      })
+    );
+    const exchange = new Limitless({ transport });
+
+    // #when
+    const market = await exchange.fetchMarket('eth-above-4k');
+    const resolution = await exchange.fetchResolution('eth-above-4k');
+
+    // #then
+    expect(market.status).toBe(MarketStatus.CLOSED);
+    expect(market.resolution).toBeUndefined();
+    expect(resolution).toBeNull();
+  });
+
+  it('should return null while a market is still trading', async () => {
+    // #given
+    const transport = vi
+      .fn()
+      .mockResolvedValue(json({ market: { ticker: 'KXBTC-25', status: 'active' } }));
+    const exchange = new Kalshi({ transport });
+
+    // #when
+    const resolution = await exchange.fetchResolution('KXBTC-25');
+
+    // #then
+    expect(resolution).toBeNull();
+  });
+});
@@ -0,0 +1,125 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  Opinion,
+  OpinionOrderbookStream,
+  type OrderbookUpdate,
+  PredictFunWebSocket,
+} from '../src/index.js';
+import { json } from './helpers.js';
+
+describe('PredictFunWebSocket', () => {
+  const connected = () => {
+    const ws = new PredictFunWebSocket({ apiKey: 'key' });
+    const sent: Array<Record<string, unknown>> = [];
+    const internals = ws as unknown as {
+      ws: unknown;
+      state: string;
+      handleMessage(data: Buffer): void;
+      handshakeHeaders(): Record<string, string> | undefined;
+    };
+    internals.ws = { readyState: 1, send: (data: string) => sent.push(JSON.parse(data)) };
+    internals.state = 'connected';
+    const receive = (message: unknown) =>
+      internals.handleMessage(Buffer.from(JSON.stringify(message)));
+    return { ws, sent, receive, internals };
+  };
+
+  it('should subscribe to the market topic and emit full books', async () => {
+    // #given
+    const { ws, sent, receive, internals } = connected();
+    const updates: OrderbookUpdate[] = [];
+    await ws.watchOrderbook('123', (_id, update) => {
+      updates.push(update);
+    });
+
+    // #when
+    receive({
+      type: 'M',
+      topic: 'predictOrderbook/123',
+      data: {
+        marketId: 123,
+        bids: [
+          [0.41, 10],
+          [0.43, 5],
+        ],
+        asks: [
+          [0.47, 8],
+          [0.5, 0],
+        ],
+        updateTimestampMs: 1735689600000,
+      },
+    });
+
+    // #then
+    expect(internals.handshakeHeaders()).toEqual({ 'x-api-key': 'key' });
+    expect(sent[0]).toEqual({
+      method: 'subscribe',
+      requestId: 1,
+      params: ['predictOrderbook/123'],
+    });
+    expect(updates).toEqual([
+      {
+        marketId: '123',
+        bids: [
+          [0.43, 5],
+          [0.41, 10],
+        ],
+        asks: [[0.47, 8]],
+        timestamp: 1735689600000,
+      },
+    ]);
+  });
+
+  it('should echo heartbeats', () => {
+    // #given
+    const { sent, receive } = connected();
+
+    // #when
+    receive({ type: 'M', topic: 'heartbeat', data: 1735689600000 });
+
+    // #then
+    expect(sent).toEqual([{ method: 'heartbeat', data: 1735689600000 }]);
+  });
+});
+
+describe('OpinionOrderbookStream', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should poll fetchOrderbook until the market is unwatched', async () => {
+    // #given
+    vi.useFakeTimers();
+    const transport = vi.fn(async () =>
+      json({
+        code: 0,
+        result: {
+          bids: [{ price: '0.4', size: '10' }],
+          asks: [{ price: '0.45', size: '3' }],
+        },
+      })
+    );
+    const stream = new OpinionOrderbookStream(new Opinion({ apiKey: 'key', transport }), {
+      pollInterval: 500,
+    });
+    const updates: OrderbookUpdate[] = [];
+
+    // #when
+    await stream.watchOrderbook(
+      'm1',
+      (_id, update) => {
+        updates.push(update);
+      },
+      { tokenId: 't1' }
+    );
+    await vi.advanceTimersByTimeAsync(600);
+    await stream.unwatchOrderbook('m1');
+    await vi.advanceTimersByTimeAsync(2000);
+
+    // #then
+    expect(String(transport.mock.calls[0]?.[0])).toContain('token_id=t1');
+    expect(transport).toHaveBeenCalledTimes(2);
+    expect(updates).toHaveLength(1);
+    expect(updates[0]).toMatchObject({ marketId: 'm1', bids: [[0.4, 10]], asks: [[0.45, 3]] });
+  });
+});
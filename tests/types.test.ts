@@ -2,6 +2,7 @@ import { describe, expect, it } from 'vitest';
 import {
   calculateDelta,
   type Market,
+  MarketStatus,
   MarketUtils,
   type Order,
   OrderSide,
@@ -181,7 +182,7 @@ describe('MarketUtils', () => {
     it('should return true when closeTime is in the future', () => {
       // #given
       const futureDate = new Date(Date.now() + 86400000);
-      const market = { closeTime: futureDate, metadata: {} } as Market;
+      const market = { closeTime: futureDate, status: MarketStatus.OPEN } as Market;
 
       // #when
       const result = MarketUtils.isOpen(market);
@@ -192,7 +193,7 @@ describe('MarketUtils', () => {
 
     it('should return false when market is marked closed', () => {
       // #given
-      const market = { metadata: { closed: true } } as unknown as Market;
+      const market = { status: MarketStatus.RESOLVED } as Market;
 
       // #when
       const result = MarketUtils.isOpen(market);
@@ -203,9 +204,14 @@ describe('MarketUtils', () => {
   });
 
   describe('getTokenIds', () => {
-    it('should return token ids from metadata array', () => {
+    it('should return token ids from outcome tokens', () => {
       // #given
-      const market = { metadata: { clobTokenIds: ['token1', 'token2'] } } as unknown as Market;
+      const market = {
+        outcomeTokens: [
+          { outcome: 'Yes', tokenId: 'token1' },
+          { outcome: 'No', tokenId: 'token2' },
+        ],
+      } as Market;
 
       // #when
       const result = MarketUtils.getTokenIds(market);
@@ -216,7 +222,7 @@ describe('MarketUtils', () => {
 
     it('should return empty array when no token ids', () => {
       // #given
-      const market = { metadata: {} } as Market;
+      const market = { outcomeTokens: [] } as unknown as Market;
 
       // #when
       const result = MarketUtils.getTokenIds(market);